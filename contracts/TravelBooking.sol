@@ -1,12 +1,608 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.30;
 
-// This is a placeholder file for reference only.
-// The actual smart contracts are already deployed on the blockchain.
-// Contract addresses are configured in src/contracts/config.ts
-
-contract TravelBookingPlaceholder {
-    // This contract is not meant to be deployed
-    // It exists only to avoid compilation warnings
-    string public constant message = "Contracts are already deployed";
+// Nomado AI travel bookings paid in the native token or supported ERC-20s.
+// Payments are held in escrow until a booking completes or is cancelled; the platform fee
+// is fixed per booking when it is created, and cancellations are refunded by the refund
+// policy for the booking type. Each booking names the vendor (hotel, airline, tour operator)
+// whose earnings accrue to a withdrawable balance; vendor address(0) means Nomado itself.
+// Confirmed bookings are ERC-721 tickets (token id = booking id) held by the customer; the token
+// URI is the booking's metadataURI. Tickets cannot be transferred, since refunds and check-in
+// belong to the customer who paid. Escrow and unpaid vendor earnings are tracked per token, and
+// emergency withdrawals can only take what is left over.
+// Must stay in sync with src/contracts/abis/TravelBooking.ts
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+contract TravelBooking {
+    string public constant name = "Nomado Booking Ticket";
+    string public constant symbol = "NOMADO";
+
+    enum BookingStatus {
+        Pending,
+        Confirmed,
+        CheckedIn,
+        Completed,
+        Cancelled,
+        Refunded
+    }
+
+    struct Booking {
+        uint256 id;
+        address customer;
+        address vendor;
+        string bookingType;
+        string details;
+        uint256 amount;
+        address token; // address(0) for the native token
+        uint256 timestamp;
+        uint256 checkInDate;
+        uint256 checkOutDate;
+        BookingStatus status;
+        string metadataURI;
+    }
+
+    struct Vendor {
+        string name;
+        address payoutAddress; // Where withdrawals go; zero for vendors never registered
+        bool active; // Inactive vendors keep their balances but take no new bookings
+    }
+
+    // Refund for cancelling at least minSecondsBefore ahead of check-in
+    struct RefundTier {
+        uint256 minSecondsBefore;
+        uint256 refundBps;
+    }
+
+    uint256 public constant MAX_FEE = 1000; // 10% in basis points
+    uint256 private constant FEE_PRECISION = 10000;
+    uint256 private constant CHECK_IN_WINDOW = 1 days; // How early a traveller may check in
+    uint256 private constant MAX_REFUND_TIERS = 10;
+    string private constant DEFAULT_POLICY = "default"; // Used for booking types without their own policy
+
+    address public owner;
+    address public feeCollector;
+    uint256 public platformFee = 250; // 2.5% in basis points
+
+    mapping(address => bool) public supportedTokens;
+    mapping(uint256 => Booking) public bookings;
+    mapping(address => uint256[]) public userBookings;
+    mapping(address => Vendor) public vendors;
+    mapping(address => mapping(address => uint256)) public vendorBalances; // Vendor => token => earnings
+
+    mapping(uint256 => uint256) private bookingFees; // Fee rate at the time of booking
+    mapping(address => uint256[]) private vendorBookings;
+    mapping(bytes32 => RefundTier[]) private refundPolicies; // By keccak256 of the booking type, most notice first
+    mapping(uint256 => address) private ticketOwners;
+    mapping(address => uint256) private ticketBalances;
+    uint256 private nextBookingId = 1;
+    uint256 private nativeValue; // Native-token bookings only; ERC-20 amounts stay per booking
+    uint256 private nativeRevenue; // Native-token fees collected
+    mapping(address => uint256) private escrowed; // Token => open bookings' payments
+    mapping(address => uint256) private vendorLiabilities; // Token => vendor balances not yet withdrawn
+    uint256 private locked = 1;
+
+    event BookingCreated(
+        uint256 indexed bookingId,
+        address indexed customer,
+        string bookingType,
+        uint256 amount,
+        address token
+    );
+    event BookingConfirmed(uint256 indexed bookingId);
+    event BookingCheckedIn(uint256 indexed bookingId);
+    event BookingCompleted(uint256 indexed bookingId);
+    event BookingCancelled(uint256 indexed bookingId, uint256 refundAmount);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PlatformFeeUpdated(uint256 oldFee, uint256 newFee);
+    event TokenSupportUpdated(address token, bool supported);
+    event RefundPolicyUpdated(string bookingType);
+    event VendorRegistered(address indexed vendor, string name, address payoutAddress);
+    event VendorStatusUpdated(address indexed vendor, bool active);
+    event VendorEarningsCredited(address indexed vendor, uint256 indexed bookingId, address token, uint256 amount);
+    event VendorWithdrawal(address indexed vendor, address token, uint256 amount, address payoutAddress);
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
+    event MetadataUpdate(uint256 _tokenId); // ERC-4906
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Ownable: caller is not the owner");
+        _;
+    }
+
+    modifier nonReentrant() {
+        require(locked == 1, "ReentrancyGuard: reentrant call");
+        locked = 2;
+        _;
+        locked = 1;
+    }
+
+    modifier bookingExists(uint256 _bookingId) {
+        require(_bookingId > 0 && _bookingId < nextBookingId, "Booking does not exist");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+        feeCollector = msg.sender;
+        supportedTokens[address(0)] = true;
+        emit OwnershipTransferred(address(0), msg.sender);
+        emit TokenSupportUpdated(address(0), true);
+
+        // Keep in sync with REFUND_POLICIES in src/contracts/config.ts
+        _setTwoTierPolicy(DEFAULT_POLICY, 7 days, 2 days);
+        _setTwoTierPolicy("flight", 7 days, 2 days);
+        _setTwoTierPolicy("hotel", 7 days, 2 days);
+        _setTwoTierPolicy("tour", 14 days, 3 days);
+        _setTwoTierPolicy("activity", 2 days, 1 days);
+    }
+
+    // Bookings
+
+    function createBooking(
+        string memory _bookingType,
+        address _vendor,
+        string memory _details,
+        uint256 _amount,
+        address _token,
+        uint256 _checkInDate,
+        uint256 _checkOutDate,
+        string memory _metadataURI
+    ) external payable nonReentrant returns (uint256) {
+        require(_amount > 0, "Amount must be greater than zero");
+        require(supportedTokens[_token], "Token not supported");
+        require(bytes(_bookingType).length > 0, "Booking type required");
+        require(_checkInDate > 0 && _checkOutDate >= _checkInDate, "Invalid booking dates");
+        require(_vendor == address(0) || vendors[_vendor].active, "Vendor is not active");
+
+        if (_token == address(0)) {
+            require(msg.value == _amount, "Incorrect payment amount");
+            nativeValue += _amount;
+        } else {
+            require(msg.value == 0, "Native token sent with ERC-20 payment");
+            _safeTransferFrom(_token, msg.sender, address(this), _amount);
+        }
+        escrowed[_token] += _amount;
+
+        uint256 bookingId = nextBookingId++;
+        // Field by field rather than a struct literal, which would not fit on the stack
+        Booking storage booking = bookings[bookingId];
+        booking.id = bookingId;
+        booking.customer = msg.sender;
+        booking.vendor = _vendor;
+        booking.bookingType = _bookingType;
+        booking.details = _details;
+        booking.amount = _amount;
+        booking.token = _token;
+        booking.timestamp = block.timestamp;
+        booking.checkInDate = _checkInDate;
+        booking.checkOutDate = _checkOutDate;
+        booking.status = BookingStatus.Pending;
+        booking.metadataURI = _metadataURI;
+        bookingFees[bookingId] = platformFee;
+        userBookings[msg.sender].push(bookingId);
+        if (_vendor != address(0)) {
+            vendorBookings[_vendor].push(bookingId);
+        }
+
+        emit BookingCreated(bookingId, msg.sender, _bookingType, _amount, _token);
+        return bookingId;
+    }
+
+    // The vendor accepts the booking, or the platform does on their behalf
+    function confirmBooking(uint256 _bookingId) external bookingExists(_bookingId) {
+        Booking storage booking = bookings[_bookingId];
+        require(
+            msg.sender == owner || (booking.vendor != address(0) && msg.sender == booking.vendor),
+            "Only the vendor or platform can confirm"
+        );
+        require(booking.status == BookingStatus.Pending, "Booking is not pending");
+
+        booking.status = BookingStatus.Confirmed;
+        _mintTicket(booking.customer, _bookingId);
+        emit BookingConfirmed(_bookingId);
+    }
+
+    // Ticket metadata is pinned once the booking id is known, so it can be set after creation
+    function setTicketURI(uint256 _bookingId, string memory _metadataURI) external bookingExists(_bookingId) {
+        Booking storage booking = bookings[_bookingId];
+        require(
+            msg.sender == booking.customer ||
+                msg.sender == owner ||
+                (booking.vendor != address(0) && msg.sender == booking.vendor),
+            "Not authorized to update the ticket"
+        );
+        require(
+            booking.status == BookingStatus.Pending || booking.status == BookingStatus.Confirmed,
+            "Ticket can no longer be updated"
+        );
+
+        booking.metadataURI = _metadataURI;
+        emit MetadataUpdate(_bookingId);
+    }
+
+    function checkIn(uint256 _bookingId) external bookingExists(_bookingId) {
+        Booking storage booking = bookings[_bookingId];
+        require(msg.sender == booking.customer, "Only the customer can check in");
+        require(booking.status == BookingStatus.Confirmed, "Booking is not confirmed");
+        require(block.timestamp + CHECK_IN_WINDOW >= booking.checkInDate, "Too early to check in");
+
+        booking.status = BookingStatus.CheckedIn;
+        emit BookingCheckedIn(_bookingId);
+    }
+
+    // Releases escrow: the fee to the fee collector, the rest to the vendor's balance
+    function completeBooking(uint256 _bookingId) external onlyOwner nonReentrant bookingExists(_bookingId) {
+        Booking storage booking = bookings[_bookingId];
+        require(booking.status == BookingStatus.CheckedIn, "Booking is not checked in");
+
+        booking.status = BookingStatus.Completed;
+        escrowed[booking.token] -= booking.amount;
+        uint256 fee = (booking.amount * bookingFees[_bookingId]) / FEE_PRECISION;
+        if (booking.token == address(0)) {
+            nativeRevenue += fee;
+        }
+
+        _payout(booking.token, feeCollector, fee);
+        _creditVendor(booking, booking.amount - fee);
+        emit BookingCompleted(_bookingId);
+    }
+
+    // Refunds follow the booking type's policy; whatever is kept compensates the supplier, fee first
+    function cancelBooking(uint256 _bookingId) external nonReentrant bookingExists(_bookingId) {
+        Booking storage booking = bookings[_bookingId];
+        require(msg.sender == booking.customer || msg.sender == owner, "Not authorized to cancel");
+        require(
+            booking.status == BookingStatus.Pending || booking.status == BookingStatus.Confirmed,
+            "Booking cannot be cancelled"
+        );
+
+        uint256 refundAmount = (booking.amount * _refundRate(booking)) / FEE_PRECISION;
+        uint256 retained = booking.amount - refundAmount;
+        uint256 fee = (booking.amount * bookingFees[_bookingId]) / FEE_PRECISION;
+        if (fee > retained) {
+            fee = retained;
+        }
+
+        booking.status = retained == 0 ? BookingStatus.Refunded : BookingStatus.Cancelled;
+        escrowed[booking.token] -= booking.amount;
+        _burnTicket(_bookingId);
+        if (booking.token == address(0)) {
+            nativeRevenue += fee;
+        }
+
+        _payout(booking.token, feeCollector, fee);
+        _creditVendor(booking, retained - fee);
+        _payout(booking.token, booking.customer, refundAmount);
+        emit BookingCancelled(_bookingId, refundAmount);
+    }
+
+    // Views
+
+    function getBooking(uint256 _bookingId) external view bookingExists(_bookingId) returns (Booking memory) {
+        return bookings[_bookingId];
+    }
+
+    function getVendorBookings(address _vendor) external view returns (uint256[] memory) {
+        return vendorBookings[_vendor];
+    }
+
+    // What cancelling right now would refund; zero once the booking can no longer be cancelled
+    function previewRefund(uint256 _bookingId)
+        external
+        view
+        bookingExists(_bookingId)
+        returns (uint256 refundAmount, uint256 refundBps)
+    {
+        Booking storage booking = bookings[_bookingId];
+        if (booking.status != BookingStatus.Pending && booking.status != BookingStatus.Confirmed) {
+            return (0, 0);
+        }
+        refundBps = _refundRate(booking);
+        refundAmount = (booking.amount * refundBps) / FEE_PRECISION;
+    }
+
+    function getRefundPolicy(string memory _bookingType)
+        external
+        view
+        returns (uint256[] memory minSecondsBefore, uint256[] memory refundBps)
+    {
+        RefundTier[] storage tiers = _policyFor(_bookingType);
+        minSecondsBefore = new uint256[](tiers.length);
+        refundBps = new uint256[](tiers.length);
+        for (uint256 i = 0; i < tiers.length; i++) {
+            minSecondsBefore[i] = tiers[i].minSecondsBefore;
+            refundBps[i] = tiers[i].refundBps;
+        }
+    }
+
+    function getUserBookings(address _user) external view returns (uint256[] memory) {
+        return userBookings[_user];
+    }
+
+    function getUserBookingDetails(address _user) external view returns (Booking[] memory) {
+        uint256[] storage ids = userBookings[_user];
+        Booking[] memory result = new Booking[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            result[i] = bookings[ids[i]];
+        }
+        return result;
+    }
+
+    // What the contract holds beyond escrow and vendor balances, e.g. tokens sent to it by mistake
+    function withdrawableSurplus(address _token) public view returns (uint256) {
+        uint256 held = _token == address(0) ? address(this).balance : IERC20(_token).balanceOf(address(this));
+        uint256 owed = escrowed[_token] + vendorLiabilities[_token];
+        return held > owed ? held - owed : 0;
+    }
+
+    function getStats() external view returns (uint256 totalBookings, uint256 totalValue, uint256 platformRevenue) {
+        return (nextBookingId - 1, nativeValue, nativeRevenue);
+    }
+
+    // Tickets (ERC-721)
+
+    function supportsInterface(bytes4 _interfaceId) external pure returns (bool) {
+        return
+            _interfaceId == 0x01ffc9a7 || // ERC-165
+            _interfaceId == 0x80ac58cd || // ERC-721
+            _interfaceId == 0x5b5e139f || // ERC-721 metadata
+            _interfaceId == 0x49064906; // ERC-4906
+    }
+
+    function balanceOf(address _owner) external view returns (uint256) {
+        require(_owner != address(0), "Zero address is not a valid owner");
+        return ticketBalances[_owner];
+    }
+
+    function ownerOf(uint256 _tokenId) public view returns (address) {
+        address ticketOwner = ticketOwners[_tokenId];
+        require(ticketOwner != address(0), "Ticket does not exist");
+        return ticketOwner;
+    }
+
+    function tokenURI(uint256 _tokenId) external view returns (string memory) {
+        ownerOf(_tokenId);
+        return bookings[_tokenId].metadataURI;
+    }
+
+    function getApproved(uint256 _tokenId) external view returns (address) {
+        ownerOf(_tokenId);
+        return address(0);
+    }
+
+    function isApprovedForAll(address, address) external pure returns (bool) {
+        return false;
+    }
+
+    function approve(address, uint256) external pure {
+        revert("Tickets are non-transferable");
+    }
+
+    function setApprovalForAll(address, bool) external pure {
+        revert("Tickets are non-transferable");
+    }
+
+    function transferFrom(address, address, uint256) external pure {
+        revert("Tickets are non-transferable");
+    }
+
+    function safeTransferFrom(address, address, uint256) external pure {
+        revert("Tickets are non-transferable");
+    }
+
+    function safeTransferFrom(address, address, uint256, bytes calldata) external pure {
+        revert("Tickets are non-transferable");
+    }
+
+    // Administration
+
+    function setPlatformFee(uint256 _newFee) external onlyOwner {
+        require(_newFee <= MAX_FEE, "Fee exceeds maximum");
+        emit PlatformFeeUpdated(platformFee, _newFee);
+        platformFee = _newFee;
+    }
+
+    function setFeeCollector(address _newCollector) external onlyOwner {
+        require(_newCollector != address(0), "Invalid fee collector");
+        feeCollector = _newCollector;
+    }
+
+    // Registers a vendor, or updates their name and payout address, and activates them
+    function registerVendor(address _vendor, string memory _name, address _payoutAddress) external onlyOwner {
+        require(_vendor != address(0), "Invalid vendor");
+        require(_payoutAddress != address(0), "Invalid payout address");
+        require(bytes(_name).length > 0, "Vendor name required");
+
+        vendors[_vendor] = Vendor({name: _name, payoutAddress: _payoutAddress, active: true});
+        emit VendorRegistered(_vendor, _name, _payoutAddress);
+    }
+
+    function setVendorActive(address _vendor, bool _active) external onlyOwner {
+        require(vendors[_vendor].payoutAddress != address(0), "Vendor not registered");
+        vendors[_vendor].active = _active;
+        emit VendorStatusUpdated(_vendor, _active);
+    }
+
+    // Vendors manage their own payout address
+    function setVendorPayoutAddress(address _payoutAddress) external {
+        Vendor storage vendor = vendors[msg.sender];
+        require(vendor.payoutAddress != address(0), "Vendor not registered");
+        require(_payoutAddress != address(0), "Invalid payout address");
+
+        vendor.payoutAddress = _payoutAddress;
+        emit VendorRegistered(msg.sender, vendor.name, _payoutAddress);
+    }
+
+    // Sends the caller's earnings in one token to their payout address
+    function withdrawVendorBalance(address _token) external nonReentrant {
+        Vendor storage vendor = vendors[msg.sender];
+        require(vendor.payoutAddress != address(0), "Vendor not registered");
+        uint256 amount = vendorBalances[msg.sender][_token];
+        require(amount > 0, "Nothing to withdraw");
+
+        vendorBalances[msg.sender][_token] = 0;
+        vendorLiabilities[_token] -= amount;
+        _payout(_token, vendor.payoutAddress, amount);
+        emit VendorWithdrawal(msg.sender, _token, amount, vendor.payoutAddress);
+    }
+
+    // Tiers run from the most notice to the least; cancelling with less notice than the last tier refunds nothing
+    function setRefundPolicy(
+        string memory _bookingType,
+        uint256[] memory _minSecondsBefore,
+        uint256[] memory _refundBps
+    ) external onlyOwner {
+        _setRefundPolicy(_bookingType, _minSecondsBefore, _refundBps);
+    }
+
+    function setSupportedToken(address _token, bool _supported) external onlyOwner {
+        supportedTokens[_token] = _supported;
+        emit TokenSupportUpdated(_token, _supported);
+    }
+
+    // Escrow and vendor earnings are never swept
+    function emergencyWithdraw() external onlyOwner nonReentrant {
+        uint256 surplus = withdrawableSurplus(address(0));
+        require(surplus > 0, "No surplus to withdraw");
+        _payout(address(0), owner, surplus);
+    }
+
+    function emergencyWithdrawToken(address _token, uint256 _amount) external onlyOwner nonReentrant {
+        require(_token != address(0), "Use emergencyWithdraw for the native token");
+        require(_amount <= withdrawableSurplus(_token), "Amount exceeds surplus");
+        _payout(_token, owner, _amount);
+    }
+
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "Ownable: new owner is the zero address");
+        _transferOwnership(newOwner);
+    }
+
+    function renounceOwnership() external onlyOwner {
+        _transferOwnership(address(0));
+    }
+
+    // Internals
+
+    function _transferOwnership(address newOwner) private {
+        address previousOwner = owner;
+        owner = newOwner;
+        emit OwnershipTransferred(previousOwner, newOwner);
+    }
+
+    // Platform-operated bookings are paid straight to the owner; vendors withdraw when they choose
+    function _creditVendor(Booking storage _booking, uint256 _amount) private {
+        if (_amount == 0) {
+            return;
+        }
+        if (_booking.vendor == address(0)) {
+            _payout(_booking.token, owner, _amount);
+            return;
+        }
+        vendorBalances[_booking.vendor][_booking.token] += _amount;
+        vendorLiabilities[_booking.token] += _amount;
+        emit VendorEarningsCredited(_booking.vendor, _booking.id, _booking.token, _amount);
+    }
+
+    function _mintTicket(address _to, uint256 _tokenId) private {
+        ticketOwners[_tokenId] = _to;
+        ticketBalances[_to] += 1;
+        emit Transfer(address(0), _to, _tokenId);
+    }
+
+    // Cancelled bookings lose their ticket; unconfirmed bookings never had one
+    function _burnTicket(uint256 _tokenId) private {
+        address ticketOwner = ticketOwners[_tokenId];
+        if (ticketOwner == address(0)) {
+            return;
+        }
+        delete ticketOwners[_tokenId];
+        ticketBalances[ticketOwner] -= 1;
+        emit Transfer(ticketOwner, address(0), _tokenId);
+    }
+
+    function _setTwoTierPolicy(string memory _bookingType, uint256 _fullRefundBefore, uint256 _halfRefundBefore) private {
+        uint256[] memory minSecondsBefore = new uint256[](2);
+        uint256[] memory refundBps = new uint256[](2);
+        minSecondsBefore[0] = _fullRefundBefore;
+        refundBps[0] = FEE_PRECISION;
+        minSecondsBefore[1] = _halfRefundBefore;
+        refundBps[1] = FEE_PRECISION / 2;
+        _setRefundPolicy(_bookingType, minSecondsBefore, refundBps);
+    }
+
+    function _setRefundPolicy(
+        string memory _bookingType,
+        uint256[] memory _minSecondsBefore,
+        uint256[] memory _refundBps
+    ) private {
+        require(bytes(_bookingType).length > 0, "Booking type required");
+        require(_minSecondsBefore.length == _refundBps.length, "Tier lengths differ");
+        require(_minSecondsBefore.length <= MAX_REFUND_TIERS, "Too many refund tiers");
+
+        bytes32 key = keccak256(bytes(_bookingType));
+        delete refundPolicies[key];
+        for (uint256 i = 0; i < _minSecondsBefore.length; i++) {
+            require(_refundBps[i] <= FEE_PRECISION, "Refund exceeds 100%");
+            if (i > 0) {
+                require(_minSecondsBefore[i] < _minSecondsBefore[i - 1], "Tiers must shrink the notice period");
+                require(_refundBps[i] <= _refundBps[i - 1], "Less notice cannot refund more");
+            }
+            refundPolicies[key].push(RefundTier(_minSecondsBefore[i], _refundBps[i]));
+        }
+        emit RefundPolicyUpdated(_bookingType);
+    }
+
+    function _policyFor(string memory _bookingType) private view returns (RefundTier[] storage) {
+        RefundTier[] storage tiers = refundPolicies[keccak256(bytes(_bookingType))];
+        if (tiers.length > 0) {
+            return tiers;
+        }
+        return refundPolicies[keccak256(bytes(DEFAULT_POLICY))];
+    }
+
+    // Unconfirmed bookings are refunded in full: the supplier has not committed anything yet
+    function _refundRate(Booking storage _booking) private view returns (uint256) {
+        if (_booking.status == BookingStatus.Pending) {
+            return FEE_PRECISION;
+        }
+
+        uint256 notice = _booking.checkInDate > block.timestamp ? _booking.checkInDate - block.timestamp : 0;
+        RefundTier[] storage tiers = _policyFor(_booking.bookingType);
+        for (uint256 i = 0; i < tiers.length; i++) {
+            if (notice >= tiers[i].minSecondsBefore) {
+                return tiers[i].refundBps;
+            }
+        }
+        return 0;
+    }
+
+    function _payout(address _token, address _to, uint256 _amount) private {
+        if (_amount == 0) {
+            return;
+        }
+        if (_token == address(0)) {
+            (bool sent, ) = payable(_to).call{value: _amount}("");
+            require(sent, "Native transfer failed");
+        } else {
+            _callToken(_token, abi.encodeWithSelector(IERC20.transfer.selector, _to, _amount));
+        }
+    }
+
+    function _safeTransferFrom(address _token, address _from, address _to, uint256 _amount) private {
+        _callToken(_token, abi.encodeWithSelector(IERC20.transferFrom.selector, _from, _to, _amount));
+    }
+
+    // Tolerates tokens such as USDT that return nothing instead of a bool
+    function _callToken(address _token, bytes memory _data) private {
+        require(_token.code.length > 0, "Token is not a contract");
+        (bool success, bytes memory returned) = _token.call(_data);
+        require(success && (returned.length == 0 || abi.decode(returned, (bool))), "Token transfer failed");
+    }
 }
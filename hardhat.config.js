@@ -1,8 +1,34 @@
 require("@nomicfoundation/hardhat-toolbox");
 
+// Public networks are only configured when their RPC URL is set, e.g. SEPOLIA_RPC_URL
+const PUBLIC_NETWORKS = {
+  mainnet: 1,
+  sepolia: 11155111,
+  polygon: 137,
+  mumbai: 80001,
+  arbitrum: 42161,
+  optimism: 10
+};
+
+const publicNetworks = Object.fromEntries(
+  Object.entries(PUBLIC_NETWORKS)
+    .filter(([name]) => process.env[`${name.toUpperCase()}_RPC_URL`])
+    .map(([name, chainId]) => [name, {
+      url: process.env[`${name.toUpperCase()}_RPC_URL`],
+      chainId,
+      accounts: process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : []
+    }])
+);
+
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
-  solidity: "0.8.30",
+  solidity: {
+    version: "0.8.30",
+    // Unoptimised bytecode is over the 24 KB contract size limit
+    settings: {
+      optimizer: { enabled: true, runs: 200 }
+    }
+  },
   paths: {
     sources: "./contracts",
     tests: "./test",
@@ -12,6 +38,12 @@ module.exports = {
   networks: {
     hardhat: {
       chainId: 1337
-    }
+    },
+    // `npx hardhat node`
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 1337
+    },
+    ...publicNetworks
   }
 };
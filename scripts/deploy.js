@@ -0,0 +1,98 @@
+// Deploys TravelBooking and records its address in src/contracts/config.ts
+//
+//   npx hardhat node                                        # local chain (chainId 1337)
+//   npx hardhat run scripts/deploy.js --network localhost
+//   DEPLOYER_PRIVATE_KEY=... SEPOLIA_RPC_URL=... npx hardhat run scripts/deploy.js --network sepolia
+
+const fs = require("fs");
+const path = require("path");
+const hre = require("hardhat");
+
+const CONFIG_PATH = path.join(__dirname, "..", "src", "contracts", "config.ts");
+const STABLECOINS = ["USDC", "USDT", "DAI"];
+
+// Pulls `<chainId>: "0x..."` out of a token's entry in SUPPORTED_TOKENS
+function stablecoinAddresses(source, chainId) {
+  return STABLECOINS.map((symbol) => {
+    const block = source.match(new RegExp(`\\n  ${symbol}: \\{([\\s\\S]*?)\\n  \\}`));
+    const entry = block && block[1].match(new RegExp(`\\n\\s*${chainId}: "(0x[0-9a-fA-F]{40})"`));
+    return entry ? { symbol, address: entry[1] } : null;
+  }).filter(Boolean);
+}
+
+// Replaces the chain's TravelBooking address, adding the chain to CONTRACT_ADDRESSES if it is new
+function writeContractAddress(source, chainId, networkName, address) {
+  const start = source.indexOf("export const CONTRACT_ADDRESSES = {");
+  const end = source.indexOf("} as const;", start);
+  if (start === -1 || end === -1) {
+    throw new Error("CONTRACT_ADDRESSES not found in src/contracts/config.ts");
+  }
+
+  let block = source.slice(start, end);
+  const existing = new RegExp(`(\\n  ${chainId}: \\{\\n    TravelBooking: ")0x[0-9a-fA-F]{40}("[^\\n]*)`);
+  if (existing.test(block)) {
+    block = block.replace(existing, `$1${address}",`);
+  } else {
+    block += `  // ${networkName}\n  ${chainId}: {\n    TravelBooking: "${address}",\n  },\n`;
+  }
+  return source.slice(0, start) + block + source.slice(end);
+}
+
+// Sets where the event indexer starts scanning for this chain in INDEXER_CONFIG.START_BLOCKS
+function writeStartBlock(source, chainId, blockNumber) {
+  const start = source.indexOf("  START_BLOCKS: {");
+  const end = source.indexOf("  } as Record<number, number>,", start);
+  if (start === -1 || end === -1) {
+    throw new Error("INDEXER_CONFIG.START_BLOCKS not found in src/contracts/config.ts");
+  }
+
+  let block = source.slice(start, end);
+  const existing = new RegExp(`\\n    ${chainId}: \\d+,`);
+  if (existing.test(block)) {
+    block = block.replace(existing, `\n    ${chainId}: ${blockNumber},`);
+  } else {
+    block += `    ${chainId}: ${blockNumber},\n`;
+  }
+  return source.slice(0, start) + block + source.slice(end);
+}
+
+async function main() {
+  const { ethers, network } = hre;
+  const [deployer] = await ethers.getSigners();
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+
+  console.log(`🚀 Deploying TravelBooking to ${network.name} (chain ${chainId}) from ${deployer.address}`);
+  const TravelBooking = await ethers.getContractFactory("TravelBooking");
+  const travelBooking = await TravelBooking.deploy();
+  await travelBooking.waitForDeployment();
+  const address = await travelBooking.getAddress();
+  const deployBlock = (await travelBooking.deploymentTransaction().wait()).blockNumber;
+  console.log(`✅ TravelBooking deployed at ${address} in block ${deployBlock}`);
+
+  let source = fs.readFileSync(CONFIG_PATH, "utf8");
+
+  // Accept the chain's stablecoins so the payment picker works straight away
+  for (const token of stablecoinAddresses(source, chainId)) {
+    const tx = await travelBooking.setSupportedToken(token.address, true);
+    await tx.wait();
+    console.log(`🪙 Accepting ${token.symbol} (${token.address})`);
+  }
+
+  // The in-process Hardhat network disappears when this script exits
+  if (network.name === "hardhat") {
+    console.log("ℹ️ Deployed to the in-process Hardhat network; run against --network localhost to keep the address");
+    return;
+  }
+
+  source = writeContractAddress(source, chainId, network.name, address);
+  source = writeStartBlock(source, chainId, deployBlock);
+  fs.writeFileSync(CONFIG_PATH, source);
+  console.log(`📝 Recorded the address and deployment block for chain ${chainId} in src/contracts/config.ts`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -85,15 +85,15 @@ const testCancel = async (bookingId) => {
 };
 
 // 7. View all mock data
-const viewMockData = () => {
-  const mockBookings = contractService.getMockBookings();
+const viewMockData = async () => {
+  const mockBookings = await contractService.getMockBookings();
   console.log('📊 All mock bookings:', mockBookings);
   return mockBookings;
 };
 
 // 8. Clear mock data
-const clearData = () => {
-  contractService.clearMockData();
+const clearData = async () => {
+  await contractService.clearMockData();
   console.log('🧹 Mock data cleared');
 };
 
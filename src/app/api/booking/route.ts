@@ -1,31 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { aiTravelAgent } from '@/lib/mcp/client';
+import { getIssuedOffers } from '@/lib/inventory/issuedOffers';
+import { getServerTravelAgent } from '@/lib/mcp/connect';
+import { fxService } from '@/lib/money/fx';
+import { conversationService } from '@/services/conversationService';
+import MCPProcessor from '@/utils/mcpProcessor';
 
 export async function POST(request: NextRequest) {
   try {
-    const { query } = await request.json();
+    const { query, sessionId } = await request.json();
     
     console.log('🔍 Processing travel query with MCP AI Agent:', query);
     
+    // Follow-ups like "make it cheaper" build on the slots gathered earlier in the session
+    const session = conversationService.getOrCreate(sessionId);
+    
     // Use MCP AI Agent to process the query
-    const agentResponse = await aiTravelAgent.processQuery(query);
+    const agentResponse = await getServerTravelAgent().processQuery(query, session);
     
     // If we got recommendations, format them for the UI
     if (agentResponse.recommendations && agentResponse.recommendations.length > 0) {
-      const formattedBookings = agentResponse.recommendations.map(rec => ({
-        id: rec.id,
-        type: rec.type,
-        title: rec.title,
-        description: rec.description,
-        price: rec.price * 100, // Convert to paisa for UI consistency
-        currency: rec.currency,
-        rating: rec.rating,
-        details: {
-          location: rec.location,
-          amenities: rec.amenities,
-          ...rec.details
-        }
-      }));
+      await fxService.refresh();
+      const formattedBookings = MCPProcessor.toBookingOptions(agentResponse.recommendations);
+      // Bridge payouts are priced from what was issued here, not from the client's copy
+      getIssuedOffers().remember(formattedBookings);
 
       return NextResponse.json({
         success: true,
@@ -33,7 +30,9 @@ export async function POST(request: NextRequest) {
         agentMessage: agentResponse.message,
         confidence: agentResponse.confidence,
         type: agentResponse.type,
-        mcpProcessed: true
+        mcpProcessed: true,
+        sessionId: session.id,
+        intent: session.intent
       });
     }
     
@@ -46,7 +45,9 @@ export async function POST(request: NextRequest) {
         agentResponse: agentResponse.content,
         confidence: agentResponse.confidence,
         type: agentResponse.type,
-        mcpProcessed: true
+        mcpProcessed: true,
+        sessionId: session.id,
+        intent: session.intent
       });
     }
     
@@ -59,7 +60,9 @@ export async function POST(request: NextRequest) {
       bookings: mockBookings,
       agentMessage: 'Here are some options I found for you:',
       mcpIntent: generateMCPIntent(query),
-      mcpProcessed: false
+      mcpProcessed: false,
+      sessionId: session.id,
+      intent: session.intent
     });
   } catch (error) {
     console.error('Booking API error:', error);
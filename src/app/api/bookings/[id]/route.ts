@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deployedContract } from '@/contracts/deployments';
+import { getServerConfig, notConfigured } from '@/lib/config/providers';
+import { getBookingIndexer, getBookingIndexStore } from '@/lib/indexer/indexer';
+
+// One indexed booking with its event history
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const chainId = Number(request.nextUrl.searchParams.get('chainId'));
+  if (!chainId) {
+    return NextResponse.json({ success: false, error: 'chainId is required' }, { status: 400 });
+  }
+
+  const rpc = getServerConfig().rpc[chainId];
+  if (rpc && !rpc.settings && deployedContract(chainId)) {
+    return NextResponse.json(notConfigured(rpc.health), { status: 503 });
+  }
+
+  const indexer = getBookingIndexer(chainId);
+  if (!indexer) {
+    return NextResponse.json({ success: false, error: `No booking contract is indexed on chain ${chainId}` }, { status: 404 });
+  }
+  indexer.start();
+
+  const store = getBookingIndexStore();
+  const booking = store.getBooking(chainId, Number(id));
+  if (!booking) {
+    return NextResponse.json({ success: false, error: 'Booking not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, booking, events: store.getEvents(chainId, booking.id) });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BOOKING_STATUS } from '@/contracts/config';
+import { deployedContract } from '@/contracts/deployments';
+import { getServerConfig, notConfigured } from '@/lib/config/providers';
+import { getBookingIndexer, getBookingIndexStore } from '@/lib/indexer/indexer';
+import type { BookingQuery } from '@/lib/indexer/store';
+
+// Booking history from the local event index: filter by customer, vendor, status, type and
+// check-in range, paginated with limit/offset. sync=1 waits for the indexer to catch up first
+
+const STATUS_CODES: Record<string, number> = Object.entries(BOOKING_STATUS)
+  .reduce((codes, [code, name]) => ({ ...codes, [name.toLowerCase()]: Number(code) }), {});
+
+function parseStatuses(value: string | null): number[] | undefined {
+  if (!value) return undefined;
+  return value.split(',').map(status => {
+    const code = /^\d+$/.test(status) ? Number(status) : STATUS_CODES[status.trim().toLowerCase()];
+    if (code === undefined || !(code in BOOKING_STATUS)) {
+      throw new Error(`Unknown booking status "${status}"`);
+    }
+    return code;
+  });
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`"${value}" is not a number`);
+  }
+  return parsed;
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const chainId = Number(params.get('chainId'));
+  if (!chainId) {
+    return NextResponse.json({ success: false, error: 'chainId is required' }, { status: 400 });
+  }
+
+  const rpc = getServerConfig().rpc[chainId];
+  if (rpc && !rpc.settings && deployedContract(chainId)) {
+    return NextResponse.json(notConfigured(rpc.health), { status: 503 });
+  }
+
+  const indexer = getBookingIndexer(chainId);
+  if (!indexer) {
+    return NextResponse.json({ success: false, error: `No booking contract is indexed on chain ${chainId}` }, { status: 404 });
+  }
+  indexer.start();
+
+  let query: BookingQuery;
+  try {
+    const order = params.get('order');
+    query = {
+      chainId,
+      customer: params.get('customer') || undefined,
+      vendor: params.get('vendor') || undefined,
+      status: parseStatuses(params.get('status')),
+      bookingType: params.get('type') || undefined,
+      checkInFrom: parseNumber(params.get('checkInFrom')),
+      checkInTo: parseNumber(params.get('checkInTo')),
+      order: order === 'oldest' || order === 'check_in' ? order : 'newest',
+      limit: parseNumber(params.get('limit')),
+      offset: parseNumber(params.get('offset'))
+    };
+  } catch (error) {
+    return NextResponse.json({ success: false, error: error instanceof Error ? error.message : 'Invalid query' }, { status: 400 });
+  }
+
+  if (params.get('sync') === '1') {
+    try {
+      await indexer.sync();
+    } catch {
+      // Serve what is indexed; the status below carries the error
+    }
+  }
+
+  const page = getBookingIndexStore().queryBookings(query);
+  return NextResponse.json({ success: true, ...page, indexer: indexer.status() });
+}
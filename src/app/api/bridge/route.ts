@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBridgeSettlement } from '@/lib/bridge/settlement';
+import { fxService } from '@/lib/money/fx';
+
+// Web3 -> Web2 bridge: POST settles a treasury deposit into a supplier payout,
+// GET looks up the reconciliation record by id or by transaction.
+// Only ids are taken from the client: the booking, its price and the token amount are the server's own,
+// and the price the client quotes is only checked against them
+
+export async function POST(request: NextRequest) {
+  try {
+    const { bookingId, token, chainId, txHash, payer, quoted } = await request.json();
+
+    if (typeof bookingId !== 'string' || typeof token !== 'string' || !chainId ||
+        typeof txHash !== 'string' || typeof payer !== 'string' ||
+        typeof quoted?.amount !== 'number' || typeof quoted?.currency !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'bookingId, token, chainId, txHash, payer and quoted are required' },
+        { status: 400 }
+      );
+    }
+
+    // The deposit is re-priced server-side, so use current rates
+    await fxService.refresh();
+    const record = await getBridgeSettlement().settle({ bookingId, token, chainId: Number(chainId), txHash, payer, quoted });
+
+    return NextResponse.json({
+      success: record.status === 'settled' || record.status === 'payout_pending',
+      settlement: record
+    });
+  } catch (error) {
+    console.error('Bridge settlement error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to settle bridge payment' },
+      { status: 422 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const id = params.get('id');
+  const txHash = params.get('txHash');
+  const chainId = Number(params.get('chainId'));
+
+  if (!id && !(txHash && chainId)) {
+    return NextResponse.json({ success: false, error: 'Pass id, or txHash and chainId' }, { status: 400 });
+  }
+
+  try {
+    const settlement = getBridgeSettlement();
+    const record = id ? await settlement.refresh(id) : settlement.findByTransaction(chainId, txHash!);
+
+    if (!record) {
+      return NextResponse.json({ success: false, error: 'Settlement not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, settlement: record });
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Settlement not found' },
+      { status: 404 }
+    );
+  }
+}
@@ -1,70 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { OpenAI } from 'openai';
+import { getServerConfig, notConfigured } from '@/lib/config/providers';
+import { createLLMProvider } from '@/lib/llm/config';
+import { runChatToolLoop } from '@/lib/mcp/chatTools';
+import { getServerTravelAgent } from '@/lib/mcp/connect';
+import { fxService } from '@/lib/money/fx';
+import type { ChatStreamEvent } from '@/types';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
+const SYSTEM_PROMPT = `You are an AI booking assistant for Nomado AI, a travel booking platform. You help users:
+
+1. Search for hotels and flights
+2. Plan day-by-day trip itineraries
+3. Answer questions about amenities, pricing, and locations
+4. Guide users through the booking process
+5. Provide travel recommendations and tips
+
+Use the search_hotels and search_flights tools whenever the user wants options or prices - never make up availability or prices.
+The results appear below your reply as booking cards the user can click to book, so summarise them briefly (highlights, price range) instead of repeating every field.
+Use create_itinerary when the user wants a trip plan.
+If a search needs something the user hasn't said (like where they are flying from), ask for it.
+Prices are in Indian Rupees (₹). Dates must be YYYY-MM-DD.`;
 
 export async function POST(req: NextRequest) {
   try {
     const { messages } = await req.json();
 
-    // Add system prompt for hotel booking context
+    // Provider, model, temperature and max tokens all come from the environment
+    const { llm } = getServerConfig();
+    if (!llm.settings) {
+      return NextResponse.json(notConfigured(llm.health), { status: 503 });
+    }
+
+    const provider = createLLMProvider(llm.settings);
+    const agent = getServerTravelAgent();
+    // Tool results are converted to rupees for the booking cards
+    await fxService.refresh();
+
+    // Add system prompt for booking context; today's date lets the model resolve "next weekend"
     const systemPrompt = {
       role: 'system' as const,
-      content: `You are an AI booking assistant for a hotel booking platform. You help users:
-      
-      1. Search for hotels in specific cities (we have demo data for: New York, London, Paris, Tokyo, Dubai, Mumbai, Goa)
-      2. Answer questions about hotel amenities, pricing, and locations
-      3. Guide users through the booking process
-      4. Provide travel recommendations and tips
-      5. Handle booking modifications and cancellations
-      
-      Be helpful, friendly, and focus on hotel-related queries. If users ask about flights or other services, mention that this platform specializes in hotels but can help with general travel advice.
-      
-      Available cities with hotel data: New York, London, Paris, Tokyo, Dubai, Mumbai, Goa.
-      Price range: ₹1,200 - ₹55,000 per night.
-      Hotel types: Luxury, Business, Budget, Boutique, Resort.`
+      content: `${SYSTEM_PROMPT}\nToday is ${new Date().toISOString().split('T')[0]}.`
     };
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [systemPrompt, ...messages],
-      stream: true,
-      temperature: 0.7,
-      max_tokens: 500,
-    });
-
-    // Create a readable stream for the response
+    // Stream typed events: text deltas, the tool calls the model makes, and their results
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
       async start(controller) {
+        const emit = (event: ChatStreamEvent) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        };
+
         try {
-          for await (const chunk of response) {
-            const content = chunk.choices[0]?.delta?.content || '';
-            if (content) {
-              const data = `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
-              controller.enqueue(encoder.encode(data));
-            }
-          }
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
+          await runChatToolLoop(provider, agent, [systemPrompt, ...messages], emit);
         } catch (error) {
-          controller.error(error);
+          console.error(`LLM error (${provider.name}/${provider.model}):`, error);
+          emit({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
         }
+
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
       },
     });
 
     return new Response(stream, {
       headers: {
-        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Type': 'text/event-stream; charset=utf-8',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
       },
     });
 
   } catch (error) {
-    console.error('OpenAI API error:', error);
+    console.error('Chat API error:', error);
     return NextResponse.json(
       { 
         error: 'Failed to process chat request',
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/config/env';
+import { getServerConfig, providerHealth, reloadServerConfig } from '@/lib/config/providers';
+import { googleMapsCache } from '@/lib/maps/cache';
+
+// Configuration health: which providers are usable, disabled, missing or misconfigured, plus
+// hit/miss counters for the upstream response caches
+// reload=1 re-reads the environment and secret files first, e.g. after rotating a key; only an
+// operator sending Authorization: Bearer <ADMIN_TOKEN> may trigger it
+export async function GET(request: NextRequest) {
+  const reload = request.nextUrl.searchParams.get('reload') === '1';
+  if (reload && !isAdminRequest(request.headers.get('authorization'))) {
+    return NextResponse.json(
+      { success: false, error: 'reload=1 requires Authorization: Bearer <ADMIN_TOKEN>' },
+      { status: 401 }
+    );
+  }
+
+  const config = reload ? reloadServerConfig() : getServerConfig();
+  const providers = providerHealth(config);
+
+  // Missing or disabled providers fall back to demo behaviour; only a bad value is degraded
+  const degraded = providers.some(provider => provider.state === 'invalid');
+  return NextResponse.json({
+    status: degraded ? 'degraded' : 'ok',
+    loadedAt: config.loadedAt,
+    providers,
+    caches: { googleMaps: googleMapsCache.stats() }
+  });
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleMCPMessage } from '@/lib/mcp/handler';
+import { JSONRPC_ERRORS, type JSONRPCResponse } from '@/lib/mcp/transport';
+
+// Streamable HTTP endpoint exposing Nomado's travel tools to external MCP clients.
+// The server is stateless: each POST carries one JSON-RPC message or a batch and gets a JSON reply.
+
+function isAllowedOrigin(request: NextRequest): boolean {
+  const origin = request.headers.get('origin');
+  if (!origin) return true; // Non-browser clients (desktop assistants, CLIs) send no Origin
+
+  const allowed = (process.env.MCP_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(o => o.trim())
+    .filter(Boolean);
+
+  try {
+    return new URL(origin).host === request.headers.get('host') || allowed.indexOf(origin) !== -1;
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  // Guard against DNS rebinding from arbitrary web pages
+  if (!isAllowedOrigin(request)) {
+    return NextResponse.json({ error: 'Origin not allowed' }, { status: 403 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    const parseError: JSONRPCResponse = {
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JSONRPC_ERRORS.PARSE_ERROR, message: 'Parse error' }
+    };
+    return NextResponse.json(parseError, { status: 400 });
+  }
+
+  const isBatch = Array.isArray(body);
+  const messages: unknown[] = isBatch ? (body as unknown[]) : [body];
+
+  if (messages.length === 0) {
+    const invalid: JSONRPCResponse = {
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JSONRPC_ERRORS.INVALID_REQUEST, message: 'Empty batch' }
+    };
+    return NextResponse.json(invalid, { status: 400 });
+  }
+
+  const responses = (await Promise.all(messages.map(message => handleMCPMessage(message))))
+    .filter((response): response is JSONRPCResponse => response !== null);
+
+  // Only notifications or client responses were sent
+  if (responses.length === 0) {
+    return new Response(null, { status: 202 });
+  }
+
+  return NextResponse.json(isBatch ? responses : responses[0]);
+}
+
+// No server-initiated stream and no sessions to terminate
+export async function GET() {
+  return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+}
+
+export async function DELETE() {
+  return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockBookingLedger, mockChainError, type MockBookingAction } from '@/lib/mock/ledger';
+
+// One mock booking: GET returns it with what cancelling now would refund, POST applies a lifecycle
+// action (confirm, checkIn, complete, cancel, setTicketURI) for `caller` under the contract's rules,
+// including who may take each one
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const chainId = Number(request.nextUrl.searchParams.get('chainId'));
+  const chainError = mockChainError(chainId);
+  if (chainError) {
+    return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+  }
+
+  const ledger = getMockBookingLedger();
+  const booking = ledger.getBooking(chainId, Number(id));
+  if (!booking) {
+    return NextResponse.json({ success: false, error: 'Booking not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, booking, refund: ledger.previewRefund(chainId, booking.id) });
+}
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const bookingId = Number(id);
+
+  try {
+    const { chainId, action, caller, metadataURI } = await request.json() as {
+      chainId: number;
+      action: MockBookingAction;
+      caller?: string;
+      metadataURI?: string;
+    };
+    const chainError = mockChainError(Number(chainId));
+    if (chainError) {
+      return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+    }
+    if (typeof caller !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(caller)) {
+      return NextResponse.json({ success: false, error: 'caller must be the acting wallet address' }, { status: 400 });
+    }
+
+    const ledger = getMockBookingLedger();
+    if (!ledger.getBooking(Number(chainId), bookingId)) {
+      return NextResponse.json({ success: false, error: 'Booking not found' }, { status: 404 });
+    }
+
+    switch (action) {
+      case 'confirm':
+        return NextResponse.json({ success: true, booking: ledger.confirm(Number(chainId), bookingId, caller) });
+      case 'checkIn':
+        return NextResponse.json({ success: true, booking: ledger.checkIn(Number(chainId), bookingId, caller) });
+      case 'complete':
+        return NextResponse.json({ success: true, booking: ledger.complete(Number(chainId), bookingId, caller) });
+      case 'cancel':
+        return NextResponse.json({ success: true, booking: ledger.cancel(Number(chainId), bookingId, caller) });
+      case 'setTicketURI':
+        if (typeof metadataURI !== 'string') {
+          return NextResponse.json({ success: false, error: 'metadataURI is required' }, { status: 400 });
+        }
+        return NextResponse.json({ success: true, booking: ledger.setTicketURI(Number(chainId), bookingId, caller, metadataURI) });
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 });
+    }
+  } catch (error) {
+    // The ledger throws the contract's revert reasons for transitions it doesn't allow
+    console.error('Mock booking action error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Booking update failed' },
+      { status: 422 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockBookingLedger, mockChainError } from '@/lib/mock/ledger';
+
+// Mock-mode bookings kept server-side so they survive a reload: GET lists them by customer or
+// vendor, POST creates one, DELETE wipes a chain's demo data
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const chainId = Number(params.get('chainId'));
+  const chainError = mockChainError(chainId);
+  if (chainError) {
+    return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+  }
+
+  const bookings = getMockBookingLedger().listBookings(chainId, {
+    customer: params.get('customer') || undefined,
+    vendor: params.get('vendor') || undefined
+  });
+  return NextResponse.json({ success: true, bookings });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { chainId, ...booking } = await request.json();
+    const chainError = mockChainError(Number(chainId));
+    if (chainError) {
+      return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+    }
+    if (typeof booking.customer !== 'string' || typeof booking.amount !== 'string') {
+      return NextResponse.json({ success: false, error: 'customer and amount (base units) are required' }, { status: 400 });
+    }
+
+    const created = getMockBookingLedger().createBooking(Number(chainId), {
+      customer: booking.customer,
+      vendor: booking.vendor || '0x0000000000000000000000000000000000000000',
+      bookingType: String(booking.bookingType || ''),
+      details: String(booking.details || ''),
+      amount: booking.amount,
+      token: String(booking.token || ''),
+      checkInDate: Number(booking.checkInDate),
+      checkOutDate: Number(booking.checkOutDate),
+      metadataURI: String(booking.metadataURI || '')
+    });
+    return NextResponse.json({ success: true, booking: created });
+  } catch (error) {
+    console.error('Mock booking error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to create booking' },
+      { status: 422 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const chainId = Number(request.nextUrl.searchParams.get('chainId'));
+  const chainError = mockChainError(chainId);
+  if (chainError) {
+    return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+  }
+
+  getMockBookingLedger().clear(chainId);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMockBookingLedger, mockChainError } from '@/lib/mock/ledger';
+
+// Mock-mode vendor registry: GET returns a vendor with their balances, POST registers one or
+// withdraws a token balance
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const chainId = Number(params.get('chainId'));
+  const address = params.get('address');
+  const chainError = mockChainError(chainId);
+  if (chainError) {
+    return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+  }
+  if (!address) {
+    return NextResponse.json({ success: false, error: 'address is required' }, { status: 400 });
+  }
+
+  const ledger = getMockBookingLedger();
+  return NextResponse.json({
+    success: true,
+    vendor: ledger.getVendor(chainId, address),
+    balances: ledger.getVendorBalances(chainId, address)
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { chainId, action, address, name, payoutAddress, token } = await request.json();
+    const chainError = mockChainError(Number(chainId));
+    if (chainError) {
+      return NextResponse.json({ success: false, error: chainError }, { status: 400 });
+    }
+    if (typeof address !== 'string' || !address) {
+      return NextResponse.json({ success: false, error: 'address is required' }, { status: 400 });
+    }
+
+    const ledger = getMockBookingLedger();
+    if (action === 'register') {
+      const vendor = ledger.registerVendor(Number(chainId), {
+        address,
+        name: String(name || ''),
+        payoutAddress: String(payoutAddress || address),
+        active: true
+      });
+      return NextResponse.json({ success: true, vendor });
+    }
+    if (action === 'withdraw') {
+      if (typeof token !== 'string' || !token) {
+        return NextResponse.json({ success: false, error: 'token is required' }, { status: 400 });
+      }
+      return NextResponse.json({ success: true, amount: ledger.withdraw(Number(chainId), address, token) });
+    }
+    return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 });
+  } catch (error) {
+    console.error('Mock vendor error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Vendor update failed' },
+      { status: 422 }
+    );
+  }
+}
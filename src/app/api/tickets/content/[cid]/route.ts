@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ticketService } from '@/lib/tickets/tickets';
+
+// Gateway for the local content store: serves pinned metadata as plain JSON, as an IPFS gateway would
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ cid: string }> }) {
+  const { cid } = await params;
+  const metadata = await ticketService.getMetadata(cid);
+  if (!metadata) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+  return NextResponse.json(metadata, { headers: { 'Cache-Control': 'public, max-age=31536000, immutable' } });
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ticketService } from '@/lib/tickets/tickets';
+
+// Booking tickets: POST pins the metadata for a newly created booking, GET reads it back by URI or CID
+
+export async function POST(request: NextRequest) {
+  try {
+    const { chainId, tokenId, holder, booking, checkInDate, checkOutDate, payment } = await request.json();
+
+    if (!chainId || !tokenId || typeof holder !== 'string' || !booking || !payment) {
+      return NextResponse.json(
+        { success: false, error: 'chainId, tokenId, holder, booking and payment are required' },
+        { status: 400 }
+      );
+    }
+
+    const ticket = await ticketService.issue({
+      chainId: Number(chainId),
+      tokenId: Number(tokenId),
+      holder,
+      booking,
+      checkInDate: Number(checkInDate),
+      checkOutDate: Number(checkOutDate),
+      payment
+    });
+    return NextResponse.json({ success: true, ticket });
+  } catch (error) {
+    console.error('Ticket issue error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to issue ticket' },
+      { status: 422 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const uri = request.nextUrl.searchParams.get('uri');
+  if (!uri) {
+    return NextResponse.json({ success: false, error: 'Pass uri (ipfs://<cid> or a CID)' }, { status: 400 });
+  }
+
+  const metadata = await ticketService.getMetadata(uri);
+  if (!metadata) {
+    return NextResponse.json({ success: false, error: 'Ticket metadata not found' }, { status: 404 });
+  }
+  return NextResponse.json({ success: true, metadata });
+}
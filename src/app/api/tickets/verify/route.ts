@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ticketService } from '@/lib/tickets/tickets';
+
+// Scanned at the front desk: checks the ticket's owner, booking status and check-in window on-chain
+export async function POST(request: NextRequest) {
+  try {
+    const { qr } = await request.json();
+
+    if (typeof qr !== 'string' || !qr) {
+      return NextResponse.json({ success: false, error: 'qr is required' }, { status: 400 });
+    }
+
+    const verification = await ticketService.verify(qr);
+    return NextResponse.json({ success: true, verification });
+  } catch (error) {
+    console.error('Ticket verification error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to verify ticket' },
+      { status: 502 }
+    );
+  }
+}
@@ -76,11 +76,11 @@ export default function HotelSearchDemo() {
               </div>
               <div>
                 <h3 className="font-semibold text-lg mb-2">2. Search by City</h3>
-                <p>Enter one of our demo cities: <strong>New York, London, Paris, Tokyo, Dubai, Mumbai, or Goa</strong></p>
+                <p>Enter one of our demo cities: <strong>New York, London, Paris, Tokyo, Dubai, Mumbai, or Goa</strong>. Hotel names and amenities work too, typos and old names like &quot;Bombay&quot; included; the chips under the results filter by hotel type and amenity.</p>
               </div>
               <div>
                 <h3 className="font-semibold text-lg mb-2">3. Search Near Me</h3>
-                <p>Click the &quot;Near Me&quot; button to find hotels based on your location (simulated with demo data).</p>
+                <p>Click the &quot;Near Me&quot; button to find demo hotels within 25 km of your location, nearest first, with the distance on each result.</p>
               </div>
               <div>
                 <h3 className="font-semibold text-lg mb-2">4. View Results</h3>
@@ -22,6 +22,7 @@ export default function BookingAgent() {
   const [isLoading, setIsLoading] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<BookingOption | null>(null);
   const [showPayment, setShowPayment] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -47,7 +48,7 @@ export default function BookingAgent() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ query: userMessage }),
+        body: JSON.stringify({ query: userMessage, sessionId }),
       });
 
       if (!response.ok) {
@@ -56,6 +57,11 @@ export default function BookingAgent() {
 
       const data = await response.json();
       
+      // Keep the conversation going so follow-ups refine the same trip
+      if (data.sessionId) {
+        setSessionId(data.sessionId);
+      }
+      
       console.log('🎯 MCP Response:', data);
       
       return {
@@ -1,5 +1,7 @@
 'use client';
 
+import { formatMoney } from '@/lib/money/money';
+import { bookingPrice } from '@/lib/money/pricing';
 import type { BookingOption } from '@/types';
 import { Calendar, CreditCard, Hotel, MapPin, Plane, Star } from 'lucide-react';
 
@@ -25,13 +27,7 @@ export default function BookingCard({ option, onBookNow, viewMode = 'grid' }: Bo
     }
   };
 
-  const formatPrice = () => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: option.currency === 'INR' ? 'INR' : 'USD',
-      minimumFractionDigits: 0,
-    }).format(option.price);
-  };
+  const formatPrice = () => formatMoney(bookingPrice(option));
 
   const renderDetails = () => {
     switch (option.type) {
@@ -57,6 +53,9 @@ export default function BookingCard({ option, onBookNow, viewMode = 'grid' }: Bo
               <MapPin className="h-4 w-4" />
               <span>{option.details.location}</span>
             </div>
+            {option.details.distanceKm !== undefined && (
+              <div className="text-blue-600 font-medium">{option.details.distanceKm} km away</div>
+            )}
             {option.details.rating && (
               <div className="flex items-center space-x-1">
                 <Star className="h-4 w-4 text-yellow-500 fill-current" />
@@ -101,7 +100,7 @@ export default function BookingCard({ option, onBookNow, viewMode = 'grid' }: Bo
         </div>
         <div className="text-right">
           <div className="text-lg font-bold text-gray-900">{formatPrice()}</div>
-          <div className="text-sm text-gray-500">per person</div>
+          <div className="text-sm text-gray-500">total</div>
         </div>
       </div>
 
@@ -1,7 +1,10 @@
 'use client';
 
+import { formatMoney } from '@/lib/money/money';
+import { priceBooking } from '@/lib/money/pricing';
 import type { BookingConfirmation } from '@/types';
-import { CheckCircle, Download, Mail, Phone, Printer, Share2, Star } from 'lucide-react';
+import { CheckCircle, Download, ExternalLink, Mail, Phone, Printer, Share2, Star, Ticket } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
 import { useState } from 'react';
 
 interface BookingConfirmationProps {
@@ -13,13 +16,8 @@ interface BookingConfirmationProps {
 export default function BookingConfirmation({ confirmation, onNewSearch, onViewBookings }: BookingConfirmationProps) {
   const [showShareModal, setShowShareModal] = useState(false);
 
-  const formatPrice = () => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: confirmation.details.currency === 'INR' ? 'INR' : 'USD',
-      minimumFractionDigits: 0,
-    }).format(confirmation.details.price);
-  };
+  // Taxes and fees included, as charged at payment
+  const formatPrice = () => formatMoney(priceBooking(confirmation.details).total);
 
   const downloadReceipt = () => {
     // Mock download functionality
@@ -196,6 +194,51 @@ export default function BookingConfirmation({ confirmation, onNewSearch, onViewB
         {renderBookingDetails()}
       </div>
 
+      {/* Ticket */}
+      {confirmation.ticket && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Ticket className="h-5 w-5 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Your Ticket</h2>
+          </div>
+          <div className="flex flex-col md:flex-row md:items-start gap-6">
+            <div className="p-3 bg-white border border-gray-200 rounded-lg self-center">
+              <QRCodeSVG value={confirmation.ticket.metadata.qr} size={160} level="M" />
+            </div>
+            <div className="flex-1 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Ticket:</span>
+                <span className="font-medium">#{confirmation.ticket.metadata.ticket.tokenId}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Check-in opens:</span>
+                <span>{new Date(confirmation.ticket.metadata.checkInWindow.opensAt).toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Valid until:</span>
+                <span>{new Date(confirmation.ticket.metadata.checkInWindow.checkOut).toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Metadata:</span>
+                <a
+                  href={confirmation.ticket.gatewayUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center space-x-1 text-blue-600 hover:underline font-mono text-xs"
+                >
+                  <span>{confirmation.ticket.cid.slice(0, 16)}...</span>
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </div>
+              <p className="text-gray-600 pt-2">
+                The ticket is minted to your wallet as an NFT once the booking is confirmed.
+                Show this code at check-in; it is checked against your wallet on-chain.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Payment Information */}
       <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">Payment Information</h2>
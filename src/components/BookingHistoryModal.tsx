@@ -1,5 +1,7 @@
 'use client';
 
+import type { RefundTier } from '@/contracts/config';
+import type { RefundPreview } from '@/services/contractService';
 import { useEffect, useState } from 'react';
 import { useWeb3, getChainInfo } from './Web3Provider';
 import { Calendar, CheckCircle, Clock, CreditCard, ExternalLink, MapPin, X, XCircle } from 'lucide-react';
@@ -25,11 +27,22 @@ interface UserBooking {
   metadataURI: string;
 }
 
+// "7 days" or "36 hours"
+function formatNotice(hours: number): string {
+  return hours >= 48 && hours % 24 === 0 ? `${hours / 24} days` : `${hours} hours`;
+}
+
+function describeTier(tier: RefundTier): string {
+  const share = tier.refundBps === 10000 ? 'Full refund' : `${tier.refundBps / 100}% refund`;
+  return `${share} ${formatNotice(tier.minHoursBefore)}+ before check-in`;
+}
+
 export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryModalProps) {
   const [bookings, setBookings] = useState<UserBooking[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<UserBooking | null>(null);
-  const { isConnected, address, chainId, getUserBookings, cancelBooking, checkInToBooking } = useWeb3();
+  const [refundPreview, setRefundPreview] = useState<{ bookingId: number; preview: RefundPreview } | null>(null);
+  const { isConnected, address, chainId, getUserBookings, cancelBooking, previewRefund, checkInToBooking } = useWeb3();
 
   useEffect(() => {
     if (isOpen && isConnected) {
@@ -49,9 +62,20 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
     }
   };
 
+  // Cancelling is a two-step action: show what the policy refunds, then confirm
+  const handleRequestCancel = async (bookingId: number) => {
+    try {
+      setRefundPreview({ bookingId, preview: await previewRefund(bookingId) });
+    } catch (error) {
+      console.error('Failed to preview refund:', error);
+      alert('Could not work out the refund for this booking. Please try again.');
+    }
+  };
+
   const handleCancelBooking = async (bookingId: number) => {
     try {
       setIsLoading(true);
+      setRefundPreview(null);
       await cancelBooking(bookingId);
       // Reload bookings to show updated status
       await loadBookings();
@@ -86,6 +110,7 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
       case 'Pending':
         return <Clock className="h-5 w-5 text-yellow-500" />;
       case 'Cancelled':
+      case 'Refunded':
         return <XCircle className="h-5 w-5 text-red-500" />;
       case 'CheckedIn':
         return <CheckCircle className="h-5 w-5 text-blue-500" />;
@@ -103,6 +128,7 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
       case 'Pending':
         return 'bg-yellow-100 text-yellow-800';
       case 'Cancelled':
+      case 'Refunded':
         return 'bg-red-100 text-red-800';
       case 'CheckedIn':
         return 'bg-blue-100 text-blue-800';
@@ -119,8 +145,10 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
 
   const canCheckIn = (booking: UserBooking) => {
     const now = new Date();
+    // The contract opens check-in a day before the check-in date
+    const opensAt = new Date(booking.checkInDate.getTime() - 24 * 60 * 60 * 1000);
     return booking.status === 'Confirmed' && 
-           now >= booking.checkInDate && 
+           now >= opensAt && 
            now <= booking.checkOutDate;
   };
 
@@ -178,7 +206,7 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                           <div>
                             <p className="text-gray-500">Amount</p>
-                            <p className="font-medium">{booking.amount} {chainInfo?.symbol || 'ETH'}</p>
+                            <p className="font-medium">{booking.amount} {booking.token}</p>
                           </div>
                           <div>
                             <p className="text-gray-500">Booking ID</p>
@@ -222,7 +250,7 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
                         
                         {canCancelBooking(booking) && (
                           <button
-                            onClick={() => handleCancelBooking(booking.id)}
+                            onClick={() => handleRequestCancel(booking.id)}
                             disabled={isLoading}
                             className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm"
                           >
@@ -235,6 +263,41 @@ export default function BookingHistoryModal({ isOpen, onClose }: BookingHistoryM
                         Created: {booking.createdAt.toLocaleDateString()}
                       </div>
                     </div>
+
+                    {/* Refund Preview */}
+                    {refundPreview?.bookingId === booking.id && (
+                      <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg text-sm">
+                        <p className="font-medium text-red-900">
+                          Cancelling now refunds {refundPreview.preview.refundAmount} {refundPreview.preview.token}
+                          {' '}({refundPreview.preview.refundBps / 100}% of {booking.amount} {booking.token})
+                        </p>
+                        {booking.status === 'Pending' ? (
+                          <p className="text-red-800 mt-1">Not yet confirmed by the supplier, so the refund is in full.</p>
+                        ) : (
+                          <ul className="text-red-800 mt-1 list-disc list-inside">
+                            {refundPreview.preview.policy.map(tier => (
+                              <li key={tier.minHoursBefore}>{describeTier(tier)}</li>
+                            ))}
+                            <li>No refund with less notice</li>
+                          </ul>
+                        )}
+                        <div className="flex space-x-2 mt-3">
+                          <button
+                            onClick={() => handleCancelBooking(booking.id)}
+                            disabled={isLoading}
+                            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm"
+                          >
+                            Confirm Cancellation
+                          </button>
+                          <button
+                            onClick={() => setRefundPreview(null)}
+                            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-white text-sm"
+                          >
+                            Keep Booking
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
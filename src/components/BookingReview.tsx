@@ -1,9 +1,26 @@
 'use client';
 
-import type { BookingOption } from '@/types';
+import { formatMoney, money } from '@/lib/money/money';
+import { priceBooking } from '@/lib/money/pricing';
+import type { BookingOption, FlightItinerary, FlightTripType, PassengerType } from '@/types';
 import { AlertCircle, ArrowLeft, Calendar, CheckCircle, Clock, MapPin, Shield, Star, Users } from 'lucide-react';
 import { useState } from 'react';
 
+const TRIP_TYPE_LABELS: Record<FlightTripType, string> = {
+  one_way: 'One way',
+  round_trip: 'Round trip',
+  open_jaw: 'Open jaw',
+  multi_city: 'Multi-city'
+};
+
+const PASSENGER_LABELS: Record<PassengerType, string> = {
+  adult: 'Adult',
+  child: 'Child',
+  infant: 'Infant'
+};
+
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+
 interface BookingReviewProps {
   booking: BookingOption;
   onBack: () => void;
@@ -23,20 +40,10 @@ export default function BookingReview({ booking, onBack, onProceedToPayment, onM
   const [agreedToTerms, setAgreedToTerms] = useState(false);
   const [newsletter, setNewsletter] = useState(false);
 
-  const formatPrice = () => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: booking.currency === 'INR' ? 'INR' : 'USD',
-      minimumFractionDigits: 0,
-    }).format(booking.price);
-  };
+  const formatAmount = (amount: number) => formatMoney(money(amount, booking.currency));
 
-  const calculateTotal = () => {
-    const basePrice = booking.price;
-    const taxes = basePrice * 0.18; // 18% GST
-    const serviceFee = 99;
-    return basePrice + taxes + serviceFee;
-  };
+  // Base price, 18% GST and service fee; the payment step charges the same total
+  const calculateTotal = () => priceBooking(booking);
 
   const isFormValid = () => {
     return guestDetails.firstName && 
@@ -46,9 +53,60 @@ export default function BookingReview({ booking, onBack, onProceedToPayment, onM
            agreedToTerms;
   };
 
+  // Segment-by-segment view for itineraries from the flight search model
+  const renderFlightItinerary = (itinerary: FlightItinerary) => (
+    <div className="space-y-4">
+      <div className="flex justify-between">
+        <span className="text-gray-600">Trip:</span>
+        <span className="font-medium">{TRIP_TYPE_LABELS[itinerary.tripType]} · <span className="capitalize">{itinerary.cabinClass}</span></span>
+      </div>
+
+      {itinerary.legs.map((leg, legIndex) => (
+        <div key={legIndex} className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium text-gray-900">
+              {itinerary.legs.length > 1 && `Leg ${legIndex + 1}: `}{leg.origin} → {leg.destination}
+            </span>
+            <span className="text-gray-600">
+              {leg.date} · {formatMinutes(leg.durationMinutes)} · {leg.layovers.length === 0 ? 'Non-stop' : `${leg.layovers.length} stop${leg.layovers.length > 1 ? 's' : ''}`}
+            </span>
+          </div>
+          {leg.segments.map((segment, segmentIndex) => (
+            <div key={segment.flightNumber + segmentIndex}>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-700">
+                  {segment.departureTime.slice(11)} {segment.from} → {segment.arrivalTime.slice(11)} {segment.to}
+                </span>
+                <span className="text-gray-500">{segment.airline} {segment.flightNumber} · {segment.aircraft}</span>
+              </div>
+              {leg.layovers[segmentIndex] && (
+                <div className="flex items-center space-x-1 text-xs text-amber-600 mt-1">
+                  <Clock className="h-3 w-3" />
+                  <span>{formatMinutes(leg.layovers[segmentIndex].durationMinutes)} layover in {leg.layovers[segmentIndex].airport}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        {itinerary.fares.map(fare => (
+          <div key={fare.type} className="flex justify-between text-sm">
+            <span className="text-gray-600">{PASSENGER_LABELS[fare.type]} × {fare.count}</span>
+            <span className="font-medium">{formatAmount(fare.subtotal)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
   const renderBookingDetails = () => {
     switch (booking.type) {
       case 'flight':
+        if (booking.details.legs) {
+          return renderFlightItinerary(booking.details as FlightItinerary);
+        }
         return (
           <div className="space-y-3">
             <div className="flex justify-between">
@@ -281,21 +339,21 @@ export default function BookingReview({ booking, onBack, onProceedToPayment, onM
             <div className="space-y-3 mb-4">
               <div className="flex justify-between">
                 <span className="text-gray-600">Base Price</span>
-                <span className="font-medium">{formatPrice()}</span>
+                <span className="font-medium">{formatMoney(calculateTotal().base)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Taxes & Fees</span>
-                <span className="font-medium">₹{Math.round(booking.price * 0.18).toLocaleString()}</span>
+                <span className="font-medium">{formatMoney(calculateTotal().taxes)}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-600">Service Fee</span>
-                <span className="font-medium">₹99</span>
+                <span className="font-medium">{formatMoney(calculateTotal().serviceFee)}</span>
               </div>
               <div className="border-t border-gray-200 pt-3">
                 <div className="flex justify-between">
                   <span className="text-lg font-semibold text-gray-900">Total</span>
                   <span className="text-lg font-semibold text-gray-900">
-                    ₹{Math.round(calculateTotal()).toLocaleString()}
+                    {formatMoney(calculateTotal().total)}
                   </span>
                 </div>
               </div>
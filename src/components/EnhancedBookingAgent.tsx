@@ -1,6 +1,9 @@
 'use client';
 
-import type { BookingConfirmation as BookingConfirmationType, BookingFlow, BookingOption, Message, SearchResult } from '@/types';
+import { formatMoney } from '@/lib/money/money';
+import { bookingPrice } from '@/lib/money/pricing';
+import type { IssuedTicket } from '@/lib/tickets/tickets';
+import type { BookingConfirmation as BookingConfirmationType, BookingFlow, BookingOption, ChatStreamEvent, Message, SearchResult } from '@/types';
 import { ArrowLeft, Bot, Sparkles } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
 
@@ -11,13 +14,23 @@ import ChatMessage from './ChatMessage';
 import PaymentModal from './PaymentModal';
 import SearchInterface from './SearchInterface';
 import SearchResults from './SearchResults';
+import { useWeb3 } from './Web3Provider';
+
+// Shown while the chat assistant waits on a tool call
+const TOOL_STATUS: Record<string, string> = {
+  search_hotels: 'Searching hotels...',
+  search_flights: 'Searching flights...',
+  create_itinerary: 'Planning your itinerary...'
+};
 
 export default function EnhancedBookingAgent() {
+  const { address } = useWeb3();
   const [bookingFlow, setBookingFlow] = useState<BookingFlow>({ step: 'search' });
   const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showPayment, setShowPayment] = useState(false);
   const [confirmation, setConfirmation] = useState<BookingConfirmationType | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
 
   // Chat-like fallback for complex queries
   const [messages, setMessages] = useState<Message[]>([
@@ -30,6 +43,7 @@ export default function EnhancedBookingAgent() {
   ]);
   const [chatVisible, setChatVisible] = useState(false);
   const [inputValue, setInputValue] = useState('');
+  const [activeTool, setActiveTool] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -40,6 +54,11 @@ export default function EnhancedBookingAgent() {
     scrollToBottom();
   }, [messages]);
 
+  // Connected wallets get their own rate limit bucket on top of the per-IP one
+  const apiHeaders = (): Record<string, string> => (
+    address ? { 'Content-Type': 'application/json', 'X-Wallet-Address': address } : { 'Content-Type': 'application/json' }
+  );
+
   // Search functionality
   const handleSearch = async (query: string, filters?: any) => {
     setIsLoading(true);
@@ -48,13 +67,16 @@ export default function EnhancedBookingAgent() {
     try {
       const response = await fetch('/api/booking', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query, filters }),
+        headers: apiHeaders(),
+        body: JSON.stringify({ query, filters, sessionId }),
       });
 
       if (!response.ok) throw new Error('Search failed');
 
       const data = await response.json();
+      if (data.sessionId) {
+        setSessionId(data.sessionId);
+      }
       const result: SearchResult = {
         id: Date.now().toString(),
         query,
@@ -102,7 +124,7 @@ export default function EnhancedBookingAgent() {
     setShowPayment(true);
   };
 
-  const handlePaymentComplete = (transactionId: string) => {
+  const handlePaymentComplete = (transactionId: string, ticket?: IssuedTicket) => {
     setShowPayment(false);
     
     if (bookingFlow.selectedOption) {
@@ -116,6 +138,7 @@ export default function EnhancedBookingAgent() {
           transactionId,
           method: 'crypto'
         },
+        ticket,
         createdAt: new Date()
       };
 
@@ -133,6 +156,7 @@ export default function EnhancedBookingAgent() {
     setBookingFlow({ step: 'search' });
     setSearchResult(null);
     setConfirmation(null);
+    setSessionId(null); // Start the next trip from a clean slate
   };
 
   // Chat functionality for complex queries
@@ -162,7 +186,7 @@ export default function EnhancedBookingAgent() {
 
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: apiHeaders(),
         body: JSON.stringify({ messages: openAIMessages }),
       });
 
@@ -170,10 +194,12 @@ export default function EnhancedBookingAgent() {
         throw new Error('Failed to get AI response');
       }
 
-      // Handle streaming response
+      // Handle streaming response: text deltas plus the tool calls the assistant makes
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let aiResponseContent = '';
+      let bookingOptions: BookingOption[] = [];
+      let buffer = '';
 
       const botMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -184,34 +210,63 @@ export default function EnhancedBookingAgent() {
 
       setMessages(prev => [...prev, botMessage]);
 
+      const updateBotMessage = (update: Partial<Message>) => {
+        setMessages(prev => prev.map(msg =>
+          msg.id === botMessage.id
+            ? { ...msg, ...update }
+            : msg
+        ));
+      };
+
+      const handleEvent = (event: ChatStreamEvent) => {
+        switch (event.type) {
+          case 'text_delta':
+            aiResponseContent += event.content;
+            // Update the bot message content in real-time
+            updateBotMessage({ content: aiResponseContent });
+            break;
+
+          case 'tool_call':
+            setActiveTool(event.name);
+            break;
+
+          case 'tool_result':
+            setActiveTool(null);
+            if (event.bookings && event.bookings.length > 0) {
+              // Render the results inline as booking cards under this message
+              bookingOptions = [...bookingOptions, ...event.bookings];
+              updateBotMessage({ bookingOptions, mcpProcessed: true });
+            }
+            break;
+
+          case 'error':
+            throw new Error(event.message);
+        }
+      };
+
       if (reader) {
         while (true) {
           const { done, value } = await reader.read();
           if (done) break;
 
-          const chunk = decoder.decode(value);
-          const lines = chunk.split('\n');
+          // Events can be split across chunks; keep the trailing partial line for the next read
+          buffer += decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
 
           for (const line of lines) {
             if (line.startsWith('data: ')) {
               const data = line.slice(6);
               if (data === '[DONE]') continue;
-              
+
+              let event: ChatStreamEvent;
               try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content || '';
-                if (content) {
-                  aiResponseContent += content;
-                  // Update the bot message content in real-time
-                  setMessages(prev => prev.map(msg => 
-                    msg.id === botMessage.id 
-                      ? { ...msg, content: aiResponseContent }
-                      : msg
-                  ));
-                }
+                event = JSON.parse(data);
               } catch (e) {
                 // Skip invalid JSON lines
+                continue;
               }
+              handleEvent(event);
             }
           }
         }
@@ -227,6 +282,7 @@ export default function EnhancedBookingAgent() {
       setMessages(prev => [...prev, errorMessage]);
     } finally {
       setIsLoading(false);
+      setActiveTool(null);
     }
   };
 
@@ -377,7 +433,7 @@ export default function EnhancedBookingAgent() {
                         <h4 className="font-medium text-sm">{option.title}</h4>
                         <p className="text-xs text-gray-600">{option.description}</p>
                         <p className="text-sm font-semibold text-green-600 mt-1">
-                          ₹{option.price.toLocaleString()}
+                          {formatMoney(bookingPrice(option))}
                         </p>
                       </div>
                     ))}
@@ -388,7 +444,7 @@ export default function EnhancedBookingAgent() {
             {isLoading && (
               <div className="flex items-center space-x-2 text-gray-500">
                 <Bot className="h-4 w-4 animate-pulse" />
-                <span className="text-sm">Thinking...</span>
+                <span className="text-sm">{(activeTool && TOOL_STATUS[activeTool]) || 'Thinking...'}</span>
               </div>
             )}
             <div ref={messagesEndRef} />
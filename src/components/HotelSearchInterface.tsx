@@ -1,6 +1,7 @@
 'use client';
 
 import { useHotelSearch } from '@/hooks/useHotelSearch';
+import type { HotelSearchFilters, HotelType } from '@/utils/hotelSearch';
 import { AlertCircle, Calendar, CheckCircle, MapPin, Navigation, Search, Users } from 'lucide-react';
 import React, { useState } from 'react';
 
@@ -25,7 +26,8 @@ export function HotelSearchInterface({ onSearch, onHotelsFound }: HotelSearchInt
   });
 
   const [apiStatus, setApiStatus] = useState<'idle' | 'testing' | 'valid' | 'invalid'>('idle');
-  const { hotels, isLoading, error, searchNearMe, searchByLocation, testAPI } = useHotelSearch();
+  const [filters, setFilters] = useState<HotelSearchFilters>({});
+  const { hotels, isLoading, error, searchNearMe, searchByLocation, facets, testAPI } = useHotelSearch();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,10 +39,29 @@ export function HotelSearchInterface({ onSearch, onHotelsFound }: HotelSearchInt
     // First trigger the traditional search callback
     onSearch(searchData);
     
-    // Then search for real hotels using Google Maps
+    // Then run the ranked hotel search; a new search starts without filters
+    setFilters({});
     await searchByLocation(searchData.destination);
   };
 
+  // Facet chips re-run the last search with the filter toggled
+  const applyFilters = async (next: HotelSearchFilters) => {
+    setFilters(next);
+    await searchByLocation(searchData.destination, next);
+  };
+
+  const toggleHotelType = (hotelType: HotelType) => {
+    applyFilters({ ...filters, hotelType: filters.hotelType === hotelType ? undefined : hotelType });
+  };
+
+  const toggleAmenity = (amenity: string) => {
+    const amenities = filters.amenities || [];
+    applyFilters({
+      ...filters,
+      amenities: amenities.indexOf(amenity) === -1 ? amenities.concat(amenity) : amenities.filter(a => a !== amenity)
+    });
+  };
+
   const handleNearMeSearch = async () => {
     try {
       await searchNearMe();
@@ -59,12 +80,12 @@ export function HotelSearchInterface({ onSearch, onHotelsFound }: HotelSearchInt
     }
   };
 
-  // Update parent component when hotels are found
+  // Update parent component when hotels are found, or when filters leave none
   React.useEffect(() => {
-    if (hotels.length > 0) {
+    if (hotels.length > 0 || facets) {
       onHotelsFound(hotels);
     }
-  }, [hotels, onHotelsFound]);
+  }, [hotels, facets, onHotelsFound]);
 
   return (
     <div className="max-w-4xl mx-auto p-6">
@@ -216,10 +237,52 @@ export function HotelSearchInterface({ onSearch, onHotelsFound }: HotelSearchInt
               <span className="font-medium">Found {hotels.length} hotels</span>
             </div>
             <p className="text-green-700 dark:text-green-300 mt-1">
-              Real-time results from Google Maps. Scroll down to see the options.
+              {facets ? 'Ranked by relevance to your search.' : 'Nearest first.'} Scroll down to see the options.
             </p>
           </div>
         )}
+
+        {/* Facets */}
+        {facets && (
+          <div className="mt-4 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(facets.hotelType) as HotelType[]).map((hotelType) => (
+                <button
+                  key={hotelType}
+                  type="button"
+                  disabled={isLoading}
+                  onClick={() => toggleHotelType(hotelType)}
+                  className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+                    filters.hotelType === hotelType
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                  }`}
+                >
+                  {hotelType} ({facets.hotelType[hotelType]})
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(facets.amenities)
+                .sort((a, b) => b[1] - a[1])
+                .map(([amenity, count]) => (
+                  <button
+                    key={amenity}
+                    type="button"
+                    disabled={isLoading}
+                    onClick={() => toggleAmenity(amenity)}
+                    className={`px-3 py-1 rounded-full text-xs transition-colors ${
+                      (filters.amenities || []).indexOf(amenity) !== -1
+                        ? 'bg-green-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+                    }`}
+                  >
+                    {amenity} ({count})
+                  </button>
+                ))}
+            </div>
+          </div>
+        )}
       </form>
 
       {/* Quick Search Suggestions */}
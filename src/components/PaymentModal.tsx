@@ -1,14 +1,24 @@
 'use client';
 
+import { formatMoney } from '@/lib/money/money';
+import { priceBooking } from '@/lib/money/pricing';
+import type { ReconciliationRecord } from '@/lib/bridge/settlement';
+import type { IssuedTicket } from '@/lib/tickets/tickets';
+import type { BookingTxStep, TokenBalance } from '@/services/contractService';
+import { quoteService, type PaymentQuote, type PaymentToken } from '@/services/quoteService';
 import type { BookingOption } from '@/types';
 import { AlertCircle, CheckCircle, CreditCard, Shield, Wallet, X } from 'lucide-react';
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useWeb3, getChainInfo } from './Web3Provider';
 
+// Bridge payments add a fiat payout to the supplier after the on-chain transfer;
+// on-chain bookings add their ticket once the booking id is known
+type PaymentStage = BookingTxStep | 'settling' | 'ticketing';
+
 interface PaymentModalProps {
   booking: BookingOption;
   onClose: () => void;
-  onPaymentComplete: (transactionId: string) => void;
+  onPaymentComplete: (transactionId: string, ticket?: IssuedTicket) => void;
 }
 
 export default function PaymentModal({ booking, onClose, onPaymentComplete }: PaymentModalProps) {
@@ -16,15 +26,73 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentStep, setPaymentStep] = useState<'select' | 'processing' | 'success' | 'error'>('select');
   const [errorMessage, setErrorMessage] = useState<string>('');
-  const { isConnected, address, chainId, connect, createBooking } = useWeb3();
-
-  const formatPrice = () => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: booking.currency === 'INR' ? 'INR' : 'USD',
-      minimumFractionDigits: 0,
-    }).format(booking.price);
-  };
+  const { isConnected, address, chainId, connect, createBooking, getTokenBalances, depositToBridge, setTicketURI } = useWeb3();
+  const [quote, setQuote] = useState<PaymentQuote | null>(null);
+  const [quoteError, setQuoteError] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [selectedToken, setSelectedToken] = useState<PaymentToken | null>(null);
+  const [balances, setBalances] = useState<TokenBalance[]>([]);
+  const [progress, setProgress] = useState<{ step: PaymentStage; txHash?: string } | null>(null);
+  const [settlement, setSettlement] = useState<ReconciliationRecord | null>(null);
+
+  // The review screen's total, taxes and fees included
+  const total = useMemo(() => priceBooking(booking).total, [booking]);
+  const formatPrice = () => formatMoney(total);
+
+  // Ethereum until a wallet is connected; the native token unless a stablecoin is picked
+  const quoteChainId = chainId || 1;
+  const chainTokens = useMemo(() => quoteService.tokensForChain(quoteChainId), [quoteChainId]);
+  const payToken = selectedToken && chainTokens.indexOf(selectedToken) !== -1 ? selectedToken : chainTokens[0];
+
+  const refreshQuote = useCallback(async () => {
+    try {
+      const token = payToken;
+      setQuote(await quoteService.getQuote(total, token, quoteChainId));
+      setQuoteError('');
+    } catch (error) {
+      console.error('Failed to get payment quote:', error);
+      setQuote(null);
+      setQuoteError(error instanceof Error ? error.message : 'Could not price this booking');
+    }
+  }, [payToken, quoteChainId, total]);
+
+  useEffect(() => {
+    refreshQuote();
+  }, [refreshQuote]);
+
+  const loadBalances = useCallback(async () => {
+    if (!isConnected) {
+      setBalances([]);
+      return;
+    }
+    try {
+      setBalances(await getTokenBalances());
+    } catch (error) {
+      console.error('Failed to load token balances:', error);
+      setBalances([]);
+    }
+  }, [isConnected, getTokenBalances]);
+
+  useEffect(() => {
+    loadBalances();
+  }, [loadBalances]);
+
+  const payBalance = balances.find(balance => balance.symbol === payToken);
+  const insufficientBalance = Boolean(quote && payBalance && Number(payBalance.balance) < Number(quote.amount));
+  // The booking contract's token list only matters when paying it directly
+  const tokenNotAccepted = Boolean(paymentMethod === 'crypto' && payBalance && !payBalance.supported);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Expired quotes are replaced while the user is still choosing, never mid-payment
+  useEffect(() => {
+    if (quote && paymentStep === 'select' && quoteService.isExpired(quote, now)) {
+      refreshQuote();
+    }
+  }, [quote, now, paymentStep, refreshQuote]);
 
   const calculateCheckInDate = () => {
     // Default to tomorrow if no date specified
@@ -54,7 +122,46 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
     return checkOut;
   };
 
+  // The metadata names the booking id, so it is pinned after the booking exists. The booking is
+  // already paid for at this point, so a failure here leaves it without a ticket rather than failing
+  const issueTicket = async (
+    bookingId: number,
+    bookingData: { amount: string; token: string; checkInDate: number; checkOutDate: number }
+  ): Promise<IssuedTicket | undefined> => {
+    setProgress({ step: 'ticketing' });
+    try {
+      const response = await fetch('/api/tickets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chainId: quoteChainId,
+          tokenId: bookingId,
+          holder: address,
+          booking,
+          checkInDate: bookingData.checkInDate,
+          checkOutDate: bookingData.checkOutDate,
+          payment: { amount: bookingData.amount, token: bookingData.token }
+        })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error || 'Ticket could not be issued');
+      }
+
+      const txHash = await setTicketURI(bookingId, data.ticket.uri);
+      setProgress({ step: 'ticketing', txHash });
+      return data.ticket;
+    } catch (error) {
+      console.warn('⚠️ Booking created without a ticket:', error);
+      return undefined;
+    }
+  };
+
   const handlePayment = async () => {
+    if (!quote) {
+      return;
+    }
+
     if (!isConnected) {
       try {
         await connect('MetaMask');
@@ -69,6 +176,8 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
     setIsProcessing(true);
     setPaymentStep('processing');
     setErrorMessage('');
+    setProgress(null);
+    setSettlement(null);
 
     try {
       const checkInDate = calculateCheckInDate();
@@ -77,8 +186,12 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
       const bookingData = {
         type: booking.type,
         details: booking,
-        amount: (booking.price / 100000).toString(), // Convert from paisa to ETH (rough conversion)
-        token: 'ETH', // Default to native token
+        // Exactly the quote on screen; the contract service rejects it once expired
+        amount: quote.amount,
+        token: quote.token,
+        quote,
+        // Supplier listings carry their on-chain vendor; everything else is Nomado-operated
+        vendor: booking.details?.vendorAddress,
         checkInDate: Math.floor(checkInDate.getTime() / 1000),
         checkOutDate: Math.floor(checkOutDate.getTime() / 1000),
         metadataURI: ''
@@ -90,23 +203,78 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
         console.log('🔧 Processing MOCK transaction - no real blockchain interaction');
       }
 
-      const result = await createBooking(bookingData);
+      let transactionHash: string;
+      let ticket: IssuedTicket | undefined;
+      if (paymentMethod === 'bridge') {
+        // Crypto goes to the bridge treasury, then the server pays the supplier in fiat
+        transactionHash = await depositToBridge(quote, setProgress);
+        setProgress({ step: 'settling', txHash: transactionHash });
+
+        const response = await fetch('/api/bridge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            bookingId: booking.id,
+            token: quote.token,
+            chainId: quote.chainId,
+            txHash: transactionHash,
+            payer: address,
+            quoted: priceBooking(booking).base
+          })
+        });
+        const data = await response.json();
+        if (!data.success) {
+          throw new Error(data.error || data.settlement?.error || 'Bridge settlement failed');
+        }
+        setSettlement(data.settlement);
+      } else {
+        const result = await createBooking(bookingData, setProgress);
+        transactionHash = result.transactionHash;
+        if (result.bookingId) {
+          ticket = await issueTicket(result.bookingId, bookingData);
+        }
+      }
       
       setPaymentStep('success');
       
       setTimeout(() => {
-        onPaymentComplete(result.transactionHash);
+        onPaymentComplete(transactionHash, ticket);
       }, 2000);
     } catch (error) {
       console.error('Payment failed:', error);
       setErrorMessage(error instanceof Error ? error.message : 'Payment failed. Please try again.');
       setPaymentStep('error');
       setIsProcessing(false);
+      // Allowance or balance may have changed part-way through
+      loadBalances();
     }
   };
 
   const chainInfo = chainId ? getChainInfo(chainId) : null;
 
+  // Native payments are one transaction; ERC-20 payments approve the contract first
+  const txSteps: { step: PaymentStage; label: string }[] = paymentMethod === 'bridge'
+    ? [
+        { step: 'checking', label: 'Check balance' },
+        { step: 'booking', label: `Send ${payToken} to the bridge treasury` },
+        { step: 'confirming', label: 'Wait for confirmation' },
+        { step: 'settling', label: 'Pay the supplier in fiat' }
+      ]
+    : [
+        { step: 'checking', label: 'Check balance and allowance' },
+        ...(payToken === chainTokens[0] ? [] : [{ step: 'approving' as PaymentStage, label: `Approve ${payToken} spending` }]),
+        { step: 'booking', label: 'Create booking' },
+        { step: 'confirming', label: 'Wait for confirmation' },
+        { step: 'ticketing', label: 'Issue your ticket' }
+      ];
+  const stepOrder: PaymentStage[] = ['checking', 'approving', 'booking', 'confirming', 'done', 'settling', 'ticketing'];
+  const stepState = (step: PaymentStage) => {
+    if (!progress) return 'pending';
+    const current = stepOrder.indexOf(progress.step);
+    const index = stepOrder.indexOf(step);
+    return index < current ? 'complete' : index === current ? 'active' : 'pending';
+  };
+
   if (paymentStep === 'processing') {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -119,6 +287,26 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
                 ? 'Confirming blockchain transaction...' 
                 : 'Processing Web3 to Web2 bridge payment...'}
             </p>
+            <ul className="mt-4 space-y-2 text-left text-sm">
+              {txSteps.map(({ step, label }) => {
+                const state = stepState(step);
+                return (
+                  <li key={step} className="flex items-center space-x-2">
+                    {state === 'complete' ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : state === 'active' ? (
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                    ) : (
+                      <div className="h-4 w-4 rounded-full border border-gray-300"></div>
+                    )}
+                    <span className={state === 'pending' ? 'text-gray-400' : 'text-gray-800'}>{label}</span>
+                    {state === 'active' && progress?.txHash && (
+                      <span className="text-xs text-gray-500 font-mono">{progress.txHash.slice(0, 10)}...</span>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
             <p className="text-sm text-gray-500 mt-2">
               Please do not close this window
             </p>
@@ -135,11 +323,21 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
           <div className="text-center">
             <CheckCircle className="h-16 w-16 text-green-500 mx-auto mb-4" />
             <h3 className="text-lg font-semibold mb-2">Payment Successful!</h3>
-            <p className="text-gray-600 mb-4">Your booking has been confirmed on the blockchain.</p>
+            <p className="text-gray-600 mb-4">
+              {settlement
+                ? 'Your payment reached the bridge and the supplier payout is on its way.'
+                : 'Your booking has been confirmed on the blockchain.'}
+            </p>
             <div className="bg-gray-50 rounded-lg p-3">
               <p className="text-xs text-gray-500">
                 Network: {chainInfo?.name || 'Ethereum'}
               </p>
+              {settlement && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Settlement {settlement.id}: {formatMoney(settlement.payout.amount)} to {settlement.supplier.name}
+                  {' '}({settlement.status === 'settled' ? 'paid' : 'processing'})
+                </p>
+              )}
               <p className="text-xs text-gray-500 mt-1">
                 You will receive confirmation details shortly.
               </p>
@@ -200,6 +398,24 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
             <span className="text-lg font-bold">{formatPrice()}</span>
             <span className="text-sm text-gray-500">{booking.type}</span>
           </div>
+          <div className="mt-3 pt-3 border-t border-gray-200 text-sm">
+            {quote ? (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">You pay</span>
+                  <span className="font-semibold">{quote.amount} {quote.token}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  1 {quote.token} = ${quote.tokenPriceUSD.toFixed(2)} ({quote.source}) · includes a {quote.slippageBps / 100}% price
+                  buffer · refreshes in {quoteService.secondsLeft(quote, now)}s
+                </p>
+              </>
+            ) : quoteError ? (
+              <span className="text-red-600">{quoteError}</span>
+            ) : (
+              <span className="text-gray-500">Fetching live price...</span>
+            )}
+          </div>
         </div>
 
         {/* Payment Method Selection */}
@@ -280,11 +496,58 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
                 <span className="font-medium text-purple-900">Bridge Payment</span>
               </div>
               <p className="text-purple-800 text-sm">
-                Your crypto will be converted and transferred to the vendor&apos;s traditional payment system
-                through our secure P2P.me bridge.
+                Your crypto is paid into the Nomado bridge treasury, and the vendor is paid in their local currency
+                through their traditional payment system. Every payout is reconciled against your transaction.
               </p>
             </div>
           )}
+
+          {/* Token Picker */}
+          <div className="mt-4">
+            <div className="text-sm font-medium text-gray-900 mb-2">Pay with</div>
+            <div className="grid grid-cols-2 gap-2">
+              {chainTokens.map(token => {
+                const balance = balances.find(entry => entry.symbol === token);
+                const accepted = paymentMethod === 'bridge' || !balance || balance.supported;
+                return (
+                  <button
+                    key={token}
+                    type="button"
+                    onClick={() => setSelectedToken(token)}
+                    disabled={!accepted}
+                    className={`text-left px-3 py-2 rounded-lg border text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      token === payToken ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium">{token}</span>
+                      {!accepted && (
+                        <span className="bg-gray-100 text-gray-600 text-xs px-1 rounded">Not accepted</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {balance ? `Balance: ${Number(balance.balance).toFixed(4)}` : isConnected ? 'Loading balance...' : 'Connect to see balance'}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+            {insufficientBalance && quote && (
+              <p className="text-red-600 text-sm mt-2">
+                Insufficient {quote.token} balance: you need {quote.amount} but have {payBalance?.balance}.
+              </p>
+            )}
+            {tokenNotAccepted && (
+              <p className="text-red-600 text-sm mt-2">
+                {payToken} is not accepted by the booking contract on this network.
+              </p>
+            )}
+            {payToken !== chainTokens[0] && paymentMethod === 'crypto' && (
+              <p className="text-blue-700 text-xs mt-2">
+                {payToken} payments need two wallet confirmations: an approval, then the booking.
+              </p>
+            )}
+          </div>
         </div>
 
         {/* Action Buttons */}
@@ -297,7 +560,7 @@ export default function PaymentModal({ booking, onClose, onPaymentComplete }: Pa
           </button>
           <button
             onClick={handlePayment}
-            disabled={isProcessing}
+            disabled={isProcessing || !quote || insufficientBalance || tokenNotAccepted}
             className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
           >
             {isProcessing ? 'Processing...' : isConnected ? `Pay ${formatPrice()}` : `Connect Wallet & Pay ${formatPrice()}`}
@@ -1,5 +1,7 @@
 'use client';
 
+import { formatMoney } from '@/lib/money/money';
+import { bookingPrice } from '@/lib/money/pricing';
 import type { BookingOption, SearchFilters } from '@/types';
 import { ArrowRight, Calendar, DollarSign, Filter, MapPin, Search, Sparkles } from 'lucide-react';
 import { useState } from 'react';
@@ -225,7 +227,7 @@ export default function SearchInterface({ onSearch, onQuickSearch, isLoading = f
                   </h4>
                   <p className="text-sm text-gray-600 dark:text-gray-300">{option.description}</p>
                   <p className="text-sm font-semibold text-green-600 dark:text-green-400 mt-1">
-                    From ₹{option.price.toLocaleString()}
+                    From {formatMoney(bookingPrice(option))}
                   </p>
                 </div>
                 <ArrowRight className="h-5 w-5 text-gray-400 group-hover:text-blue-600" />
@@ -2,7 +2,8 @@
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import { ethers } from 'ethers'
-import { contractService, type BookingData } from '@/services/contractService'
+import { contractService, type BookingData, type BookingProgress, type RefundPreview, type TokenBalance, type VendorDashboard } from '@/services/contractService'
+import { quoteService, type PaymentQuote } from '@/services/quoteService'
 
 interface Web3ContextType {
   isConnected: boolean
@@ -13,9 +14,16 @@ interface Web3ContextType {
   signer: ethers.Signer | null
   connect: (connectorType?: string) => Promise<void>
   disconnect: () => Promise<void>
-  createBooking: (bookingData: BookingData) => Promise<{ transactionHash: string; bookingId?: number }>
+  createBooking: (bookingData: BookingData, onProgress?: (progress: BookingProgress) => void) => Promise<{ transactionHash: string; bookingId?: number }>
+  getTokenBalances: () => Promise<TokenBalance[]>
+  depositToBridge: (quote: PaymentQuote, onProgress?: (progress: BookingProgress) => void) => Promise<string>
   getUserBookings: () => Promise<any[]>
   cancelBooking: (bookingId: number) => Promise<string>
+  previewRefund: (bookingId: number) => Promise<RefundPreview>
+  getVendorDashboard: () => Promise<VendorDashboard>
+  confirmBooking: (bookingId: number) => Promise<string>
+  withdrawVendorBalance: (tokenSymbol: string) => Promise<string>
+  setTicketURI: (bookingId: number, metadataURI: string) => Promise<string>
   checkInToBooking: (bookingId: number) => Promise<string>
   getContractStats: () => Promise<{ totalBookings: number; totalValue: string; platformRevenue: string }>
 }
@@ -65,6 +73,8 @@ export default function Web3Provider({ children }: Web3ProviderProps) {
     if (provider && chainId) {
       try {
         await contractService.initialize(provider, chainId)
+        // Payment quotes read Chainlink prices through the same provider
+        quoteService.useProvider(provider)
         
         // Show user if mock mode is enabled
         if (contractService.isMockMode()) {
@@ -214,12 +224,28 @@ export default function Web3Provider({ children }: Web3ProviderProps) {
   }
 
   // Contract interaction methods
-  const createBooking = async (bookingData: BookingData) => {
+  const createBooking = async (bookingData: BookingData, onProgress?: (progress: BookingProgress) => void) => {
     if (!isConnected || !address) {
       throw new Error('Wallet not connected')
     }
     
-    return await contractService.createBooking(bookingData)
+    return await contractService.createBooking(bookingData, onProgress)
+  }
+
+  const getTokenBalances = async () => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.getTokenBalances(address)
+  }
+
+  const depositToBridge = async (quote: PaymentQuote, onProgress?: (progress: BookingProgress) => void) => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.depositToBridge(quote, onProgress)
   }
 
   const getUserBookings = async () => {
@@ -239,6 +265,47 @@ export default function Web3Provider({ children }: Web3ProviderProps) {
     return await contractService.cancelBooking(bookingId)
   }
 
+  const previewRefund = async (bookingId: number) => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.previewRefund(bookingId)
+  }
+
+  // Vendor views act on the connected wallet's own vendor account
+  const getVendorDashboard = async () => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.getVendorDashboard(address)
+  }
+
+  const confirmBooking = async (bookingId: number) => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.confirmBooking(bookingId)
+  }
+
+  const withdrawVendorBalance = async (tokenSymbol: string) => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.withdrawVendorBalance(address, tokenSymbol)
+  }
+
+  const setTicketURI = async (bookingId: number, metadataURI: string) => {
+    if (!isConnected || !address) {
+      throw new Error('Wallet not connected')
+    }
+    
+    return await contractService.setTicketURI(bookingId, metadataURI)
+  }
+
   const checkInToBooking = async (bookingId: number) => {
     if (!isConnected || !address) {
       throw new Error('Wallet not connected')
@@ -261,8 +328,15 @@ export default function Web3Provider({ children }: Web3ProviderProps) {
     connect,
     disconnect,
     createBooking,
+    getTokenBalances,
+    depositToBridge,
     getUserBookings,
     cancelBooking,
+    previewRefund,
+    getVendorDashboard,
+    confirmBooking,
+    withdrawVendorBalance,
+    setTicketURI,
     checkInToBooking,
     getContractStats
   }
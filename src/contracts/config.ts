@@ -53,6 +53,94 @@ export const SUPPORTED_TOKENS = {
   },
 } as const;
 
+// ERC-20 and native token decimals, for turning quoted amounts into base units
+export const TOKEN_DECIMALS = {
+  ETH: 18,
+  MATIC: 18,
+  USDC: 6,
+  USDT: 6,
+  DAI: 18,
+} as const;
+
+// Chainlink USD price feeds (8 decimals) used for payment quotes; chains or tokens
+// without a feed here fall back to the offline price fixture
+export const PRICE_FEEDS: Record<number, Partial<Record<keyof typeof TOKEN_DECIMALS, string>>> = {
+  1: {
+    ETH: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+    USDC: "0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6",
+    USDT: "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D",
+    DAI: "0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9",
+  },
+  137: {
+    MATIC: "0xAB594600376Ec9fD91F8e885dADF0CE036862dE0",
+    ETH: "0xF9680D99D6C9589e2a93a78A04A279e509205945",
+  },
+  42161: {
+    ETH: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+  },
+  10: {
+    ETH: "0x13e3Ee699D1909E989722E753853AE30b17e08c5",
+  },
+};
+
+// Payment quote settings
+export const QUOTE_CONFIG = {
+  TTL_SECONDS: 120, // How long a quoted token amount can be paid
+  MAX_FEED_AGE_SECONDS: 3600, // Older Chainlink answers are treated as unavailable
+  SLIPPAGE_BPS: {
+    volatile: 150, // 1.5% buffer for ETH and MATIC
+    stable: 30, // 0.3% for dollar stablecoins
+  },
+} as const;
+
+// Server-side RPCs used to verify deposits and tickets
+export const SERVER_RPC_URLS: Record<number, string> = {
+  1: process.env.NEXT_PUBLIC_ETHEREUM_RPC || "https://cloudflare-eth.com",
+  137: process.env.NEXT_PUBLIC_POLYGON_RPC || "https://polygon-rpc.com",
+  42161: process.env.NEXT_PUBLIC_ARBITRUM_RPC || "https://arb1.arbitrum.io/rpc",
+  10: process.env.NEXT_PUBLIC_OPTIMISM_RPC || "https://mainnet.optimism.io",
+  1337: process.env.LOCALHOST_RPC_URL || "http://127.0.0.1:8545",
+};
+
+// Web3 -> Web2 bridge: travellers pay crypto into the treasury, suppliers are paid out in fiat.
+// With no treasury configured the bridge runs in demo mode and only accepts simulated deposits
+export const BRIDGE_CONFIG = {
+  TREASURY_ADDRESS: process.env.NEXT_PUBLIC_BRIDGE_TREASURY_ADDRESS || "",
+  MIN_CONFIRMATIONS: 1,
+  RPC_URLS: SERVER_RPC_URLS,
+} as const;
+
+// Cancellation refunds by booking type, most notice first; cancelling with less notice than the
+// last tier refunds nothing. Mirrors the defaults set in the TravelBooking constructor
+export interface RefundTier {
+  minHoursBefore: number; // Notice before check-in
+  refundBps: number;
+}
+
+export const REFUND_POLICIES: Record<string, RefundTier[]> = {
+  default: [{ minHoursBefore: 168, refundBps: 10000 }, { minHoursBefore: 48, refundBps: 5000 }],
+  flight: [{ minHoursBefore: 168, refundBps: 10000 }, { minHoursBefore: 48, refundBps: 5000 }],
+  hotel: [{ minHoursBefore: 168, refundBps: 10000 }, { minHoursBefore: 48, refundBps: 5000 }],
+  tour: [{ minHoursBefore: 336, refundBps: 10000 }, { minHoursBefore: 72, refundBps: 5000 }],
+  activity: [{ minHoursBefore: 48, refundBps: 10000 }, { minHoursBefore: 24, refundBps: 5000 }],
+};
+
+// Booking tickets: confirmed bookings are ERC-721 tokens whose metadata lives in the content store
+export const TICKET_CONFIG = {
+  QR_PREFIX: "nomado-ticket",
+  CHECK_IN_OPENS_HOURS: 24, // Matches CHECK_IN_WINDOW in TravelBooking.sol
+} as const;
+
+// Server-side event indexer that mirrors bookings into the local database
+export const INDEXER_CONFIG = {
+  POLL_INTERVAL_MS: 12000,
+  BATCH_SIZE: 2000, // Blocks per getLogs call; public RPCs reject much wider ranges
+  REORG_DEPTH: 64, // Block hashes kept to find where a reorganised chain diverged
+  // Deployment block per chain, written by scripts/deploy.js; indexing starts here
+  START_BLOCKS: {
+  } as Record<number, number>,
+} as const;
+
 // Network configurations
 export const NETWORK_CONFIG = {
   1: {
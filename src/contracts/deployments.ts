@@ -0,0 +1,10 @@
+import { CONTRACT_ADDRESSES } from './config';
+
+const PLACEHOLDER_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Chains keep a zero-address placeholder until scripts/deploy.js records a deployment
+export function deployedContract(chainId: number): string | null {
+  const addresses = CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES];
+  const address: string | undefined = addresses?.TravelBooking;
+  return address && address !== PLACEHOLDER_ADDRESS ? address : null;
+}
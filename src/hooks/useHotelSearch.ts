@@ -1,19 +1,18 @@
 'use client';
 
+import { hotelDirectory } from '@/lib/inventory/hotelDirectoryProvider';
+import { offerToBookingOption } from '@/lib/inventory/provider';
 import type { BookingOption } from '@/types';
-import {
-    convertMockHotelToBookingOption,
-    searchHotelsByLocation,
-    searchHotelsNearLocation
-} from '@/utils/mockHotels';
+import type { HotelFacets, HotelSearchFilters } from '@/utils/hotelSearch';
 import { useCallback, useState } from 'react';
 
 interface UseHotelSearchResult {
   hotels: BookingOption[];
   isLoading: boolean;
   error: string | null;
-  searchNearMe: () => Promise<void>;
-  searchByLocation: (location: string) => Promise<void>;
+  searchNearMe: (radiusKm?: number) => Promise<void>;
+  searchByLocation: (location: string, filters?: HotelSearchFilters) => Promise<void>;
+  facets: HotelFacets | null; // Counts for the last location search; near-me searches have none
   testAPI: () => Promise<{ isValid: boolean; error?: string }>;
   currentLocation: { lat: number; lng: number } | null;
 }
@@ -23,6 +22,7 @@ export function useHotelSearch(): UseHotelSearchResult {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
+  const [facets, setFacets] = useState<HotelFacets | null>(null);
 
   const testAPI = useCallback(async () => {
     // Mock API test - always returns success for demo
@@ -69,7 +69,7 @@ export function useHotelSearch(): UseHotelSearchResult {
     });
   }, []);
 
-  const searchNearMe = useCallback(async () => {
+  const searchNearMe = useCallback(async (radiusKm: number = 25) => {
     setIsLoading(true);
     setError(null);
     
@@ -80,14 +80,15 @@ export function useHotelSearch(): UseHotelSearchResult {
       // Simulate API delay
       await new Promise(resolve => setTimeout(resolve, 1000));
       
-      // Search hotels near current location using mock data
-      const mockHotels = searchHotelsNearLocation(location.lat, location.lng, 5, 20);
-      const bookingOptions = mockHotels.map(convertMockHotelToBookingOption);
+      // Search the hotel directory around the current location; results come nearest first with details.distanceKm
+      const offers = await hotelDirectory.search({ type: 'hotel', near: { ...location, radiusKm }, limit: 20 });
+      const bookingOptions = offers.map(offerToBookingOption);
       
       setHotels(bookingOptions);
+      setFacets(null);
       
       if (bookingOptions.length === 0) {
-        setError('No hotels found near your location. Try searching by city name.');
+        setError(`No hotels found within ${radiusKm} km of your location. Try searching by city name.`);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -102,7 +103,7 @@ export function useHotelSearch(): UseHotelSearchResult {
     }
   }, [getCurrentLocation]);
 
-  const searchByLocation = useCallback(async (locationQuery: string) => {
+  const searchByLocation = useCallback(async (locationQuery: string, filters: HotelSearchFilters = {}) => {
     setIsLoading(true);
     setError(null);
     
@@ -110,13 +111,17 @@ export function useHotelSearch(): UseHotelSearchResult {
       // Simulate API delay
       await new Promise(resolve => setTimeout(resolve, 800));
       
-      // Search hotels using mock data
-      const mockHotels = searchHotelsByLocation(locationQuery, 20);
-      const bookingOptions = mockHotels.map(convertMockHotelToBookingOption);
+      // Ranked search of the hotel directory: typos, synonyms ("Bombay") and amenity words all match
+      const query = { type: 'hotel' as const, destination: locationQuery, ...filters, limit: 20 };
+      const offers = await hotelDirectory.search(query);
+      const bookingOptions = offers.map(offerToBookingOption);
       
       setHotels(bookingOptions);
+      setFacets(hotelDirectory.facets(query));
       
-      if (bookingOptions.length === 0) {
+      if (bookingOptions.length === 0 && (filters.hotelType || filters.amenities?.length)) {
+        setError(`No hotels in "${locationQuery}" match those filters.`);
+      } else if (bookingOptions.length === 0) {
         setError(`No hotels found for "${locationQuery}". Try searching for major cities like New York, London, Paris, Mumbai, or Goa.`);
       }
     } catch (error) {
@@ -133,6 +138,7 @@ export function useHotelSearch(): UseHotelSearchResult {
     error,
     searchNearMe,
     searchByLocation,
+    facets,
     testAPI,
     currentLocation,
   };
@@ -0,0 +1,17 @@
+// Runs once when the Next.js server starts
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Load and validate provider keys up front so problems show in the startup logs
+  const { logServerConfig } = await import('@/lib/config/providers');
+  logServerConfig();
+
+  // The indexer needs Node (SQLite); INDEXER_ENABLED=false leaves it to start on first query
+  if (process.env.INDEXER_ENABLED !== 'false') {
+    const { startBookingIndexers } = await import('@/lib/indexer/indexer');
+    startBookingIndexers();
+  }
+}
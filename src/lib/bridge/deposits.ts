@@ -0,0 +1,114 @@
+// Checks that a traveller's crypto payment actually reached the bridge treasury before anyone is paid out
+
+import { BRIDGE_CONFIG, SUPPORTED_TOKENS, TOKEN_DECIMALS } from '@/contracts/config';
+import { ethers } from 'ethers';
+
+export interface DepositClaim {
+  chainId: number;
+  txHash: string;
+  token: keyof typeof TOKEN_DECIMALS;
+  payer: string; // Wallet that has to have sent the deposit
+  amount: string; // Least the treasury has to receive, in whole tokens
+}
+
+export interface VerifiedDeposit {
+  from: string;
+  to: string;
+  received: string; // Whole tokens that reached the treasury
+  blockNumber?: number;
+  simulated: boolean;
+}
+
+export interface DepositVerifier {
+  verify(claim: DepositClaim): Promise<VerifiedDeposit>;
+}
+
+export const MOCK_BRIDGE_TX_PREFIX = '0xmock_bridge_tx';
+
+const TRANSFER_EVENT = ['event Transfer(address indexed from, address indexed to, uint256 value)'];
+
+// Demo mode: accepts the simulated transfers mock-mode wallets make, and nothing else
+export class MockDepositVerifier implements DepositVerifier {
+  async verify(claim: DepositClaim): Promise<VerifiedDeposit> {
+    if (claim.txHash.indexOf(MOCK_BRIDGE_TX_PREFIX) !== 0) {
+      throw new Error('Bridge treasury is not configured; only simulated deposits can be settled');
+    }
+    return {
+      from: claim.payer,
+      to: 'mock-treasury',
+      received: claim.amount,
+      simulated: true
+    };
+  }
+}
+
+export class ChainDepositVerifier implements DepositVerifier {
+  constructor(
+    private treasury: string,
+    private rpcUrls: Record<number, string> = BRIDGE_CONFIG.RPC_URLS,
+    private minConfirmations: number = BRIDGE_CONFIG.MIN_CONFIRMATIONS
+  ) {}
+
+  async verify(claim: DepositClaim): Promise<VerifiedDeposit> {
+    const rpcUrl = this.rpcUrls[claim.chainId];
+    if (!rpcUrl) {
+      throw new Error(`Bridge deposits are not accepted on chain ${claim.chainId}`);
+    }
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl, claim.chainId, { staticNetwork: true });
+    const [tx, receipt] = await Promise.all([
+      provider.getTransaction(claim.txHash),
+      provider.getTransactionReceipt(claim.txHash)
+    ]);
+    if (!tx || !receipt) {
+      throw new Error(`Transaction ${claim.txHash} not found on chain ${claim.chainId}`);
+    }
+    if (receipt.status !== 1) {
+      throw new Error(`Transaction ${claim.txHash} reverted`);
+    }
+    if ((await receipt.confirmations()) < this.minConfirmations) {
+      throw new Error(`Transaction ${claim.txHash} is not confirmed yet`);
+    }
+    // Anyone's transfer to the treasury is public; only the paying wallet's own counts for this booking
+    const payer = claim.payer.toLowerCase();
+    if (tx.from.toLowerCase() !== payer) {
+      throw new Error(`Transaction ${claim.txHash} was not sent by ${claim.payer}`);
+    }
+
+    const treasury = this.treasury.toLowerCase();
+    let received = BigInt(0);
+
+    if (claim.token === 'ETH' || claim.token === 'MATIC') {
+      if ((tx.to || '').toLowerCase() === treasury) {
+        received = tx.value;
+      }
+    } else {
+      // Sum every Transfer of the quoted token from the payer into the treasury within this transaction
+      const addresses = SUPPORTED_TOKENS[claim.token] as Record<number, string>;
+      const tokenAddress = (addresses[claim.chainId] || '').toLowerCase();
+      const transfer = new ethers.Interface(TRANSFER_EVENT);
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== tokenAddress) continue;
+        const parsed = transfer.parseLog(log);
+        if (parsed && String(parsed.args.from).toLowerCase() === payer && String(parsed.args.to).toLowerCase() === treasury) {
+          received += parsed.args.value as bigint;
+        }
+      }
+    }
+
+    return {
+      from: tx.from,
+      to: this.treasury,
+      received: ethers.formatUnits(received, TOKEN_DECIMALS[claim.token]),
+      blockNumber: receipt.blockNumber,
+      simulated: false
+    };
+  }
+}
+
+export function createDepositVerifier(
+  treasury: string = BRIDGE_CONFIG.TREASURY_ADDRESS,
+  rpcUrls: Record<number, string> = BRIDGE_CONFIG.RPC_URLS
+): DepositVerifier {
+  return treasury ? new ChainDepositVerifier(treasury, rpcUrls) : new MockDepositVerifier();
+}
@@ -0,0 +1,106 @@
+// Fiat payouts to suppliers for bridge settlements
+// Real rails (bank transfer, UPI, P2P.me) plug in behind PayoutAdapter; the fake settles in memory
+
+import type { Money } from '@/lib/money/money';
+
+export type PayoutStatus = 'pending' | 'paid' | 'failed';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  account?: string; // Bank account, UPI id or wallet on the payout rail
+}
+
+export interface PayoutRequest {
+  reference: string; // Reconciliation id, sent as the payment memo
+  supplier: Supplier;
+  amount: Money;
+}
+
+export interface Payout {
+  id: string;
+  adapter: string;
+  reference: string;
+  supplierId: string;
+  amount: Money;
+  status: PayoutStatus;
+  createdAt: string;
+  paidAt?: string;
+  error?: string;
+}
+
+export interface PayoutAdapter {
+  id: string;
+  name: string;
+  createPayout(request: PayoutRequest): Promise<Payout>;
+  getPayout(payoutId: string): Promise<Payout>;
+}
+
+export interface FakePayoutOptions {
+  settleAfterMs?: number; // 0 pays out immediately
+  failingSuppliers?: string[]; // Supplier ids whose payouts are rejected
+}
+
+export class FakePayoutAdapter implements PayoutAdapter {
+  id = 'fake';
+  name = 'Local fake payout rail';
+
+  private payouts = new Map<string, Payout>();
+  private counter = 0;
+
+  constructor(private options: FakePayoutOptions = {}) {}
+
+  async createPayout(request: PayoutRequest): Promise<Payout> {
+    if (request.amount.amount <= 0) {
+      throw new Error('Payout amount must be positive');
+    }
+
+    this.counter++;
+    const now = new Date().toISOString();
+    const failing = (this.options.failingSuppliers || []).indexOf(request.supplier.id) !== -1;
+    const payout: Payout = {
+      id: `fake-po-${this.counter}`,
+      adapter: this.id,
+      reference: request.reference,
+      supplierId: request.supplier.id,
+      amount: request.amount,
+      status: failing ? 'failed' : this.options.settleAfterMs ? 'pending' : 'paid',
+      createdAt: now,
+      paidAt: failing || this.options.settleAfterMs ? undefined : now,
+      error: failing ? `Supplier ${request.supplier.id} rejected the transfer` : undefined
+    };
+
+    this.payouts.set(payout.id, payout);
+    console.log(`💸 Fake payout ${payout.id}: ${payout.status} for ${request.supplier.name}`);
+    return { ...payout };
+  }
+
+  async getPayout(payoutId: string): Promise<Payout> {
+    const payout = this.payouts.get(payoutId);
+    if (!payout) {
+      throw new Error(`Unknown payout ${payoutId}`);
+    }
+
+    // Pending payouts clear once the simulated rail delay has passed
+    if (payout.status === 'pending' && Date.now() - Date.parse(payout.createdAt) >= (this.options.settleAfterMs || 0)) {
+      payout.status = 'paid';
+      payout.paidAt = new Date().toISOString();
+    }
+    return { ...payout };
+  }
+
+  // Everything sent so far, for the demo and for debugging
+  list(): Payout[] {
+    return Array.from(this.payouts.values()).map(payout => ({ ...payout }));
+  }
+}
+
+// BRIDGE_PAYOUT_ADAPTER picks the rail; only the local fake ships today
+export function createPayoutAdapter(name: string = process.env.BRIDGE_PAYOUT_ADAPTER || 'fake'): PayoutAdapter {
+  switch (name) {
+    case 'fake':
+      return new FakePayoutAdapter({ settleAfterMs: Number(process.env.BRIDGE_FAKE_PAYOUT_DELAY_MS || 0) });
+    default:
+      throw new Error(`Unknown payout adapter: ${name}`);
+  }
+}
@@ -0,0 +1,309 @@
+// Bridge settlement: a traveller's crypto lands in the treasury, the supplier is paid in fiat,
+// and one reconciliation record ties the on-chain transaction to the fiat payout.
+// Server-side only. Nothing the client posts is trusted for money: the booking comes from the
+// options this server issued and must be the one the traveller reviewed, the token amount is
+// re-priced from the server's own feed, and the deposit must come from the paying wallet
+
+import { BRIDGE_CONFIG, TOKEN_DECIMALS } from '@/contracts/config';
+import { serverRpcUrls } from '@/lib/config/providers';
+import { getDatabase } from '@/lib/db/sqlite';
+import { getIssuedOffers, type IssuedOfferStore } from '@/lib/inventory/issuedOffers';
+import { addMoney, formatMoney, type Money } from '@/lib/money/money';
+import { ChainlinkPriceSource } from '@/lib/money/priceFeeds';
+import { bookingPrice, priceBooking } from '@/lib/money/pricing';
+import { QuoteService, type PaymentQuote, type PaymentToken } from '@/services/quoteService';
+import type { BookingOption } from '@/types';
+import { ethers } from 'ethers';
+import { createDepositVerifier, type DepositVerifier } from './deposits';
+import { createPayoutAdapter, type PayoutAdapter, type PayoutStatus, type Supplier } from './payout';
+import { SettlementStore } from './store';
+
+export type SettlementStatus =
+  | 'deposit_pending'
+  | 'deposit_failed' // Transaction missing, reverted or unconfirmed; can be retried
+  | 'deposit_mismatch' // Less than the quoted amount reached the treasury; needs a human
+  | 'payout_pending'
+  | 'payout_failed'
+  | 'settled';
+
+export interface SettlementRequest {
+  bookingId: string; // An option this server issued
+  token: string;
+  chainId: number;
+  txHash: string;
+  payer: string; // Wallet the deposit must come from
+  quoted: Money; // Booking price the traveller reviewed, before taxes and fees
+}
+
+export type ServerQuote = (total: Money, token: PaymentToken, chainId: number) => Promise<PaymentQuote>;
+
+export interface ReconciliationRecord {
+  id: string;
+  bookingId: string;
+  bookingTitle: string;
+  supplier: Supplier;
+  quoteId: string;
+  deposit: {
+    chainId: number;
+    txHash: string;
+    token: PaymentQuote['token'];
+    payer: string;
+    expected: string; // Least that has to reach the treasury, re-priced on the server
+    received?: string;
+    from?: string;
+    to?: string;
+    blockNumber?: number;
+    simulated?: boolean;
+  };
+  charged: Money; // What the traveller paid, in fiat
+  payout: {
+    amount: Money; // Booking price and taxes, owed to the supplier
+    adapter: string;
+    payoutId?: string;
+    status: PayoutStatus | 'not_started';
+    paidAt?: string;
+  };
+  platformFee: Money; // Kept by Nomado
+  status: SettlementStatus;
+  error?: string;
+  history: { at: string; status: SettlementStatus; note?: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+const RETRYABLE: SettlementStatus[] = ['deposit_failed', 'payout_failed'];
+
+export function supplierFor(booking: BookingOption): Supplier {
+  const name: string = booking.details?.airline || booking.title;
+  return {
+    id: `${booking.type}:${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`,
+    name
+  };
+}
+
+// Prices the deposit with Chainlink over the server RPC. Fixture prices are only used when
+// NEXT_PUBLIC_PRICE_SOURCE=fixture says so; otherwise a missing or failing feed fails the settlement,
+// which is opened again when the same transaction is posted once the feed is back
+export const serverQuote: ServerQuote = async (total, token, chainId) => {
+  const quotes = new QuoteService();
+  if (process.env.NEXT_PUBLIC_PRICE_SOURCE !== 'fixture') {
+    const rpcUrl = serverRpcUrls()[chainId];
+    if (!rpcUrl) {
+      throw new Error(`No RPC configured for chain ${chainId} to price the deposit; try again later`);
+    }
+    quotes.setPriceSource(new ChainlinkPriceSource(new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true })));
+  }
+  return quotes.getQuote(total, token, chainId);
+};
+
+export class BridgeSettlementService {
+  private inFlight = new Map<string, Promise<ReconciliationRecord>>();
+  private counter = 0;
+
+  constructor(
+    private store: SettlementStore,
+    private offers: IssuedOfferStore,
+    private verifier: DepositVerifier = createDepositVerifier(BRIDGE_CONFIG.TREASURY_ADDRESS, serverRpcUrls()),
+    private payouts: PayoutAdapter = createPayoutAdapter(),
+    private quote: ServerQuote = serverQuote
+  ) {}
+
+  // Idempotent per transaction, across restarts too: the same deposit is never paid out twice
+  async settle(request: SettlementRequest): Promise<ReconciliationRecord> {
+    const { bookingId, token, chainId, txHash, payer, quoted } = request;
+    const existing = this.store.findByTransaction(chainId, txHash);
+    if (existing) {
+      return this.retry(existing.id);
+    }
+
+    const booking = this.offers.get(bookingId);
+    if (!booking) {
+      throw new Error(`Unknown booking ${bookingId}; search again before paying`);
+    }
+    // Anyone searching the same stay, date and party gets the same id, and a later search may have
+    // re-issued it at another price; only pay out for the offer this traveller reviewed
+    const issued = bookingPrice(booking);
+    if (!quoted || quoted.amount !== issued.amount || quoted.currency !== issued.currency) {
+      throw new Error(`${booking.title} is now ${formatMoney(issued)}, not the price you reviewed; review it again before paying`);
+    }
+    if (!Object.prototype.hasOwnProperty.call(TOKEN_DECIMALS, token)) {
+      throw new Error(`${token} is not a supported payment token`);
+    }
+    if (!ethers.isAddress(payer)) {
+      throw new Error('payer must be the paying wallet address');
+    }
+
+    // The traveller's quote may be a little stale, so the deposit may fall short of today's price
+    // by up to the slippage buffer it was quoted with
+    const price = priceBooking(booking);
+    const quote = await this.quote(price.total, token as PaymentToken, chainId);
+    const decimals = TOKEN_DECIMALS[quote.token];
+    const minimum = ethers.parseUnits(quote.baseAmount, decimals) * BigInt(10000 - quote.slippageBps) / BigInt(10000);
+
+    this.counter++;
+    const now = new Date().toISOString();
+    const record: ReconciliationRecord = {
+      id: `RCN-${Date.now().toString(36).toUpperCase()}-${this.counter}`,
+      bookingId: booking.id,
+      bookingTitle: booking.title,
+      supplier: supplierFor(booking),
+      quoteId: quote.id,
+      deposit: { chainId, txHash, token: quote.token, payer, expected: ethers.formatUnits(minimum, decimals) },
+      charged: price.total,
+      payout: { amount: addMoney(price.base, price.taxes), adapter: this.payouts.id, status: 'not_started' },
+      platformFee: price.serviceFee,
+      status: 'deposit_pending',
+      history: [{ at: now, status: 'deposit_pending' }],
+      createdAt: now,
+      updatedAt: now
+    };
+    if (!this.store.insert(record)) {
+      // Another request claimed this transaction while the quote was being made
+      return this.retry(this.store.findByTransaction(chainId, txHash)!.id);
+    }
+
+    console.log(`🌉 Bridge settlement ${record.id} opened for ${booking.title}`);
+    return this.exclusive(record.id, () => this.process(record));
+  }
+
+  // Re-runs a failed deposit check or payout; other records are returned as they are
+  async retry(id: string): Promise<ReconciliationRecord> {
+    return this.exclusive(id, async () => {
+      const record = this.requireRecord(id);
+      if (RETRYABLE.indexOf(record.status) === -1) {
+        return this.refreshRecord(record);
+      }
+      return this.process(record);
+    });
+  }
+
+  // Picks up payouts the rail has finished since the last look
+  async refresh(id: string): Promise<ReconciliationRecord> {
+    return this.exclusive(id, async () => this.refreshRecord(this.requireRecord(id)));
+  }
+
+  get(id: string): ReconciliationRecord | undefined {
+    return this.store.get(id) || undefined;
+  }
+
+  findByTransaction(chainId: number, txHash: string): ReconciliationRecord | undefined {
+    return this.store.findByTransaction(chainId, txHash) || undefined;
+  }
+
+  list(status?: SettlementStatus): ReconciliationRecord[] {
+    return this.store.list(status);
+  }
+
+  // One operation per record at a time, so concurrent retries can't both start a payout
+  private async exclusive(id: string, run: () => Promise<ReconciliationRecord>): Promise<ReconciliationRecord> {
+    const pending = this.inFlight.get(id);
+    if (pending) {
+      await pending.catch(() => undefined);
+      return this.exclusive(id, run);
+    }
+
+    const running = run();
+    this.inFlight.set(id, running);
+    try {
+      return await running;
+    } finally {
+      this.inFlight.delete(id);
+    }
+  }
+
+  private async refreshRecord(record: ReconciliationRecord): Promise<ReconciliationRecord> {
+    if (record.status !== 'payout_pending' || !record.payout.payoutId) {
+      return record;
+    }
+
+    const payout = await this.payouts.getPayout(record.payout.payoutId);
+    this.applyPayout(record, payout.status, payout.paidAt, payout.error);
+    this.store.update(record);
+    return record;
+  }
+
+  private async process(record: ReconciliationRecord): Promise<ReconciliationRecord> {
+    if (record.status === 'deposit_pending' || record.status === 'deposit_failed') {
+      try {
+        const deposit = await this.verifier.verify({
+          chainId: record.deposit.chainId,
+          txHash: record.deposit.txHash,
+          token: record.deposit.token,
+          payer: record.deposit.payer,
+          amount: record.deposit.expected
+        });
+        record.deposit = { ...record.deposit, ...deposit };
+      } catch (error) {
+        this.transition(record, 'deposit_failed', error instanceof Error ? error.message : 'Deposit check failed');
+        return record;
+      }
+
+      const decimals = TOKEN_DECIMALS[record.deposit.token];
+      if (ethers.parseUnits(record.deposit.received || '0', decimals) < ethers.parseUnits(record.deposit.expected, decimals)) {
+        this.transition(
+          record,
+          'deposit_mismatch',
+          `Treasury received ${record.deposit.received} ${record.deposit.token}, expected at least ${record.deposit.expected}`
+        );
+        return record;
+      }
+      // Saved before paying out, so a crash mid-payout leaves the verified deposit on record
+      this.store.update(record);
+    }
+
+    try {
+      const payout = await this.payouts.createPayout({
+        reference: record.id,
+        supplier: record.supplier,
+        amount: record.payout.amount
+      });
+      record.payout.payoutId = payout.id;
+      this.applyPayout(record, payout.status, payout.paidAt, payout.error);
+    } catch (error) {
+      this.transition(record, 'payout_failed', error instanceof Error ? error.message : 'Payout failed');
+    }
+    this.store.update(record);
+    return record;
+  }
+
+  private applyPayout(record: ReconciliationRecord, status: PayoutStatus, paidAt?: string, error?: string) {
+    record.payout.status = status;
+    record.payout.paidAt = paidAt;
+    const next: SettlementStatus = status === 'paid' ? 'settled' : status === 'failed' ? 'payout_failed' : 'payout_pending';
+    if (next !== record.status) {
+      this.transition(record, next, error);
+    }
+  }
+
+  private transition(record: ReconciliationRecord, status: SettlementStatus, note?: string) {
+    const at = new Date().toISOString();
+    record.status = status;
+    record.error = status === 'deposit_failed' || status === 'deposit_mismatch' || status === 'payout_failed' ? note : undefined;
+    record.updatedAt = at;
+    record.history.push({ at, status, note });
+    this.store.update(record);
+    if (record.error) {
+      console.warn(`⚠️ Bridge settlement ${record.id} ${status}: ${note}`);
+    } else {
+      console.log(`🌉 Bridge settlement ${record.id} ${status}`);
+    }
+  }
+
+  // Read fresh from the store, so callers never hold the copy being worked on
+  private requireRecord(id: string): ReconciliationRecord {
+    const record = this.store.get(id);
+    if (!record) {
+      throw new Error(`Unknown settlement ${id}`);
+    }
+    return record;
+  }
+}
+
+let bridgeSettlement: BridgeSettlementService | null = null;
+
+export function getBridgeSettlement(): BridgeSettlementService {
+  if (!bridgeSettlement) {
+    bridgeSettlement = new BridgeSettlementService(new SettlementStore(getDatabase()), getIssuedOffers());
+  }
+  return bridgeSettlement;
+}
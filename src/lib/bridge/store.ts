@@ -0,0 +1,67 @@
+// Reconciliation records kept in the local database, so a restarted or redeployed server still
+// knows which deposits it has settled. The (chain, txHash) key is unique: one deposit, one payout
+
+import type { SqliteDatabase } from '@/lib/db/sqlite';
+import type { ReconciliationRecord, SettlementStatus } from './settlement';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS bridge_settlements (
+    id TEXT PRIMARY KEY,
+    chain_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    status TEXT NOT NULL,
+    record TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (chain_id, tx_hash)
+  );
+  CREATE INDEX IF NOT EXISTS bridge_settlements_status ON bridge_settlements (status);
+`;
+
+export class SettlementStore {
+  constructor(private db: SqliteDatabase) {
+    this.db.exec(SCHEMA);
+  }
+
+  // False when the transaction already has a record; the caller settles that one instead
+  insert(record: ReconciliationRecord): boolean {
+    const result = this.db
+      .prepare(
+        'INSERT INTO bridge_settlements (id, chain_id, tx_hash, status, record, created_at) VALUES (?, ?, ?, ?, ?, ?) ' +
+        'ON CONFLICT (chain_id, tx_hash) DO NOTHING'
+      )
+      .run(
+        record.id,
+        record.deposit.chainId,
+        record.deposit.txHash.toLowerCase(),
+        record.status,
+        JSON.stringify(record),
+        record.createdAt
+      );
+    return result.changes > 0;
+  }
+
+  update(record: ReconciliationRecord) {
+    this.db
+      .prepare('UPDATE bridge_settlements SET status = ?, record = ? WHERE id = ?')
+      .run(record.status, JSON.stringify(record), record.id);
+  }
+
+  get(id: string): ReconciliationRecord | null {
+    const row = this.db.prepare('SELECT record FROM bridge_settlements WHERE id = ?').get(id) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : null;
+  }
+
+  findByTransaction(chainId: number, txHash: string): ReconciliationRecord | null {
+    const row = this.db
+      .prepare('SELECT record FROM bridge_settlements WHERE chain_id = ? AND tx_hash = ?')
+      .get(chainId, txHash.toLowerCase()) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : null;
+  }
+
+  list(status?: SettlementStatus): ReconciliationRecord[] {
+    const rows = (status
+      ? this.db.prepare('SELECT record FROM bridge_settlements WHERE status = ? ORDER BY created_at').all(status)
+      : this.db.prepare('SELECT record FROM bridge_settlements ORDER BY created_at').all()) as { record: string }[];
+    return rows.map(row => JSON.parse(row.record));
+  }
+}
@@ -0,0 +1,68 @@
+// Server-side only: reads provider keys from the environment or from secret files, so deployments
+// can mount keys (Docker/Kubernetes secrets) instead of putting them in the environment
+
+import { createHash, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+
+export type Env = Record<string, string | undefined>;
+
+export type SecretSource = 'env' | 'file';
+
+export interface Secret {
+  value: string;
+  source: SecretSource;
+}
+
+// NAME wins over NAME_FILE; a NAME_FILE that can't be read is an error rather than "not set"
+export function readSecret(name: string, env: Env = process.env): Secret | null {
+  const value = env[name]?.trim();
+  if (value) {
+    return { value, source: 'env' };
+  }
+
+  const file = env[`${name}_FILE`]?.trim();
+  if (!file) {
+    return null;
+  }
+  let contents: string;
+  try {
+    contents = fs.readFileSync(file, 'utf8').trim();
+  } catch (error) {
+    throw new Error(`${name}_FILE points at ${file}, which could not be read`);
+  }
+  return contents ? { value: contents, source: 'file' } : null;
+}
+
+// A copy of env with the named secrets resolved from their files, for code that reads env directly
+export function withSecrets(env: Env, names: string[]): Env {
+  const resolved: Env = { ...env };
+  names.forEach(name => {
+    const secret = readSecret(name, env);
+    if (secret) resolved[name] = secret.value;
+  });
+  return resolved;
+}
+
+// DISABLED_PROVIDERS=googleMaps,llm,rpc:137 switches providers off even when they have keys;
+// a bare "rpc" disables every chain
+export function isProviderDisabled(id: string, env: Env = process.env): boolean {
+  const disabled = (env.DISABLED_PROVIDERS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  const key = id.toLowerCase();
+  return disabled.indexOf(key) !== -1 || disabled.indexOf(key.split(':')[0]) !== -1;
+}
+
+// Authorization: Bearer <ADMIN_TOKEN>, for operator-only actions on otherwise public routes.
+// With no ADMIN_TOKEN (or ADMIN_TOKEN_FILE) set, nobody is an admin
+export function isAdminRequest(authorization: string | null, env: Env = process.env): boolean {
+  const token = readSecret('ADMIN_TOKEN', env);
+  const match = (authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!token || !match) {
+    return false;
+  }
+  // Compare digests so the check takes the same time whatever the caller sends
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1].trim()), digest(token.value));
+}
@@ -0,0 +1,193 @@
+// Server-side only: the external providers this server can use, loaded once and validated at
+// startup. Routes take a provider's settings from here and answer with a typed "not configured"
+// body when it is missing, disabled or misconfigured, instead of failing on the upstream call
+
+import { NETWORK_CONFIG, SERVER_RPC_URLS } from '@/contracts/config';
+import { getLLMConfig, type LLMConfig } from '@/lib/llm/config';
+import { isProviderDisabled, readSecret, type Env, type SecretSource } from './env';
+
+export type ProviderState = 'ok' | 'disabled' | 'not_configured' | 'invalid';
+
+export interface ProviderHealth {
+  id: string; // googleMaps, llm or rpc:<chainId>; the names DISABLED_PROVIDERS takes
+  name: string;
+  state: ProviderState;
+  source?: SecretSource | 'default';
+  message: string; // Never the key or URL itself
+}
+
+export interface Provider<T> {
+  health: ProviderHealth;
+  settings: T | null; // Set only when the state is ok
+}
+
+export interface ServerConfig {
+  googleMaps: Provider<{ apiKey: string }>;
+  llm: Provider<LLMConfig>;
+  rpc: Record<number, Provider<{ url: string }>>;
+  loadedAt: string;
+}
+
+// Body of the 503 a route returns when the provider it needs is unavailable
+export interface ProviderNotConfigured {
+  success: false;
+  error: 'provider_not_configured';
+  provider: string;
+  state: Exclude<ProviderState, 'ok'>;
+  message: string;
+}
+
+type Loaded<T> =
+  | { settings: T; source: SecretSource | 'default'; message: string }
+  | { state: 'not_configured' | 'invalid'; message: string };
+
+// The example values shipped in .env.example and NETWORK_CONFIG
+const PLACEHOLDER = /your[-_]?(api[-_]?key|project[-_]?id|google[-_]maps)/i;
+
+const LLM_KEY_NAMES: Partial<Record<LLMConfig['provider'], string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  local: 'LLM_API_KEY'
+};
+
+function loadProvider<T>(id: string, name: string, env: Env, load: () => Loaded<T>): Provider<T> {
+  if (isProviderDisabled(id, env)) {
+    return { health: { id, name, state: 'disabled', message: `${name} is disabled by DISABLED_PROVIDERS` }, settings: null };
+  }
+
+  let loaded: Loaded<T>;
+  try {
+    loaded = load();
+  } catch (error) {
+    loaded = { state: 'invalid', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  if ('state' in loaded) {
+    return { health: { id, name, state: loaded.state, message: loaded.message }, settings: null };
+  }
+  return { health: { id, name, state: 'ok', source: loaded.source, message: loaded.message }, settings: loaded.settings };
+}
+
+function loadGoogleMaps(env: Env): Provider<{ apiKey: string }> {
+  return loadProvider<{ apiKey: string }>('googleMaps', 'Google Maps', env, () => {
+    const secret = readSecret('GOOGLE_MAPS_API_KEY', env);
+    if (!secret || PLACEHOLDER.test(secret.value)) {
+      return { state: 'not_configured', message: 'Set GOOGLE_MAPS_API_KEY (or GOOGLE_MAPS_API_KEY_FILE) to enable Google Maps hotel search' };
+    }
+    if (!/^AIza[0-9A-Za-z_-]{35}$/.test(secret.value)) {
+      return { state: 'invalid', message: 'GOOGLE_MAPS_API_KEY is not a Google API key' };
+    }
+    return { settings: { apiKey: secret.value }, source: secret.source, message: 'API key loaded' };
+  });
+}
+
+function loadLLM(env: Env): Provider<LLMConfig> {
+  return loadProvider<LLMConfig>('llm', 'AI assistant', env, () => {
+    const config = getLLMConfig(env);
+    if (!config) {
+      return { state: 'not_configured', message: 'Set LLM_PROVIDER (or OPENAI_API_KEY / ANTHROPIC_API_KEY) to enable chat' };
+    }
+
+    // Hosted keys have known prefixes; gateways behind LLM_BASE_URL may use their own
+    const apiKey = config.apiKey || '';
+    if (!config.baseURL && config.provider === 'openai' && apiKey.indexOf('sk-') !== 0) {
+      return { state: 'invalid', message: 'OPENAI_API_KEY is not an OpenAI API key' };
+    }
+    if (!config.baseURL && config.provider === 'anthropic' && apiKey.indexOf('sk-ant-') !== 0) {
+      return { state: 'invalid', message: 'ANTHROPIC_API_KEY is not an Anthropic API key' };
+    }
+
+    const keyName = LLM_KEY_NAMES[config.provider];
+    const secret = keyName ? readSecret(keyName, env) : null;
+    return { settings: config, source: secret ? secret.source : 'default', message: `${config.provider} (${config.model})` };
+  });
+}
+
+// RPC_URL_<chainId> (or its _FILE) overrides the public endpoints in SERVER_RPC_URLS and NETWORK_CONFIG
+function loadRpc(chainId: number, env: Env): Provider<{ url: string }> {
+  const network = NETWORK_CONFIG[chainId as keyof typeof NETWORK_CONFIG];
+  const name = `${network ? network.name : chainId === 1337 ? 'Localhost' : `Chain ${chainId}`} RPC`;
+
+  return loadProvider<{ url: string }>(`rpc:${chainId}`, name, env, () => {
+    const secret = readSecret(`RPC_URL_${chainId}`, env);
+    const url = secret ? secret.value : SERVER_RPC_URLS[chainId] || (network ? network.rpcUrl : '');
+    if (!url || PLACEHOLDER.test(url)) {
+      return { state: 'not_configured', message: `Set RPC_URL_${chainId} to a JSON-RPC endpoint for this chain` };
+    }
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { state: 'invalid', message: `RPC_URL_${chainId} is not a URL` };
+    }
+    if (['http:', 'https:', 'ws:', 'wss:'].indexOf(parsed.protocol) === -1) {
+      return { state: 'invalid', message: `RPC_URL_${chainId} must be an http(s) or ws(s) URL` };
+    }
+    // Hosted RPC URLs often carry an API key in the path, so only the host is reported
+    return { settings: { url }, source: secret ? secret.source : 'default', message: parsed.host };
+  });
+}
+
+export function loadServerConfig(env: Env = process.env): ServerConfig {
+  const chainIds = Object.keys(NETWORK_CONFIG)
+    .concat(Object.keys(SERVER_RPC_URLS))
+    .map(Number)
+    .filter((chainId, i, all) => all.indexOf(chainId) === i);
+
+  return {
+    googleMaps: loadGoogleMaps(env),
+    llm: loadLLM(env),
+    rpc: chainIds.reduce((rpc, chainId) => ({ ...rpc, [chainId]: loadRpc(chainId, env) }), {} as ServerConfig['rpc']),
+    loadedAt: new Date().toISOString()
+  };
+}
+
+let serverConfig: ServerConfig | null = null;
+
+export function getServerConfig(): ServerConfig {
+  if (!serverConfig) {
+    serverConfig = loadServerConfig();
+  }
+  return serverConfig;
+}
+
+// Re-reads the environment and secret files, e.g. after a key is rotated
+export function reloadServerConfig(): ServerConfig {
+  serverConfig = loadServerConfig();
+  return serverConfig;
+}
+
+export function providerHealth(config: ServerConfig = getServerConfig()): ProviderHealth[] {
+  return [config.googleMaps.health, config.llm.health].concat(Object.values(config.rpc).map(rpc => rpc.health));
+}
+
+// Usable RPC endpoints by chain, for the indexer, ticket checks and deposit verification
+export function serverRpcUrls(config: ServerConfig = getServerConfig()): Record<number, string> {
+  return Object.entries(config.rpc).reduce((urls, [chainId, rpc]) => (
+    rpc.settings ? { ...urls, [chainId]: rpc.settings.url } : urls
+  ), {} as Record<number, string>);
+}
+
+export function notConfigured(health: ProviderHealth): ProviderNotConfigured {
+  return {
+    success: false,
+    error: 'provider_not_configured',
+    provider: health.id,
+    state: health.state === 'ok' ? 'not_configured' : health.state,
+    message: health.message
+  };
+}
+
+// Called once at server start so a bad key shows up in the logs rather than on the first request
+export function logServerConfig(config: ServerConfig = getServerConfig()) {
+  providerHealth(config).forEach(health => {
+    if (health.state === 'ok') {
+      console.log(`✅ ${health.name}: ${health.message}${health.source === 'file' ? ' (from secret file)' : ''}`);
+    } else if (health.state === 'invalid') {
+      console.error(`❌ ${health.name}: ${health.message}`);
+    } else {
+      console.warn(`⚠️ ${health.name}: ${health.message}`);
+    }
+  });
+}
@@ -0,0 +1,31 @@
+// Local SQLite database shared by server-side stores. Import only from API routes and server code:
+// better-sqlite3 is a native module
+
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type SqliteDatabase = Database.Database;
+
+let database: SqliteDatabase | null = null;
+
+// DATABASE_PATH overrides the location; ':memory:' gives a throwaway database
+export function openDatabase(file: string = process.env.DATABASE_PATH || path.join(process.cwd(), '.nomado', 'nomado.db')): SqliteDatabase {
+  if (file !== ':memory:') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+  }
+
+  const db = new Database(file);
+  // Readers keep working while the indexer writes
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+export function getDatabase(): SqliteDatabase {
+  if (!database) {
+    database = openDatabase();
+    console.log(`🗄️ Opened database ${database.name}`);
+  }
+  return database;
+}
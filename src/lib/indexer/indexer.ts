@@ -0,0 +1,285 @@
+// Background indexer: follows TravelBooking events from a block cursor into the local database,
+// so booking history views never have to page through the contract over RPC
+
+import { TRAVEL_BOOKING_ABI } from '@/contracts/abis/TravelBooking';
+import { INDEXER_CONFIG } from '@/contracts/config';
+import { deployedContract } from '@/contracts/deployments';
+import { serverRpcUrls } from '@/lib/config/providers';
+import { getDatabase } from '@/lib/db/sqlite';
+import { ethers } from 'ethers';
+import { BookingIndexStore, type BlockRef, type BookingEvent, type BookingEventName } from './store';
+
+export const INDEXED_EVENTS: BookingEventName[] = [
+  'BookingCreated',
+  'BookingConfirmed',
+  'BookingCheckedIn',
+  'BookingCompleted',
+  'BookingCancelled',
+  'MetadataUpdate'
+];
+
+export interface IndexerOptions {
+  startBlock?: number;
+  batchSize?: number;
+  reorgDepth?: number;
+  pollIntervalMs?: number;
+}
+
+export interface IndexerStatus {
+  chainId: number;
+  contract: string;
+  running: boolean;
+  lastBlock: number | null;
+  headBlock: number | null;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  reorgs: number;
+}
+
+export class BookingIndexer {
+  private contract: ethers.Contract;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private syncing: Promise<number> | null = null;
+  private headBlock: number | null = null;
+  private lastError: string | null = null;
+  private reorgs = 0;
+  private options: Required<IndexerOptions>;
+
+  constructor(
+    readonly chainId: number,
+    readonly contractAddress: string,
+    private provider: ethers.Provider,
+    private store: BookingIndexStore,
+    options: IndexerOptions = {}
+  ) {
+    this.contract = new ethers.Contract(contractAddress, TRAVEL_BOOKING_ABI, provider);
+    this.options = {
+      startBlock: options.startBlock ?? INDEXER_CONFIG.START_BLOCKS[chainId] ?? 0,
+      batchSize: options.batchSize ?? INDEXER_CONFIG.BATCH_SIZE,
+      reorgDepth: options.reorgDepth ?? INDEXER_CONFIG.REORG_DEPTH,
+      pollIntervalMs: options.pollIntervalMs ?? INDEXER_CONFIG.POLL_INTERVAL_MS
+    };
+  }
+
+  start() {
+    if (this.timer) return;
+
+    const loop = async () => {
+      try {
+        // Keep going without waiting while there is a backlog to catch up on
+        const behind = await this.sync();
+        this.timer = setTimeout(loop, behind > 0 ? 0 : this.options.pollIntervalMs);
+      } catch {
+        this.timer = setTimeout(loop, this.options.pollIntervalMs);
+      }
+    };
+
+    console.log(`🔎 Indexing TravelBooking on chain ${this.chainId} from block ${this.options.startBlock}`);
+    this.timer = setTimeout(loop, 0);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Indexes one batch; resolves to how many blocks are still behind the head.
+  // Concurrent callers share the batch already in flight
+  sync(): Promise<number> {
+    if (!this.syncing) {
+      this.syncing = this.syncBatch()
+        .then(behind => {
+          this.lastError = null;
+          return behind;
+        })
+        .catch(error => {
+          this.lastError = error instanceof Error ? error.message : String(error);
+          console.error(`Booking indexer on chain ${this.chainId} failed:`, error);
+          throw error;
+        })
+        .finally(() => {
+          this.syncing = null;
+        });
+    }
+    return this.syncing;
+  }
+
+  status(): IndexerStatus {
+    const cursor = this.store.getCursor(this.chainId);
+    return {
+      chainId: this.chainId,
+      contract: this.contractAddress,
+      running: this.timer !== null,
+      lastBlock: cursor ? cursor.number : null,
+      headBlock: this.headBlock,
+      lastSyncedAt: cursor ? cursor.updatedAt : null,
+      lastError: this.lastError,
+      reorgs: this.reorgs
+    };
+  }
+
+  private async syncBatch(): Promise<number> {
+    const saved = this.store.getCursor(this.chainId);
+    let cursor: BlockRef | null = saved;
+    if (saved && saved.contract !== this.contractAddress.toLowerCase()) {
+      console.log(`🔁 TravelBooking moved to ${this.contractAddress} on chain ${this.chainId}; reindexing`);
+      this.store.reset(this.chainId);
+      cursor = null;
+    }
+
+    if (cursor) {
+      const current = await this.provider.getBlock(cursor.number);
+      if (!current || current.hash !== cursor.hash) {
+        cursor = await this.rollback();
+      }
+    }
+
+    const head = await this.provider.getBlockNumber();
+    this.headBlock = head;
+    const fromBlock = cursor ? cursor.number + 1 : this.options.startBlock;
+    if (fromBlock > head) {
+      return 0;
+    }
+    const toBlock = Math.min(head, fromBlock + this.options.batchSize - 1);
+
+    const [logs, tip] = await Promise.all([
+      this.provider.getLogs({
+        address: this.contractAddress,
+        fromBlock,
+        toBlock,
+        topics: [INDEXED_EVENTS.map(name => this.contract.interface.getEvent(name)!.topicHash)]
+      }),
+      this.provider.getBlock(toBlock)
+    ]);
+    if (!tip || !tip.hash) {
+      throw new Error(`Block ${toBlock} is not available yet`);
+    }
+
+    const events: BookingEvent[] = [];
+    const blocks = new Map<number, string>();
+    for (const log of logs) {
+      if (log.removed) continue;
+      const event = await this.toEvent(log);
+      if (event) {
+        events.push(event);
+        blocks.set(log.blockNumber, log.blockHash);
+      }
+    }
+
+    this.store.commit(
+      this.chainId,
+      this.contractAddress,
+      events,
+      Array.from(blocks.entries()).map(([number, hash]) => ({ number, hash })),
+      { number: toBlock, hash: tip.hash },
+      this.options.reorgDepth
+    );
+    if (events.length > 0) {
+      console.log(`🔎 Indexed ${events.length} booking event(s) in blocks ${fromBlock}-${toBlock} on chain ${this.chainId}`);
+    }
+    return head - toBlock;
+  }
+
+  // Walks back through the stored block hashes to the newest one the chain still agrees with
+  private async rollback(): Promise<BlockRef | null> {
+    this.reorgs++;
+    for (const block of this.store.recentBlocks(this.chainId)) {
+      const current = await this.provider.getBlock(block.number);
+      if (current && current.hash === block.hash) {
+        const affected = this.store.rollback(this.chainId, this.contractAddress, block);
+        console.warn(`⚠️ Reorg on chain ${this.chainId}: rolled back to block ${block.number}, rebuilt ${affected.length} booking(s)`);
+        return block;
+      }
+    }
+
+    // Deeper than the hashes we keep: start over rather than trust anything indexed
+    console.warn(`⚠️ Reorg on chain ${this.chainId} deeper than ${this.options.reorgDepth} blocks; reindexing`);
+    this.store.reset(this.chainId);
+    return null;
+  }
+
+  private async toEvent(log: ethers.Log): Promise<BookingEvent | null> {
+    const parsed = this.contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) {
+      return null;
+    }
+
+    const event: BookingEvent = {
+      chainId: this.chainId,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      logIndex: log.index,
+      txHash: log.transactionHash,
+      event: parsed.name as BookingEventName,
+      // The ticket id is the booking id
+      bookingId: Number(parsed.name === 'MetadataUpdate' ? parsed.args._tokenId : parsed.args.bookingId),
+      data: {}
+    };
+
+    if (event.event === 'BookingCancelled') {
+      event.data = { refundAmount: parsed.args.refundAmount.toString() };
+    } else if (event.event === 'MetadataUpdate') {
+      // The event only names the ticket, so the URI is read from the contract. Reading at the head
+      // rather than the event's block works without an archive node, and the last update indexed
+      // still leaves the current URI
+      const booking = await this.contract.getBooking(event.bookingId);
+      event.data = { metadataURI: booking.metadataURI };
+    } else if (event.event === 'BookingCreated') {
+      // Fields that never change after creation; status comes from the events themselves
+      const booking = await this.contract.getBooking(event.bookingId);
+      event.data = {
+        customer: booking.customer,
+        vendor: booking.vendor,
+        bookingType: booking.bookingType,
+        details: booking.details,
+        amount: booking.amount.toString(),
+        token: booking.token,
+        timestamp: Number(booking.timestamp),
+        checkInDate: Number(booking.checkInDate),
+        checkOutDate: Number(booking.checkOutDate),
+        metadataURI: booking.metadataURI
+      };
+    }
+    return event;
+  }
+}
+
+const indexers = new Map<number, BookingIndexer>();
+let indexStore: BookingIndexStore | null = null;
+
+export function getBookingIndexStore(): BookingIndexStore {
+  if (!indexStore) {
+    indexStore = new BookingIndexStore(getDatabase());
+  }
+  return indexStore;
+}
+
+// One indexer per chain with a deployed contract and a server RPC; null elsewhere
+export function getBookingIndexer(chainId: number): BookingIndexer | null {
+  const existing = indexers.get(chainId);
+  if (existing) {
+    return existing;
+  }
+
+  const contract = deployedContract(chainId);
+  const rpcUrl = serverRpcUrls()[chainId];
+  if (!contract || !rpcUrl) {
+    return null;
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  const indexer = new BookingIndexer(chainId, contract, provider, getBookingIndexStore());
+  indexers.set(chainId, indexer);
+  return indexer;
+}
+
+// Started from instrumentation.ts when the server boots
+export function startBookingIndexers(): BookingIndexer[] {
+  const started = Object.keys(serverRpcUrls())
+    .map(chainId => getBookingIndexer(Number(chainId)))
+    .filter((indexer): indexer is BookingIndexer => indexer !== null);
+  started.forEach(indexer => indexer.start());
+  return started;
+}
@@ -0,0 +1,393 @@
+// Bookings mirrored from TravelBooking events. Events are kept as the source of truth so a
+// reorganised chain can be rolled back and the affected bookings rebuilt by replaying them
+
+import { INDEXER_CONFIG } from '@/contracts/config';
+import type { SqliteDatabase } from '@/lib/db/sqlite';
+
+export type BookingEventName =
+  | 'BookingCreated'
+  | 'BookingConfirmed'
+  | 'BookingCheckedIn'
+  | 'BookingCompleted'
+  | 'BookingCancelled'
+  | 'MetadataUpdate'; // ERC-4906: the ticket's metadataURI was set
+
+// BookingCreated only carries a few fields, so the indexer reads the rest from getBooking
+export interface BookingCreatedData {
+  customer: string;
+  vendor: string;
+  bookingType: string;
+  details: string;
+  amount: string; // Base units
+  token: string;
+  timestamp: number;
+  checkInDate: number;
+  checkOutDate: number;
+  metadataURI: string;
+}
+
+export interface BookingEvent {
+  chainId: number;
+  blockNumber: number;
+  blockHash: string;
+  logIndex: number;
+  txHash: string;
+  event: BookingEventName;
+  bookingId: number;
+  data: Partial<BookingCreatedData> & { refundAmount?: string }; // MetadataUpdate carries metadataURI
+}
+
+export interface IndexedBooking extends BookingCreatedData {
+  chainId: number;
+  id: number;
+  status: number; // Same codes as the contract's BookingStatus
+  refundAmount: string | null;
+  createdBlock: number;
+  updatedBlock: number;
+}
+
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+export interface IndexerCursor extends BlockRef {
+  contract: string;
+  updatedAt: string;
+}
+
+export interface BookingQuery {
+  chainId: number;
+  customer?: string;
+  vendor?: string;
+  status?: number[];
+  bookingType?: string;
+  checkInFrom?: number; // Unix seconds
+  checkInTo?: number;
+  order?: 'newest' | 'oldest' | 'check_in';
+  limit?: number;
+  offset?: number;
+}
+
+export interface BookingPage {
+  bookings: IndexedBooking[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+}
+
+const MAX_PAGE_SIZE = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS indexed_bookings (
+    chain_id INTEGER NOT NULL,
+    booking_id INTEGER NOT NULL,
+    customer TEXT NOT NULL,
+    vendor TEXT NOT NULL,
+    booking_type TEXT NOT NULL,
+    details TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    token TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    check_in_date INTEGER NOT NULL,
+    check_out_date INTEGER NOT NULL,
+    status INTEGER NOT NULL,
+    metadata_uri TEXT NOT NULL,
+    refund_amount TEXT,
+    created_block INTEGER NOT NULL,
+    updated_block INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, booking_id)
+  );
+  CREATE INDEX IF NOT EXISTS indexed_bookings_customer ON indexed_bookings (chain_id, customer, booking_id);
+  CREATE INDEX IF NOT EXISTS indexed_bookings_vendor ON indexed_bookings (chain_id, vendor, booking_id);
+
+  CREATE TABLE IF NOT EXISTS booking_events (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    event TEXT NOT NULL,
+    booking_id INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (chain_id, block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS booking_events_booking ON booking_events (chain_id, booking_id);
+
+  CREATE TABLE IF NOT EXISTS indexer_blocks (
+    chain_id INTEGER NOT NULL,
+    number INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    PRIMARY KEY (chain_id, number)
+  );
+
+  CREATE TABLE IF NOT EXISTS indexer_cursors (
+    chain_id INTEGER PRIMARY KEY,
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+interface BookingRow {
+  chain_id: number;
+  booking_id: number;
+  customer: string;
+  vendor: string;
+  booking_type: string;
+  details: string;
+  amount: string;
+  token: string;
+  timestamp: number;
+  check_in_date: number;
+  check_out_date: number;
+  status: number;
+  metadata_uri: string;
+  refund_amount: string | null;
+  created_block: number;
+  updated_block: number;
+}
+
+interface EventRow {
+  chain_id: number;
+  block_number: number;
+  log_index: number;
+  block_hash: string;
+  tx_hash: string;
+  event: BookingEventName;
+  booking_id: number;
+  data: string;
+}
+
+const STATUS_BY_EVENT: Partial<Record<BookingEventName, number>> = {
+  BookingConfirmed: 1,
+  BookingCheckedIn: 2,
+  BookingCompleted: 3
+};
+
+export class BookingIndexStore {
+  constructor(private db: SqliteDatabase) {
+    db.exec(SCHEMA);
+  }
+
+  getCursor(chainId: number): IndexerCursor | null {
+    const row = this.db
+      .prepare('SELECT contract, block_number, block_hash, updated_at FROM indexer_cursors WHERE chain_id = ?')
+      .get(chainId) as { contract: string; block_number: number; block_hash: string; updated_at: string } | undefined;
+    return row ? { contract: row.contract, number: row.block_number, hash: row.block_hash, updatedAt: row.updated_at } : null;
+  }
+
+  // Newest first, for finding where a reorganised chain diverged
+  recentBlocks(chainId: number): BlockRef[] {
+    return this.db
+      .prepare('SELECT number, hash FROM indexer_blocks WHERE chain_id = ? ORDER BY number DESC')
+      .all(chainId) as BlockRef[];
+  }
+
+  // Forgets everything indexed for a chain, e.g. after the contract is redeployed
+  reset(chainId: number) {
+    this.db.transaction(() => {
+      for (const table of ['indexed_bookings', 'booking_events', 'indexer_blocks', 'indexer_cursors']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE chain_id = ?`).run(chainId);
+      }
+    })();
+  }
+
+  // One scanned block range: its events, the hashes needed to detect a later reorg, and the new cursor
+  commit(
+    chainId: number,
+    contract: string,
+    events: BookingEvent[],
+    blocks: BlockRef[],
+    cursor: BlockRef,
+    keepBlocks: number = INDEXER_CONFIG.REORG_DEPTH
+  ) {
+    const insertEvent = this.db.prepare(`
+      INSERT OR IGNORE INTO booking_events (chain_id, block_number, log_index, block_hash, tx_hash, event, booking_id, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertBlock = this.db.prepare('INSERT OR REPLACE INTO indexer_blocks (chain_id, number, hash) VALUES (?, ?, ?)');
+
+    this.db.transaction(() => {
+      for (const event of events) {
+        const inserted = insertEvent.run(
+          chainId, event.blockNumber, event.logIndex, event.blockHash, event.txHash, event.event, event.bookingId, JSON.stringify(event.data)
+        );
+        if (inserted.changes > 0) {
+          this.apply(event);
+        }
+      }
+      for (const block of blocks.concat(cursor)) {
+        insertBlock.run(chainId, block.number, block.hash);
+      }
+      this.db.prepare('DELETE FROM indexer_blocks WHERE chain_id = ? AND number < ?').run(chainId, cursor.number - keepBlocks);
+      this.setCursor(chainId, contract, cursor);
+    })();
+  }
+
+  // Drops everything after the common ancestor and rebuilds the bookings those events touched
+  rollback(chainId: number, contract: string, ancestor: BlockRef): number[] {
+    let affected: number[] = [];
+
+    this.db.transaction(() => {
+      affected = (this.db
+        .prepare('SELECT DISTINCT booking_id FROM booking_events WHERE chain_id = ? AND block_number > ?')
+        .all(chainId, ancestor.number) as { booking_id: number }[]).map(row => row.booking_id);
+
+      this.db.prepare('DELETE FROM booking_events WHERE chain_id = ? AND block_number > ?').run(chainId, ancestor.number);
+      this.db.prepare('DELETE FROM indexer_blocks WHERE chain_id = ? AND number > ?').run(chainId, ancestor.number);
+
+      for (const bookingId of affected) {
+        this.db.prepare('DELETE FROM indexed_bookings WHERE chain_id = ? AND booking_id = ?').run(chainId, bookingId);
+        this.getEvents(chainId, bookingId).forEach(event => this.apply(event));
+      }
+      this.setCursor(chainId, contract, ancestor);
+    })();
+
+    return affected;
+  }
+
+  getBooking(chainId: number, bookingId: number): IndexedBooking | null {
+    const row = this.db
+      .prepare('SELECT * FROM indexed_bookings WHERE chain_id = ? AND booking_id = ?')
+      .get(chainId, bookingId) as BookingRow | undefined;
+    return row ? this.toBooking(row) : null;
+  }
+
+  // A booking's history, oldest first
+  getEvents(chainId: number, bookingId: number): BookingEvent[] {
+    const rows = this.db
+      .prepare('SELECT * FROM booking_events WHERE chain_id = ? AND booking_id = ? ORDER BY block_number, log_index')
+      .all(chainId, bookingId) as EventRow[];
+    return rows.map(row => ({
+      chainId: row.chain_id,
+      blockNumber: row.block_number,
+      blockHash: row.block_hash,
+      logIndex: row.log_index,
+      txHash: row.tx_hash,
+      event: row.event,
+      bookingId: row.booking_id,
+      data: JSON.parse(row.data)
+    }));
+  }
+
+  queryBookings(query: BookingQuery): BookingPage {
+    const where: string[] = ['chain_id = ?'];
+    const params: (string | number)[] = [query.chainId];
+
+    if (query.customer) {
+      where.push('customer = ?');
+      params.push(query.customer.toLowerCase());
+    }
+    if (query.vendor) {
+      where.push('vendor = ?');
+      params.push(query.vendor.toLowerCase());
+    }
+    if (query.status && query.status.length > 0) {
+      where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+      params.push(...query.status);
+    }
+    if (query.bookingType) {
+      where.push('booking_type = ?');
+      params.push(query.bookingType);
+    }
+    if (query.checkInFrom !== undefined) {
+      where.push('check_in_date >= ?');
+      params.push(query.checkInFrom);
+    }
+    if (query.checkInTo !== undefined) {
+      where.push('check_in_date <= ?');
+      params.push(query.checkInTo);
+    }
+
+    const order = query.order === 'oldest'
+      ? 'booking_id ASC'
+      : query.order === 'check_in'
+        ? 'check_in_date ASC, booking_id ASC'
+        : 'booking_id DESC';
+    const limit = Math.min(Math.max(query.limit || 20, 1), MAX_PAGE_SIZE);
+    const offset = Math.max(query.offset || 0, 0);
+    const clause = where.join(' AND ');
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM indexed_bookings WHERE ${clause}`).get(...params) as { total: number };
+    const rows = this.db
+      .prepare(`SELECT * FROM indexed_bookings WHERE ${clause} ORDER BY ${order} LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as BookingRow[];
+
+    return {
+      bookings: rows.map(row => this.toBooking(row)),
+      total,
+      limit,
+      offset,
+      nextOffset: offset + rows.length < total ? offset + rows.length : null
+    };
+  }
+
+  private apply(event: BookingEvent) {
+    if (event.event === 'BookingCreated') {
+      const data = event.data as BookingCreatedData;
+      this.db.prepare(`
+        INSERT OR REPLACE INTO indexed_bookings (
+          chain_id, booking_id, customer, vendor, booking_type, details, amount, token, timestamp,
+          check_in_date, check_out_date, status, metadata_uri, refund_amount, created_block, updated_block
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, NULL, ?, ?)
+      `).run(
+        event.chainId, event.bookingId, data.customer.toLowerCase(), data.vendor.toLowerCase(), data.bookingType, data.details,
+        data.amount, data.token, data.timestamp, data.checkInDate, data.checkOutDate, data.metadataURI,
+        event.blockNumber, event.blockNumber
+      );
+      return;
+    }
+
+    const booking = this.getBooking(event.chainId, event.bookingId);
+    if (!booking) {
+      console.warn(`⚠️ ${event.event} for unindexed booking ${event.bookingId} on chain ${event.chainId}`);
+      return;
+    }
+
+    if (event.event === 'MetadataUpdate') {
+      this.db
+        .prepare('UPDATE indexed_bookings SET metadata_uri = ?, updated_block = ? WHERE chain_id = ? AND booking_id = ?')
+        .run(event.data.metadataURI ?? booking.metadataURI, event.blockNumber, event.chainId, event.bookingId);
+      return;
+    }
+
+    // Nothing kept back means the whole payment was returned
+    const status = event.event === 'BookingCancelled'
+      ? (event.data.refundAmount === booking.amount ? 5 : 4)
+      : STATUS_BY_EVENT[event.event];
+    this.db
+      .prepare('UPDATE indexed_bookings SET status = ?, refund_amount = ?, updated_block = ? WHERE chain_id = ? AND booking_id = ?')
+      .run(status, event.data.refundAmount ?? booking.refundAmount, event.blockNumber, event.chainId, event.bookingId);
+  }
+
+  private setCursor(chainId: number, contract: string, block: BlockRef) {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO indexer_cursors (chain_id, contract, block_number, block_hash, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(chainId, contract.toLowerCase(), block.number, block.hash, new Date().toISOString());
+  }
+
+  private toBooking(row: BookingRow): IndexedBooking {
+    return {
+      chainId: row.chain_id,
+      id: row.booking_id,
+      customer: row.customer,
+      vendor: row.vendor,
+      bookingType: row.booking_type,
+      details: row.details,
+      amount: row.amount,
+      token: row.token,
+      timestamp: row.timestamp,
+      checkInDate: row.check_in_date,
+      checkOutDate: row.check_out_date,
+      status: row.status,
+      metadataURI: row.metadata_uri,
+      refundAmount: row.refund_amount,
+      createdBlock: row.created_block,
+      updatedBlock: row.updated_block
+    };
+  }
+}
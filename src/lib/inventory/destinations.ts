@@ -0,0 +1,155 @@
+// Destination profiles for the mock inventory generator
+// Price levels, seasons and local flavour per destination; unknown places get a generated profile
+
+export type DestinationKind = 'beach' | 'city' | 'heritage' | 'nature';
+
+export interface DestinationProfile {
+  name: string;
+  kind: DestinationKind;
+  costIndex: number; // Multiplier on base prices; 1 = typical Indian tier-2 city
+  peakMonths: number[]; // 0-11
+  neighborhoods: string[];
+  tours: string[];
+  activities: string[];
+  tip: string;
+}
+
+export const DESTINATION_PROFILES: DestinationProfile[] = [
+  {
+    name: 'Goa',
+    kind: 'beach',
+    costIndex: 1,
+    peakMonths: [10, 11, 0, 1],
+    neighborhoods: ['Calangute', 'Baga', 'Anjuna', 'Candolim', 'Palolem', 'Panjim'],
+    tours: ['Old Goa Heritage Walk', 'North Goa Beach Hopping', 'Dudhsagar Falls Day Trip', 'Fontainhas Latin Quarter Tour'],
+    activities: ['Scuba Diving at Grande Island', 'Spice Plantation Visit', 'Sunset River Cruise', 'Parasailing at Baga'],
+    tip: 'Monsoon (June to September) brings the lowest prices, but many beach shacks close and the sea is rough.'
+  },
+  {
+    name: 'Mumbai',
+    kind: 'city',
+    costIndex: 1.25,
+    peakMonths: [10, 11, 0, 1],
+    neighborhoods: ['Colaba', 'Bandra', 'Juhu', 'Andheri', 'Lower Parel', 'Fort'],
+    tours: ['Dharavi Community Walk', 'Colonial Mumbai Heritage Tour', 'Mumbai Street Food Trail', 'Elephanta Caves Excursion'],
+    activities: ['Bollywood Studio Visit', 'Marine Drive Sunset Cycle', 'Sanjay Gandhi National Park Trek', 'Crawford Market Cooking Class'],
+    tip: 'Local trains are the fastest way around; avoid them at rush hour if you have luggage.'
+  },
+  {
+    name: 'Delhi',
+    kind: 'heritage',
+    costIndex: 1.05,
+    peakMonths: [9, 10, 1, 2],
+    neighborhoods: ['Connaught Place', 'Aerocity', 'Paharganj', 'Hauz Khas', 'Chanakyapuri', 'Karol Bagh'],
+    tours: ['Old Delhi Rickshaw Tour', 'Mughal Monuments Circuit', 'Taj Mahal Day Trip to Agra', 'Lutyens Delhi Drive'],
+    activities: ['Chandni Chowk Food Walk', 'Qutub Minar Light Show', 'Lodhi Art District Walk', 'Yamuna Birdwatching'],
+    tip: 'Winter smog peaks in November; February and March are clear and pleasant.'
+  },
+  {
+    name: 'Jaipur',
+    kind: 'heritage',
+    costIndex: 0.9,
+    peakMonths: [9, 10, 11, 0, 1],
+    neighborhoods: ['Pink City', 'C-Scheme', 'Amer', 'Malviya Nagar', 'Bani Park'],
+    tours: ['Amber Fort and Stepwells Tour', 'Pink City Bazaar Walk', 'Royal Palaces Circuit', 'Nahargarh Sunset Drive'],
+    activities: ['Hot Air Balloon over Amer', 'Block Printing Workshop', 'Elephant Village Visit', 'Rajasthani Cooking Class'],
+    tip: 'Summer afternoons pass 40°C; plan forts for early morning.'
+  },
+  {
+    name: 'Kerala',
+    kind: 'nature',
+    costIndex: 0.95,
+    peakMonths: [9, 10, 11, 0, 1],
+    neighborhoods: ['Fort Kochi', 'Alleppey', 'Munnar', 'Kumarakom', 'Varkala', 'Thekkady'],
+    tours: ['Alleppey Houseboat Cruise', 'Munnar Tea Estate Tour', 'Fort Kochi Heritage Walk', 'Periyar Wildlife Safari'],
+    activities: ['Kathakali Performance', 'Ayurvedic Spa Session', 'Backwater Kayaking', 'Spice Garden Trek'],
+    tip: 'Houseboats book out for Onam and Christmas; reserve at least a month ahead.'
+  },
+  {
+    name: 'Bangalore',
+    kind: 'city',
+    costIndex: 1.1,
+    peakMonths: [9, 10, 11, 0, 1],
+    neighborhoods: ['MG Road', 'Indiranagar', 'Koramangala', 'Whitefield', 'Malleshwaram'],
+    tours: ['Bangalore Palace and Gardens Tour', 'Craft Brewery Trail', 'Nandi Hills Sunrise Trip', 'Mysore Day Excursion'],
+    activities: ['Cubbon Park Cycling', 'Filter Coffee Workshop', 'Rock Climbing at Ramanagara', 'VV Puram Food Street Crawl'],
+    tip: 'Traffic is heavy at peak hours; the metro covers most central neighbourhoods.'
+  },
+  {
+    name: 'Dubai',
+    kind: 'city',
+    costIndex: 1.9,
+    peakMonths: [10, 11, 0, 1, 2],
+    neighborhoods: ['Downtown', 'Dubai Marina', 'Jumeirah', 'Deira', 'Palm Jumeirah', 'Business Bay'],
+    tours: ['Desert Safari with Dinner', 'Old Dubai Souks and Abra Ride', 'Burj Khalifa and Downtown Tour', 'Abu Dhabi Day Trip'],
+    activities: ['Skydive over the Palm', 'Dhow Dinner Cruise', 'Indoor Skiing', 'Hot Air Balloon Sunrise'],
+    tip: 'Summer hotel rates drop sharply, but midday temperatures make outdoor sightseeing hard.'
+  },
+  {
+    name: 'Singapore',
+    kind: 'city',
+    costIndex: 2,
+    peakMonths: [5, 6, 11],
+    neighborhoods: ['Marina Bay', 'Orchard', 'Chinatown', 'Sentosa', 'Little India', 'Clarke Quay'],
+    tours: ['Gardens by the Bay Night Tour', 'Hawker Centre Food Trail', 'Sentosa Island Day Pass', 'Heritage Districts Walk'],
+    activities: ['Night Safari', 'Singapore River Cruise', 'Universal Studios Entry', 'Peranakan Cooking Class'],
+    tip: 'The MRT reaches almost everything; an EZ-Link card saves queuing for tickets.'
+  },
+  {
+    name: 'London',
+    kind: 'city',
+    costIndex: 2.4,
+    peakMonths: [5, 6, 7, 11],
+    neighborhoods: ['Westminster', 'Kensington', 'Covent Garden', 'Shoreditch', 'Southwark', 'Paddington'],
+    tours: ['Royal London Walking Tour', 'Thames River Cruise', 'Harry Potter Studio Tour', 'Stonehenge and Bath Day Trip'],
+    activities: ['West End Show', 'Borough Market Food Tour', 'Tower of London Entry', 'London Eye Flight'],
+    tip: 'Contactless payment works on all transport and is capped daily, so skip paper tickets.'
+  },
+  {
+    name: 'Paris',
+    kind: 'city',
+    costIndex: 2.2,
+    peakMonths: [4, 5, 6, 7],
+    neighborhoods: ['Le Marais', 'Saint-Germain', 'Montmartre', 'Latin Quarter', 'Champs-Élysées', 'Bastille'],
+    tours: ['Louvre Highlights Tour', 'Seine Evening Cruise', 'Versailles Day Trip', 'Montmartre Art Walk'],
+    activities: ['Eiffel Tower Summit Access', 'French Pastry Class', 'Wine Tasting in Le Marais', 'Bike Tour of Paris'],
+    tip: 'Many museums are free on the first Sunday of the month, and busy because of it.'
+  },
+  {
+    name: 'Tokyo',
+    kind: 'city',
+    costIndex: 2,
+    peakMonths: [2, 3, 9, 10],
+    neighborhoods: ['Shinjuku', 'Shibuya', 'Asakusa', 'Ginza', 'Roppongi', 'Ueno'],
+    tours: ['Asakusa and Senso-ji Walk', 'Mount Fuji Day Trip', 'Tsukiji Outer Market Tour', 'Nikko Shrines Excursion'],
+    activities: ['Sumo Morning Practice', 'Tea Ceremony Experience', 'teamLab Digital Art Museum', 'Go-Kart Street Tour'],
+    tip: 'Cherry blossom season (late March to early April) is the busiest and priciest time to visit.'
+  },
+  {
+    name: 'New York',
+    kind: 'city',
+    costIndex: 2.6,
+    peakMonths: [5, 6, 11],
+    neighborhoods: ['Midtown', 'Lower Manhattan', 'SoHo', 'Upper West Side', 'Brooklyn Heights', 'Chelsea'],
+    tours: ['Statue of Liberty and Ellis Island', 'Central Park Walking Tour', 'Brooklyn Bridge and DUMBO', 'Harlem Gospel Tour'],
+    activities: ['Broadway Show', 'Top of the Rock Observation Deck', 'Chelsea Market Food Crawl', 'Hudson River Kayaking'],
+    tip: 'January and February have the lowest hotel rates, if you can handle the cold.'
+  }
+];
+
+const PROFILE_ALIASES: Record<string, string> = {
+  bombay: 'Mumbai',
+  'new delhi': 'Delhi',
+  bengaluru: 'Bangalore',
+  kochi: 'Kerala',
+  cochin: 'Kerala',
+  munnar: 'Kerala',
+  alleppey: 'Kerala',
+  nyc: 'New York'
+};
+
+export function findDestinationProfile(destination: string): DestinationProfile | null {
+  const name = destination.trim().toLowerCase();
+  const canonical = (PROFILE_ALIASES[name] || name).toLowerCase();
+  return DESTINATION_PROFILES.find(profile => profile.name.toLowerCase() === canonical) || null;
+}
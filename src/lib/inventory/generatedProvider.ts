@@ -0,0 +1,53 @@
+// Seeded demo inventory as a provider: hotels, flights, tours and activities for any destination
+
+import { searchFlights } from '@/lib/mcp/flights';
+import type { TravelRecommendation } from '@/lib/mcp/server';
+import { InventoryGenerator } from './generator';
+import { BaseInventoryProvider, type InventoryQuery, type OfferType } from './provider';
+
+export class GeneratedInventoryProvider extends BaseInventoryProvider {
+  readonly id = 'nomado';
+  readonly name = 'Nomado demo inventory';
+  readonly types: OfferType[] = ['hotel', 'flight', 'tour', 'activity'];
+
+  constructor(private inventory: InventoryGenerator = new InventoryGenerator()) {
+    super();
+  }
+
+  protected async searchItems(query: InventoryQuery): Promise<TravelRecommendation[]> {
+    if (query.type === 'flight') {
+      // Throws on incomplete or impossible routes; the registry reports it per provider
+      return searchFlights(query, this.inventory);
+    }
+
+    // Generated properties have no coordinates to match a "near me" search against
+    if (!query.destination || query.near) {
+      return [];
+    }
+
+    switch (query.type) {
+      case 'hotel':
+        return this.inventory.hotels({
+          destination: query.destination,
+          checkIn: query.checkIn,
+          checkOut: query.checkOut,
+          guests: query.guests,
+          budget: query.budget
+        });
+      case 'tour':
+        return this.inventory.tours({
+          destination: query.destination,
+          date: query.date,
+          groupSize: query.groupSize,
+          budget: query.budget
+        });
+      default:
+        return this.inventory.activities({
+          destination: query.destination,
+          date: query.date,
+          groupSize: query.groupSize,
+          budget: query.budget
+        });
+    }
+  }
+}
@@ -0,0 +1,384 @@
+// Seeded travel inventory generator
+// The same seed, destination and dates always produce the same hotels, tours, activities,
+// prices and availability, so demo data stays stable across reloads and in snapshot tests
+
+import type { TravelRecommendation } from '@/lib/mcp/server';
+import { fxService } from '@/lib/money/fx';
+import type { CurrencyCode } from '@/lib/money/money';
+import { findDestinationProfile, type DestinationKind, type DestinationProfile } from './destinations';
+
+export interface InventoryOptions {
+  seed?: string;
+  currency?: CurrencyCode; // Prices are authored in USD and converted through the FX service
+  referenceDate?: string; // YYYY-MM-DD that default dates count from; defaults to today
+}
+
+export interface Season {
+  name: 'peak' | 'shoulder' | 'off';
+  factor: number;
+}
+
+export interface HotelQuery {
+  destination: string;
+  checkIn?: string;
+  checkOut?: string;
+  guests?: number;
+  budget?: number; // Per night
+}
+
+export interface ExperienceQuery {
+  destination: string;
+  date?: string;
+  groupSize?: number;
+  budget?: number; // Per person
+}
+
+const SEASON_FACTORS: Record<Season['name'], number> = {
+  peak: 1.35,
+  shoulder: 1.1,
+  off: 0.85
+};
+
+const HOTEL_TIERS = [
+  { stars: 2, baseRate: 28, suffixes: ['Inn', 'Residency', 'Stay'], roomType: 'Standard Room', amenities: ['WiFi', 'Air Conditioning', '24h Front Desk'] },
+  { stars: 3, baseRate: 65, suffixes: ['Hotel', 'Suites', 'Comforts'], roomType: 'Superior Room', amenities: ['WiFi', 'Restaurant', 'Gym', 'Room Service'] },
+  { stars: 4, baseRate: 110, suffixes: ['Boutique Hotel', 'House', 'Heritage Stay'], roomType: 'Deluxe Room', amenities: ['WiFi', 'Restaurant', 'Concierge', 'Rooftop Bar'] },
+  { stars: 5, baseRate: 210, suffixes: ['Grand Hotel', 'Palace', 'Luxury Collection'], roomType: 'Premier Suite', amenities: ['WiFi', 'Pool', 'Spa', 'Fine Dining', 'Gym', 'Butler Service'] }
+];
+
+// Fifth property for beach and nature destinations
+const RESORT_TIER = {
+  stars: 5, baseRate: 240, suffixes: ['Beach Resort & Spa', 'Resort & Retreat'], roomType: 'Garden Villa',
+  amenities: ['Pool', 'Spa', 'WiFi', 'Restaurant', 'Private Beach', 'Yoga Deck']
+};
+
+const HOTEL_BRANDS = ['Sea Breeze', 'Palm Grove', 'Royal Orchid', 'Silver Sands', 'Urban Nest', 'Lotus', 'Sapphire', 'Maple', 'Horizon', 'Banyan', 'Ivory', 'Coral Bay'];
+
+const HOTEL_IMAGES = [
+  'https://images.unsplash.com/photo-1566073771259-6a8506099945',
+  'https://images.unsplash.com/photo-1551882547-ff40c63fe5fa',
+  'https://images.unsplash.com/photo-1520250497591-112f2f40a3f4',
+  'https://images.unsplash.com/photo-1571896349842-33c89424de2d'
+];
+
+const TOUR_DURATIONS = ['3 hours', '4 hours', 'Half day', '6 hours', 'Full day'];
+const ACTIVITY_DURATIONS = ['1.5 hours', '2 hours', '3 hours', '4 hours'];
+const START_TIMES = ['07:00', '08:30', '09:30', '14:00', '16:30'];
+
+const GENERAL_ADVICE = [
+  'Pack light and bring versatile clothing that can be layered.',
+  'Always have travel insurance and keep digital copies of important documents.',
+  'Learn a few basic phrases in the local language - locals appreciate the effort!',
+  'Research local customs and tipping practices before you go.'
+];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// FNV-1a, to turn seed strings into 32-bit RNG state
+function hashSeed(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Mulberry32: small, fast and good enough for mock data
+export function seededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function between(random: () => number, min: number, max: number): number {
+  return min + random() * (max - min);
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function shuffle<T>(random: () => number, items: T[]): T[] {
+  const result = items.slice();
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function slug(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+function nightsBetween(checkIn: string, checkOut: string): string[] {
+  const nights: string[] = [];
+  for (let night = checkIn; night < checkOut && nights.length < 30; night = addDays(night, 1)) {
+    nights.push(night);
+  }
+  return nights.length > 0 ? nights : [checkIn];
+}
+
+// Keeps what fits the budget; if nothing does, the cheapest option shows how far off it is
+function withinBudget<T extends { price: number }>(items: T[], budget?: number): T[] {
+  if (!budget) return items;
+  const affordable = items.filter(item => item.price <= budget);
+  return affordable.length > 0 ? affordable : items.slice().sort((a, b) => a.price - b.price).slice(0, 1);
+}
+
+export class InventoryGenerator {
+  readonly seed: string;
+  readonly currency: CurrencyCode;
+  private referenceDate?: string;
+
+  constructor(options: InventoryOptions = {}) {
+    this.seed = options.seed || 'nomado';
+    this.currency = options.currency || 'USD';
+    this.referenceDate = options.referenceDate;
+  }
+
+  // Independent random stream per purpose, e.g. random('hotel', 'goa', '2025-12-01')
+  random(...keys: Array<string | number>): () => number {
+    return seededRandom([this.seed, ...keys].join(':'));
+  }
+
+  // USD amount in this generator's currency, rounded to whole units
+  convert(usd: number): number {
+    return Math.round(fxService.convertAmount(usd, 'USD', this.currency));
+  }
+
+  // Default travel date: a week after the reference date
+  defaultDate(): string {
+    return addDays(this.referenceDate || new Date().toISOString().split('T')[0], 7);
+  }
+
+  profile(destination: string): DestinationProfile {
+    const known = findDestinationProfile(destination);
+    if (known) return known;
+
+    // Unknown destination: a stable made-up profile so it still gets believable inventory
+    const name = destination.trim();
+    const random = this.random('profile', slug(name));
+    const peakStart = Math.floor(random() * 12);
+    const kinds: DestinationKind[] = ['city', 'beach', 'heritage', 'nature'];
+
+    return {
+      name,
+      kind: pick(random, kinds),
+      costIndex: Math.round(between(random, 0.8, 1.6) * 100) / 100,
+      peakMonths: [peakStart, (peakStart + 1) % 12, (peakStart + 2) % 12],
+      neighborhoods: ['City Centre', 'Old Town', 'Riverside', 'Market District', 'Station Area'],
+      tours: [`${name} Highlights Tour`, `${name} Old Town Walk`, `${name} Food Trail`, `Day Trip from ${name}`],
+      activities: [`Cooking Class in ${name}`, `${name} Bike Tour`, 'Sunset Viewpoint Hike', 'Local Crafts Workshop'],
+      tip: 'Book a few weeks ahead for weekends and local holidays.'
+    };
+  }
+
+  season(destination: string, date: string): Season {
+    const month = Number(date.slice(5, 7)) - 1;
+    const peakMonths = this.profile(destination).peakMonths;
+
+    let name: Season['name'] = 'off';
+    if (peakMonths.indexOf(month) !== -1) {
+      name = 'peak';
+    } else if (peakMonths.indexOf((month + 1) % 12) !== -1 || peakMonths.indexOf((month + 11) % 12) !== -1) {
+      name = 'shoulder';
+    }
+    return { name, factor: SEASON_FACTORS[name] };
+  }
+
+  hotels(query: HotelQuery): TravelRecommendation[] {
+    const profile = this.profile(query.destination);
+    const key = slug(profile.name);
+    const checkIn = query.checkIn || this.defaultDate();
+    const nights = nightsBetween(checkIn, query.checkOut || addDays(checkIn, 1));
+    const rooms = Math.ceil((query.guests || 1) / 2);
+
+    const tiers = profile.kind === 'beach' || profile.kind === 'nature'
+      ? [...HOTEL_TIERS, RESORT_TIER]
+      : [...HOTEL_TIERS, HOTEL_TIERS[1]];
+
+    // The property list depends only on seed and destination; rates and rooms vary by night
+    const catalogue = this.random('hotels', key);
+    const brands = shuffle(catalogue, HOTEL_BRANDS);
+
+    const hotels = tiers.map((tier, index) => {
+      const propertyId = `hotel-${key}-${index + 1}`;
+      // Rates and rooms depend on the stay and party, so each stay gets its own offer id
+      const id = `${propertyId}_${nights[0]}_${addDays(nights[nights.length - 1], 1)}_${query.guests || 1}g`;
+      const neighborhood = pick(catalogue, profile.neighborhoods);
+      const propertyFactor = between(catalogue, 0.85, 1.2);
+      const rating = Math.min(4.9, Math.round((3.2 + tier.stars * 0.3 + catalogue() * 0.3) * 10) / 10);
+
+      const nightlyRates = nights.map(night => {
+        const daily = this.random('hotel-night', propertyId, night);
+        const season = this.season(profile.name, night);
+        const weekday = new Date(`${night}T00:00:00Z`).getUTCDay();
+        const weekend = weekday === 5 || weekday === 6 ? 1.12 : 1;
+        const roomsLeft = Math.max(0, Math.floor(daily() * 16) - (season.name === 'peak' ? 3 : season.name === 'shoulder' ? 1 : 0));
+        const usd = tier.baseRate * profile.costIndex * propertyFactor * season.factor * weekend * between(daily, 0.93, 1.07);
+        return { date: night, price: this.convert(usd), roomsLeft, season: season.name };
+      });
+
+      const total = nightlyRates.reduce((sum, rate) => sum + rate.price, 0);
+      const roomsLeft = Math.min(...nightlyRates.map(rate => rate.roomsLeft));
+
+      return {
+        id,
+        title: `${brands[index % brands.length]} ${pick(catalogue, tier.suffixes)}`,
+        description: `${tier.stars}-star ${tier.roomType.toLowerCase()} stay in ${neighborhood}`,
+        price: Math.round(total / nightlyRates.length), // Average per night
+        currency: this.currency,
+        rating,
+        location: `${neighborhood}, ${profile.name}`,
+        images: [HOTEL_IMAGES[index % HOTEL_IMAGES.length]],
+        amenities: tier.amenities,
+        availability: roomsLeft >= rooms,
+        type: 'hotel' as const,
+        details: {
+          propertyId,
+          checkIn: nights[0],
+          checkOut: addDays(nights[nights.length - 1], 1),
+          nights: nightlyRates.length,
+          rooms,
+          roomType: tier.roomType,
+          starRating: tier.stars,
+          roomsLeft,
+          season: nightlyRates[0].season,
+          nightlyRates,
+          totalPrice: total * rooms
+        }
+      };
+    });
+
+    return withinBudget(hotels, query.budget).sort((a, b) => b.rating - a.rating);
+  }
+
+  tours(query: ExperienceQuery): TravelRecommendation[] {
+    return this.experiences('tour', query);
+  }
+
+  activities(query: ExperienceQuery): TravelRecommendation[] {
+    return this.experiences('activity', query);
+  }
+
+  itinerary(destination: string, duration: number, interests: string[] = []) {
+    const profile = this.profile(destination);
+    const start = this.defaultDate();
+    const hotel = this.hotels({ destination, checkIn: start, checkOut: addDays(start, duration) })
+      .filter(option => option.details.starRating === 3)[0];
+    const experiences = [...profile.tours, ...profile.activities];
+
+    // Experiences matching the traveller's interests go first
+    const matches = (name: string) => interests.some(interest => name.toLowerCase().indexOf(interest.toLowerCase()) !== -1);
+    const ordered = [...experiences.filter(matches), ...experiences.filter(name => !matches(name))];
+
+    const dailyPlan = Array.from({ length: duration }, (_, i) => {
+      const date = addDays(start, i);
+      const random = this.random('itinerary', slug(profile.name), date);
+      const morning = ordered[(i * 2) % ordered.length];
+      const afternoon = ordered[(i * 2 + 1) % ordered.length];
+      const mealsAndTransport = 25 * profile.costIndex * between(random, 0.9, 1.2);
+      const experienceCost = 2 * 40 * profile.costIndex * this.season(profile.name, date).factor;
+
+      return {
+        day: i + 1,
+        date,
+        title: i === 0 ? `Day 1: Arrive in ${profile.name}` : `Day ${i + 1}: ${morning}`,
+        activities: [
+          `Morning: ${morning}`,
+          `Afternoon: ${afternoon}`,
+          `Evening: Dinner in ${profile.neighborhoods[i % profile.neighborhoods.length]}`
+        ],
+        estimatedCost: this.convert(mealsAndTransport + experienceCost) + (hotel ? hotel.details.nightlyRates[i]?.price || hotel.price : 0)
+      };
+    });
+
+    return {
+      destination: profile.name,
+      duration: `${duration} days`,
+      overview: `Complete ${duration}-day itinerary for ${profile.name}`,
+      accommodation: hotel ? { id: hotel.id, title: hotel.title, location: hotel.location } : undefined,
+      dailyPlan,
+      totalEstimatedCost: dailyPlan.reduce((sum, day) => sum + day.estimatedCost, 0),
+      currency: this.currency
+    };
+  }
+
+  advice(query: string, destination?: string): string {
+    if (query.toLowerCase().includes('budget')) {
+      return 'For budget travel, consider staying in hostels, eating at local markets, and using public transportation.';
+    }
+
+    const random = this.random('advice', slug(destination || ''), slug(query));
+    if (!destination) {
+      return pick(random, GENERAL_ADVICE);
+    }
+
+    const profile = this.profile(destination);
+    const peak = profile.peakMonths.map(month => MONTH_NAMES[month]).join(', ');
+    const seasonal = `Peak season in ${profile.name} is ${peak}, when prices run about ${Math.round((SEASON_FACTORS.peak - 1) * 100)}% higher; ` +
+      'the shoulder months either side offer better prices and fewer crowds.';
+
+    return pick(random, [seasonal, profile.tip, ...GENERAL_ADVICE]);
+  }
+
+  private experiences(type: 'tour' | 'activity', query: ExperienceQuery): TravelRecommendation[] {
+    const profile = this.profile(query.destination);
+    const key = slug(profile.name);
+    const date = query.date || this.defaultDate();
+    const season = this.season(profile.name, date);
+    const groupSize = query.groupSize || 1;
+    const names = type === 'tour' ? profile.tours : profile.activities;
+    const catalogue = this.random(`${type}s`, key);
+
+    const results = names.map((name, index) => {
+      const productId = `${type}-${key}-${index + 1}`;
+      const id = `${productId}_${date}_${groupSize}p`;
+      const daily = this.random(`${type}-day`, productId, date);
+      const baseRate = type === 'tour' ? between(catalogue, 30, 80) : between(catalogue, 15, 60);
+      const capacity = 8 + Math.floor(catalogue() * 13);
+      const spotsLeft = Math.max(0, Math.floor(daily() * (capacity + 1)) - (season.name === 'peak' ? 3 : 0));
+      const price = this.convert(baseRate * profile.costIndex * season.factor * between(daily, 0.95, 1.05));
+
+      return {
+        id,
+        title: name,
+        description: type === 'tour'
+          ? `Guided ${profile.kind} tour in ${profile.name} with a local expert`
+          : `Hands-on ${profile.kind} experience in ${profile.name}`,
+        price, // Per person
+        currency: this.currency,
+        rating: Math.round(between(catalogue, 4.2, 4.9) * 10) / 10,
+        location: profile.name,
+        images: ['https://images.unsplash.com/photo-1539650116574-75c0c6d0e04f'],
+        availability: spotsLeft >= groupSize,
+        type,
+        details: {
+          productId,
+          date,
+          startTime: pick(catalogue, START_TIMES),
+          duration: pick(catalogue, type === 'tour' ? TOUR_DURATIONS : ACTIVITY_DURATIONS),
+          groupSize: `Max ${capacity} people`,
+          spotsLeft,
+          season: season.name,
+          includes: type === 'tour' ? ['Guide', 'Transportation', 'Entry Fees'] : ['Equipment', 'Instructor'],
+          totalPrice: price * groupSize
+        }
+      };
+    });
+
+    return withinBudget(results, query.budget);
+  }
+}
@@ -0,0 +1,84 @@
+// The curated hotel directory (src/utils/mockHotels.ts) as a provider
+// Real named properties with coordinates, so it also answers "near me" searches
+
+import type { TravelRecommendation } from '@/lib/mcp/server';
+import { fxService } from '@/lib/money/fx';
+import type { CurrencyCode } from '@/lib/money/money';
+import type { HotelFacets, ScoredHotel } from '@/utils/hotelSearch';
+import {
+  searchHotels,
+  searchHotelsNearLocation,
+  type MockHotel,
+  type NearbyHotel
+} from '@/utils/mockHotels';
+import { BaseInventoryProvider, type InventoryQuery, type OfferType } from './provider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class HotelDirectoryProvider extends BaseInventoryProvider {
+  readonly id = 'directory';
+  readonly name = 'Nomado hotel directory';
+  readonly types: OfferType[] = ['hotel'];
+
+  constructor(private currency: CurrencyCode = 'INR') {
+    super();
+  }
+
+  protected async searchItems(query: InventoryQuery): Promise<TravelRecommendation[]> {
+    const limit = query.limit || 20;
+    let hotels: (MockHotel | NearbyHotel | ScoredHotel)[] = [];
+
+    if (query.near) {
+      hotels = searchHotelsNearLocation(query.near.lat, query.near.lng, query.near.radiusKm, limit);
+    } else if (query.destination) {
+      hotels = searchHotels(query.destination, { amenities: query.amenities, hotelType: query.hotelType, limit }).hotels;
+    }
+
+    const results = hotels.map(hotel => this.toRecommendation(hotel, query));
+    return query.budget ? results.filter(result => result.price <= query.budget!) : results;
+  }
+
+  // Amenity and hotel type counts for a destination search, for filter chips next to the results
+  facets(query: InventoryQuery): HotelFacets {
+    return searchHotels(query.destination || '', { amenities: query.amenities, hotelType: query.hotelType }).facets;
+  }
+
+  private toRecommendation(hotel: MockHotel | NearbyHotel | ScoredHotel, query: InventoryQuery): TravelRecommendation {
+    const price = Math.round(fxService.convertAmount(hotel.pricePerNight, hotel.currency, this.currency));
+    const nights = query.checkIn && query.checkOut
+      ? Math.max(1, Math.round((Date.parse(query.checkOut) - Date.parse(query.checkIn)) / DAY_MS))
+      : 1;
+    const rooms = Math.ceil((query.guests || 1) / 2);
+
+    return {
+      // The price depends on the stay and party, so each gets its own offer id
+      id: `${hotel.id}_${query.checkIn || 'any'}_${query.checkOut || 'any'}_${query.guests || 1}g`,
+      title: hotel.name,
+      description: hotel.description,
+      price, // Per night
+      currency: this.currency,
+      rating: hotel.rating,
+      location: hotel.address,
+      images: hotel.photos,
+      amenities: hotel.amenities,
+      availability: true,
+      type: 'hotel',
+      details: {
+        propertyId: hotel.id,
+        checkIn: query.checkIn,
+        checkOut: query.checkOut,
+        nights,
+        rooms,
+        reviewCount: hotel.reviewCount,
+        hotelType: hotel.hotelType,
+        coordinates: hotel.location,
+        distanceKm: 'distanceKm' in hotel ? Math.round(hotel.distanceKm * 10) / 10 : undefined, // "Near me" searches only
+        relevance: 'score' in hotel ? hotel.score : undefined, // Destination searches only
+        totalPrice: price * nights * rooms
+      }
+    };
+  }
+}
+
+// Export singleton instance
+export const hotelDirectory = new HotelDirectoryProvider();
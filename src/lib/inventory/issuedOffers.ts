@@ -0,0 +1,52 @@
+// Server-side only: the booking options this server has shown to travellers. Anything priced or
+// paid out later (bridge settlement) is looked up here by id instead of trusting the option a
+// client posts back, so a tampered price, title or supplier never reaches the payout
+
+import { getDatabase, type SqliteDatabase } from '@/lib/db/sqlite';
+import type { BookingOption } from '@/types';
+
+const ISSUED_OFFER_TTL_MS = 24 * 60 * 60 * 1000; // Long enough to review, quote and pay
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS issued_offers (
+    id TEXT PRIMARY KEY,
+    option TEXT NOT NULL,
+    issued_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS issued_offers_issued_at ON issued_offers (issued_at);
+`;
+
+export class IssuedOfferStore {
+  constructor(private db: SqliteDatabase, private ttlMs: number = ISSUED_OFFER_TTL_MS) {
+    this.db.exec(SCHEMA);
+  }
+
+  // A re-issued id takes the latest price; settlement turns away payments quoted at an older one
+  remember(options: BookingOption[]) {
+    const now = Date.now();
+    const insert = this.db.prepare(
+      'INSERT INTO issued_offers (id, option, issued_at) VALUES (?, ?, ?) ' +
+      'ON CONFLICT (id) DO UPDATE SET option = excluded.option, issued_at = excluded.issued_at'
+    );
+    this.db.transaction(() => {
+      options.forEach(option => insert.run(option.id, JSON.stringify(option), now));
+      this.db.prepare('DELETE FROM issued_offers WHERE issued_at < ?').run(now - this.ttlMs);
+    })();
+  }
+
+  get(id: string): BookingOption | null {
+    const row = this.db
+      .prepare('SELECT option FROM issued_offers WHERE id = ? AND issued_at >= ?')
+      .get(id, Date.now() - this.ttlMs) as { option: string } | undefined;
+    return row ? JSON.parse(row.option) : null;
+  }
+}
+
+let issuedOffers: IssuedOfferStore | null = null;
+
+export function getIssuedOffers(): IssuedOfferStore {
+  if (!issuedOffers) {
+    issuedOffers = new IssuedOfferStore(getDatabase());
+  }
+  return issuedOffers;
+}
@@ -0,0 +1,315 @@
+// Inventory provider contract for Nomado AI
+// Every source of bookable travel (generated demo inventory, the hotel directory, real suppliers later)
+// implements search, quote, hold and book, and returns offers in one canonical shape
+
+import type { FlightSearchArgs } from '@/lib/mcp/flights';
+import type { TravelRecommendation } from '@/lib/mcp/server';
+import { fxService } from '@/lib/money/fx';
+import { money, type Money } from '@/lib/money/money';
+import type { BookingOption, FlightLeg, PassengerFare } from '@/types';
+import type { HotelType } from '@/utils/hotelSearch';
+
+export type OfferType = TravelRecommendation['type'];
+
+export interface InventoryQuery extends FlightSearchArgs {
+  type: OfferType;
+  destination?: string;
+  checkIn?: string; // Hotels
+  checkOut?: string;
+  guests?: number;
+  date?: string; // Tours and activities
+  groupSize?: number;
+  near?: { lat: number; lng: number; radiusKm?: number };
+  amenities?: string[]; // Hotel directory facets
+  hotelType?: HotelType;
+  limit?: number; // Per provider
+}
+
+// Canonical offer: a TravelRecommendation tagged with its provider, so it still fits the MCP wire format
+export interface InventoryOffer extends TravelRecommendation {
+  provider: string;
+  ref: string; // Provider-local id; `id` is `${provider}:${ref}`
+  totalPrice: number; // Whole stay, group or passenger list, in `currency`
+  remaining?: number; // Rooms, seats or spots left, when the provider knows
+  inventoryKeys: string[]; // The dated stock a booking takes from; see inventoryKeys()
+}
+
+export interface InventoryQuote {
+  id: string;
+  provider: string;
+  offer: InventoryOffer;
+  total: Money;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface InventoryHold {
+  id: string;
+  provider: string;
+  quoteId: string;
+  offerId: string;
+  inventoryKeys: string[];
+  total: Money;
+  status: 'held' | 'booked';
+  expiresAt: string;
+}
+
+export interface Traveller {
+  name?: string;
+  email?: string;
+  walletAddress?: string;
+}
+
+export interface InventoryBooking {
+  id: string;
+  provider: string;
+  holdId: string;
+  offerId: string;
+  reference: string; // Shown to the traveller and the supplier
+  total: Money;
+  status: 'confirmed';
+  traveller?: Traveller;
+  bookedAt: string;
+}
+
+export interface InventoryProvider {
+  id: string;
+  name: string;
+  types: OfferType[];
+  search(query: InventoryQuery): Promise<InventoryOffer[]>;
+  quote(offerId: string): Promise<InventoryQuote>;
+  hold(quoteId: string): Promise<InventoryHold>;
+  book(holdId: string, traveller?: Traveller): Promise<InventoryBooking>;
+}
+
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+const HOLD_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_OFFERS = 5000; // Searched offers remembered for quoting, oldest dropped first
+
+// Rooms, seats or spots left, whichever the offer reports
+export function remainingOf(rec: TravelRecommendation): number | undefined {
+  return rec.details.roomsLeft ?? rec.details.seatsLeft ?? rec.details.spotsLeft;
+}
+
+// Restates every amount on an offer, nested fares and nightly rates included, in another currency
+export function convertOffer<T extends TravelRecommendation>(rec: T, currency: string): T {
+  if (rec.currency === currency) return rec;
+
+  const convert = (amount: number) => Math.round(fxService.convertAmount(amount, rec.currency, currency));
+  const details: Record<string, any> = { ...rec.details };
+  let price = convert(rec.price);
+
+  if (Array.isArray(details.fares)) {
+    // Subtotals are rebuilt from unit prices so they still add up to the flight price
+    details.fares = details.fares.map((fare: PassengerFare) => {
+      const unitPrice = convert(fare.unitPrice);
+      return { ...fare, unitPrice, subtotal: unitPrice * fare.count };
+    });
+    price = details.fares.reduce((sum: number, fare: PassengerFare) => sum + fare.subtotal, 0);
+  }
+  if (Array.isArray(details.nightlyRates)) {
+    details.nightlyRates = details.nightlyRates.map((rate: { price: number }) => ({ ...rate, price: convert(rate.price) }));
+  }
+  if (typeof details.totalPrice === 'number') {
+    details.totalPrice = convert(details.totalPrice);
+  }
+
+  return { ...rec, price, currency, details };
+}
+
+// The stock an offer draws on: each night of a stay at the property, each flight in the cabin, or the
+// tour on its date. Offers for other parties or overlapping stays share these keys, unlike their ids
+export function inventoryKeys(rec: TravelRecommendation): string[] {
+  const details = rec.details;
+  if (Array.isArray(details.legs)) {
+    const keys: string[] = [];
+    details.legs.forEach((leg: FlightLeg) => leg.segments.forEach(segment => {
+      keys.push(`${segment.flightNumber.replace(/\s+/g, '')}@${segment.departureTime.slice(0, 10)}:${segment.cabinClass}`);
+    }));
+    return keys;
+  }
+  if (Array.isArray(details.nightlyRates)) {
+    return details.nightlyRates.map((rate: { date: string }) => `${details.propertyId || rec.id}@${rate.date}`);
+  }
+  if (details.date) {
+    return [`${details.productId || rec.id}@${details.date}`];
+  }
+  return [rec.id];
+}
+
+export function offerToBookingOption(rec: TravelRecommendation): BookingOption {
+  const left = remainingOf(rec);
+
+  return {
+    id: rec.id,
+    type: rec.type,
+    title: rec.title,
+    description: rec.description,
+    price: rec.price,
+    currency: rec.currency,
+    rating: rec.rating,
+    availability: left === undefined || left > 5 ? 'high' : left > 2 ? 'medium' : 'low',
+    details: {
+      location: rec.location,
+      amenities: rec.amenities,
+      ...rec.details
+    }
+  };
+}
+
+// Shared quote/hold/book bookkeeping; providers only implement searchItems
+export abstract class BaseInventoryProvider implements InventoryProvider {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  abstract readonly types: OfferType[];
+
+  private offers = new Map<string, InventoryOffer>();
+  private quotes = new Map<string, InventoryQuote>();
+  private holds = new Map<string, InventoryHold>();
+  private sold = new Map<string, number>(); // Inventory key -> units booked; outlives the holds
+  private counter = 0;
+
+  protected abstract searchItems(query: InventoryQuery): Promise<TravelRecommendation[]>;
+
+  async search(query: InventoryQuery): Promise<InventoryOffer[]> {
+    if (this.types.indexOf(query.type) === -1) {
+      return [];
+    }
+
+    const items = await this.searchItems(query);
+    const offers = items.slice(0, query.limit || items.length).map(item => this.toOffer(item));
+    // Remember what was shown so it can be quoted without repeating the search
+    offers.forEach(offer => {
+      this.offers.delete(offer.id); // Re-insert so the Map stays ordered oldest first
+      this.offers.set(offer.id, offer);
+    });
+    while (this.offers.size > MAX_CACHED_OFFERS) {
+      this.offers.delete(this.offers.keys().next().value as string);
+    }
+    this.pruneExpired();
+    return offers;
+  }
+
+  async quote(offerId: string): Promise<InventoryQuote> {
+    const offer = this.offers.get(offerId);
+    if (!offer) {
+      throw new Error(`Unknown offer ${offerId}; search again before quoting`);
+    }
+    if (!offer.availability || this.remaining(offer) === 0) {
+      throw new Error(`${offer.title} is no longer available`);
+    }
+
+    const now = Date.now();
+    const quote: InventoryQuote = {
+      id: this.nextId('quote'),
+      provider: this.id,
+      offer,
+      total: money(offer.totalPrice, offer.currency),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + QUOTE_TTL_MS).toISOString()
+    };
+    this.quotes.set(quote.id, quote);
+    return quote;
+  }
+
+  async hold(quoteId: string): Promise<InventoryHold> {
+    const quote = this.quotes.get(quoteId);
+    if (!quote) {
+      throw new Error(`Unknown quote ${quoteId}`);
+    }
+    if (Date.parse(quote.expiresAt) < Date.now()) {
+      throw new Error(`Quote ${quoteId} has expired; request a new one`);
+    }
+    if (this.remaining(quote.offer) === 0) {
+      throw new Error(`${quote.offer.title} sold out while you were deciding`);
+    }
+
+    const hold: InventoryHold = {
+      id: this.nextId('hold'),
+      provider: this.id,
+      quoteId,
+      offerId: quote.offer.id,
+      inventoryKeys: quote.offer.inventoryKeys,
+      total: quote.total,
+      status: 'held',
+      expiresAt: new Date(Date.now() + HOLD_TTL_MS).toISOString()
+    };
+    this.holds.set(hold.id, hold);
+    this.pruneExpired();
+    return hold;
+  }
+
+  async book(holdId: string, traveller?: Traveller): Promise<InventoryBooking> {
+    const hold = this.holds.get(holdId);
+    if (!hold) {
+      throw new Error(`Unknown hold ${holdId}`);
+    }
+    if (hold.status === 'booked') {
+      throw new Error(`Hold ${holdId} has already been booked`);
+    }
+    if (Date.parse(hold.expiresAt) < Date.now()) {
+      throw new Error(`Hold ${holdId} has expired; quote the offer again`);
+    }
+
+    hold.status = 'booked';
+    hold.inventoryKeys.forEach(key => this.sold.set(key, (this.sold.get(key) || 0) + 1));
+    return {
+      id: this.nextId('booking'),
+      provider: this.id,
+      holdId,
+      offerId: hold.offerId,
+      reference: `NMD-${Date.now().toString(36).toUpperCase()}-${this.counter}`,
+      total: hold.total,
+      status: 'confirmed',
+      traveller,
+      bookedAt: new Date().toISOString()
+    };
+  }
+
+  // Units left once bookings and live holds on the same stock are taken out, counting the busiest key
+  // (night, flight or date) the offer draws on. Bookings are counted separately because a repeated
+  // search rebuilds the offer with the provider's original count
+  private remaining(offer: InventoryOffer): number | undefined {
+    if (offer.remaining === undefined) return undefined;
+
+    const now = Date.now();
+    const taken = offer.inventoryKeys.map(key => {
+      let held = 0;
+      this.holds.forEach(hold => {
+        if (hold.status === 'held' && Date.parse(hold.expiresAt) >= now && hold.inventoryKeys.indexOf(key) !== -1) {
+          held++;
+        }
+      });
+      return (this.sold.get(key) || 0) + held;
+    });
+    return Math.max(0, offer.remaining - Math.max(0, ...taken));
+  }
+
+  // Expired quotes can't be held and expired holds can't be booked, so neither needs keeping
+  private pruneExpired() {
+    const now = Date.now();
+    this.quotes.forEach((quote, id) => {
+      if (Date.parse(quote.expiresAt) < now) this.quotes.delete(id);
+    });
+    this.holds.forEach((hold, id) => {
+      if (Date.parse(hold.expiresAt) < now) this.holds.delete(id);
+    });
+  }
+
+  private toOffer(item: TravelRecommendation): InventoryOffer {
+    return {
+      ...item,
+      id: `${this.id}:${item.id}`,
+      provider: this.id,
+      ref: item.id,
+      totalPrice: item.details.totalPrice ?? item.price,
+      remaining: remainingOf(item),
+      inventoryKeys: inventoryKeys(item)
+    };
+  }
+
+  private nextId(kind: string): string {
+    this.counter++;
+    return `${this.id}:${kind}-${this.counter}`;
+  }
+}
@@ -0,0 +1,107 @@
+// Inventory registry: fans searches out to every registered provider and routes
+// quote/hold/book calls back to the provider that issued the id
+
+import { GeneratedInventoryProvider } from './generatedProvider';
+import { InventoryGenerator } from './generator';
+import { HotelDirectoryProvider } from './hotelDirectoryProvider';
+import type {
+  InventoryBooking,
+  InventoryHold,
+  InventoryOffer,
+  InventoryProvider,
+  InventoryQuery,
+  InventoryQuote,
+  Traveller
+} from './provider';
+
+export interface ProviderFailure {
+  provider: string;
+  error: string;
+}
+
+export interface InventorySearchResult {
+  offers: InventoryOffer[];
+  failures: ProviderFailure[];
+}
+
+export class InventoryRegistry {
+  private providers = new Map<string, InventoryProvider>();
+
+  register(provider: InventoryProvider): this {
+    if (provider.id.indexOf(':') !== -1) {
+      throw new Error(`Inventory provider id "${provider.id}" must not contain ":"`);
+    }
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Inventory provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  unregister(providerId: string): boolean {
+    return this.providers.delete(providerId);
+  }
+
+  list(): InventoryProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // One slow or broken provider doesn't sink the others; its error comes back in failures
+  async search(query: InventoryQuery, providerIds?: string[]): Promise<InventorySearchResult> {
+    const targets = this.list().filter(provider =>
+      provider.types.indexOf(query.type) !== -1 &&
+      (!providerIds || providerIds.indexOf(provider.id) !== -1)
+    );
+
+    const settled = await Promise.all(targets.map(provider =>
+      provider.search(query)
+        .then(offers => ({ provider: provider.id, offers, error: undefined as string | undefined }))
+        .catch(error => ({
+          provider: provider.id,
+          offers: [] as InventoryOffer[],
+          error: error instanceof Error ? error.message : String(error)
+        }))
+    ));
+
+    const failures: ProviderFailure[] = [];
+    settled.forEach(result => {
+      if (result.error !== undefined) {
+        console.error(`❌ Inventory provider ${result.provider} failed:`, result.error);
+        failures.push({ provider: result.provider, error: result.error });
+      }
+    });
+
+    return {
+      offers: settled.reduce((all, result) => all.concat(result.offers), [] as InventoryOffer[]),
+      failures
+    };
+  }
+
+  quote(offerId: string): Promise<InventoryQuote> {
+    return this.providerFor(offerId).quote(offerId);
+  }
+
+  hold(quoteId: string): Promise<InventoryHold> {
+    return this.providerFor(quoteId).hold(quoteId);
+  }
+
+  book(holdId: string, traveller?: Traveller): Promise<InventoryBooking> {
+    return this.providerFor(holdId).book(holdId, traveller);
+  }
+
+  // Every id a provider issues starts with `${providerId}:`
+  private providerFor(id: string): InventoryProvider {
+    const provider = this.providers.get(id.split(':')[0]);
+    if (!provider) {
+      throw new Error(`No inventory provider for ${id}`);
+    }
+    return provider;
+  }
+}
+
+// Generated inventory plus the hotel directory, both priced in the generator's currency
+export function createInventoryRegistry(inventory: InventoryGenerator = new InventoryGenerator()): InventoryRegistry {
+  return new InventoryRegistry()
+    .register(new GeneratedInventoryProvider(inventory))
+    .register(new HotelDirectoryProvider(inventory.currency));
+}
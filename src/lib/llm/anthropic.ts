@@ -0,0 +1,194 @@
+// Anthropic Messages API provider - server-side only
+// Talks to the REST API directly; tool calls map onto tool_use / tool_result content blocks
+
+import type { LLMChatRequest, LLMChatResult, LLMDefaults, LLMMessage, LLMProvider, LLMToolCall } from './provider';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export interface AnthropicOptions extends LLMDefaults {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+}
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+
+  constructor(private options: AnthropicOptions) {
+    this.model = options.model;
+  }
+
+  async chat(request: LLMChatRequest, onText?: (delta: string) => void): Promise<LLMChatResult> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const hasTools = request.tools && request.tools.length > 0;
+
+    const body = {
+      model: this.model,
+      max_tokens: request.maxTokens ?? this.options.maxTokens ?? 1024, // Required by the API
+      temperature: request.temperature ?? this.options.temperature,
+      system: system || undefined,
+      messages: toAnthropicMessages(request.messages),
+      tools: hasTools ? request.tools!.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      })) : undefined,
+      tool_choice: hasTools ? { type: request.toolChoice === 'required' ? 'any' : 'auto' } : undefined,
+      stream: Boolean(onText)
+    };
+
+    const response = await fetch(`${this.options.baseURL || ANTHROPIC_API_URL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+    }
+
+    if (!onText) {
+      const message = await response.json();
+      return fromContentBlocks(message.content || []);
+    }
+
+    return this.readStream(response, onText);
+  }
+
+  // Rebuilds the reply from the SSE stream: text deltas are forwarded as they arrive,
+  // tool_use inputs accumulate as partial JSON per content block
+  private async readStream(response: Response, onText: (delta: string) => void): Promise<LLMChatResult> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Anthropic API returned an empty stream');
+    }
+
+    const decoder = new TextDecoder();
+    const blocks: Record<number, LLMToolCall> = {};
+    const order: number[] = [];
+    let text = '';
+    let buffer = '';
+
+    const handleEvent = (event: any) => {
+      switch (event.type) {
+        case 'content_block_start':
+          if (event.content_block.type === 'tool_use') {
+            blocks[event.index] = { id: event.content_block.id, name: event.content_block.name, arguments: '' };
+            order.push(event.index);
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta') {
+            text += event.delta.text;
+            onText(event.delta.text);
+          } else if (event.delta.type === 'input_json_delta' && blocks[event.index]) {
+            blocks[event.index].arguments += event.delta.partial_json;
+          }
+          break;
+        case 'error':
+          throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          handleEvent(JSON.parse(line.slice(6)));
+        }
+      }
+    }
+
+    return {
+      text,
+      // A tool call without arguments streams no input deltas
+      toolCalls: order.map(index => ({ ...blocks[index], arguments: blocks[index].arguments || '{}' }))
+    };
+  }
+}
+
+function fromContentBlocks(content: AnthropicContentBlock[]): LLMChatResult {
+  const result: LLMChatResult = { text: '', toolCalls: [] };
+
+  content.forEach(block => {
+    if (block.type === 'text') {
+      result.text += block.text;
+    } else if (block.type === 'tool_use') {
+      result.toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input) });
+    }
+  });
+
+  return result;
+}
+
+// System prompts travel separately; tool results go back as user turns, and consecutive
+// results must share one message
+function toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+
+  messages.forEach(message => {
+    switch (message.role) {
+      case 'system':
+        return;
+
+      case 'assistant': {
+        const content: AnthropicContentBlock[] = [];
+        if (message.content) {
+          content.push({ type: 'text', text: message.content });
+        }
+        (message.toolCalls || []).forEach(call => {
+          let input: Record<string, any> = {};
+          try {
+            input = call.arguments ? JSON.parse(call.arguments) : {};
+          } catch (e) {
+            // Malformed arguments were already reported back to the model as a tool error
+          }
+          content.push({ type: 'tool_use', id: call.id, name: call.name, input });
+        });
+        result.push({ role: 'assistant', content });
+        return;
+      }
+
+      case 'tool': {
+        const block: AnthropicContentBlock = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+        const last = result[result.length - 1];
+        if (last && last.role === 'user' && Array.isArray(last.content) && last.content[0]?.type === 'tool_result') {
+          last.content.push(block);
+        } else {
+          result.push({ role: 'user', content: [block] });
+        }
+        return;
+      }
+
+      default:
+        result.push({ role: 'user', content: message.content });
+    }
+  });
+
+  return result;
+}
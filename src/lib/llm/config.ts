@@ -0,0 +1,126 @@
+// LLM configuration - server-side only
+// Picks the provider, model and sampling settings from the environment so each deployment
+// (local dev against Ollama, staging on OpenAI, tests on a script) can differ without code changes
+
+import { isProviderDisabled, withSecrets, type Env } from '@/lib/config/env';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai';
+import { ScriptedLLMProvider, type LLMProvider, type ScriptedTurn } from './provider';
+
+export type LLMProviderType = 'openai' | 'anthropic' | 'local' | 'scripted';
+
+export interface LLMConfig {
+  provider: LLMProviderType;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  apiKey?: string;
+  baseURL?: string;
+  script?: ScriptedTurn[];
+}
+
+const DEFAULT_MODELS: Record<LLMProviderType, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  local: 'llama3.1',
+  scripted: 'scripted'
+};
+
+// Ollama's OpenAI-compatible endpoint; llama-server listens on http://localhost:8080/v1
+const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1';
+
+function parseNumber(name: string, value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+// Keys that may also be mounted as files via <NAME>_FILE
+const LLM_SECRETS = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'LLM_API_KEY'];
+
+// Returns null when no provider is configured or the llm provider is disabled; callers fall back
+// to non-LLM behaviour
+export function getLLMConfig(source: Env = process.env): LLMConfig | null {
+  if (isProviderDisabled('llm', source)) {
+    return null;
+  }
+
+  const env = withSecrets(source, LLM_SECRETS);
+  let provider = env.LLM_PROVIDER?.toLowerCase();
+  if (!provider) {
+    // Without an explicit choice, use whichever hosted provider has a key
+    if (env.OPENAI_API_KEY) provider = 'openai';
+    else if (env.ANTHROPIC_API_KEY) provider = 'anthropic';
+    else return null;
+  }
+
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected openai, anthropic, local or scripted`);
+  }
+
+  const config: LLMConfig = {
+    provider: provider as LLMProviderType,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider as LLMProviderType],
+    temperature: parseNumber('LLM_TEMPERATURE', env.LLM_TEMPERATURE, 0.7),
+    maxTokens: parseNumber('LLM_MAX_TOKENS', env.LLM_MAX_TOKENS, 500),
+    baseURL: env.LLM_BASE_URL || undefined
+  };
+
+  switch (config.provider) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is required when LLM_PROVIDER=openai');
+      }
+      config.apiKey = env.OPENAI_API_KEY;
+      break;
+
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic');
+      }
+      config.apiKey = env.ANTHROPIC_API_KEY;
+      break;
+
+    case 'local':
+      config.apiKey = env.LLM_API_KEY || 'local'; // Local servers ignore the key but the client requires one
+      config.baseURL = config.baseURL || DEFAULT_LOCAL_URL;
+      break;
+
+    case 'scripted':
+      if (!env.LLM_SCRIPT) {
+        throw new Error('LLM_SCRIPT (a JSON array of turns) is required when LLM_PROVIDER=scripted');
+      }
+      try {
+        config.script = JSON.parse(env.LLM_SCRIPT);
+      } catch (error) {
+        throw new Error('LLM_SCRIPT must be a JSON array of { text, toolCalls } turns');
+      }
+      break;
+  }
+
+  return config;
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  const defaults = { temperature: config.temperature, maxTokens: config.maxTokens };
+
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider({ apiKey: config.apiKey!, model: config.model, baseURL: config.baseURL, ...defaults });
+    case 'scripted':
+      return new ScriptedLLMProvider(config.script || []);
+    case 'openai':
+    case 'local':
+      return new OpenAICompatibleProvider({
+        name: config.provider,
+        apiKey: config.apiKey!,
+        model: config.model,
+        baseURL: config.baseURL,
+        ...defaults
+      });
+  }
+}
@@ -0,0 +1,96 @@
+// OpenAI-compatible chat completions provider - server-side only
+// Also serves local servers that speak the same API, like Ollama or llama.cpp's llama-server
+
+import { OpenAI } from 'openai';
+import type { ChatCompletionCreateParamsBase, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { LLMChatRequest, LLMChatResult, LLMDefaults, LLMMessage, LLMProvider, LLMToolCall } from './provider';
+
+export interface OpenAICompatibleOptions extends LLMDefaults {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  name?: string; // 'openai' or 'local', for logs
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI;
+
+  constructor(private options: OpenAICompatibleOptions) {
+    this.name = options.name || 'openai';
+    this.model = options.model;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async chat(request: LLMChatRequest, onText?: (delta: string) => void): Promise<LLMChatResult> {
+    const hasTools = request.tools && request.tools.length > 0;
+    const params: ChatCompletionCreateParamsBase = {
+      model: this.model,
+      messages: request.messages.map(toOpenAIMessage),
+      temperature: request.temperature ?? this.options.temperature,
+      max_tokens: request.maxTokens ?? this.options.maxTokens,
+      tools: hasTools ? request.tools!.map(tool => ({
+        type: 'function' as const,
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      })) : undefined,
+      tool_choice: hasTools ? request.toolChoice : undefined
+    };
+
+    if (!onText) {
+      const completion = await this.client.chat.completions.create({ ...params, stream: false });
+      const message = completion.choices[0]?.message;
+      return {
+        text: message?.content || '',
+        toolCalls: (message?.tool_calls || [])
+          .filter(call => call.type === 'function')
+          .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }))
+      };
+    }
+
+    const stream = await this.client.chat.completions.create({ ...params, stream: true });
+    let text = '';
+    const calls: LLMToolCall[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        text += delta.content;
+        onText(delta.content);
+      }
+
+      // Tool calls arrive in fragments keyed by index: id and name first, then the arguments JSON
+      delta.tool_calls?.forEach(part => {
+        const call = calls[part.index] || (calls[part.index] = { id: '', name: '', arguments: '' });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.name += part.function.name;
+        if (part.function?.arguments) call.arguments += part.function.arguments;
+      });
+    }
+
+    return { text, toolCalls: calls.filter(Boolean) };
+  }
+}
+
+function toOpenAIMessage(message: LLMMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        tool_calls: message.toolCalls && message.toolCalls.length > 0
+          ? message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments }
+          }))
+          : undefined
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
@@ -0,0 +1,85 @@
+// LLM provider abstraction for Nomado AI
+// Routes talk to an LLMProvider; the concrete provider (OpenAI-compatible, Anthropic, scripted)
+// is picked from the environment in ./config
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, as produced by the model
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'required';
+  temperature?: number; // Overrides the provider default
+  maxTokens?: number;
+}
+
+export interface LLMChatResult {
+  text: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  // Streams text through onText when given; tool calls are returned whole once the reply ends
+  chat(request: LLMChatRequest, onText?: (delta: string) => void): Promise<LLMChatResult>;
+}
+
+export interface LLMDefaults {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ScriptedTurn {
+  text?: string;
+  toolCalls?: Array<{ name: string; arguments: Record<string, any> }>;
+}
+
+// Deterministic offline provider: replays scripted turns in order, one per chat() call.
+// Text is streamed word by word so the streaming path is exercised too.
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted';
+  requests: LLMChatRequest[] = [];
+  private callCount = 0;
+
+  constructor(private turns: Array<ScriptedTurn | ((request: LLMChatRequest) => ScriptedTurn)>) {}
+
+  async chat(request: LLMChatRequest, onText?: (delta: string) => void): Promise<LLMChatResult> {
+    this.requests.push(request);
+
+    const next = this.turns[this.requests.length - 1];
+    if (!next) {
+      throw new Error(`Scripted LLM has no turn ${this.requests.length} (script has ${this.turns.length})`);
+    }
+
+    const turn = typeof next === 'function' ? next(request) : next;
+    const text = turn.text || '';
+    if (onText && text) {
+      (text.match(/\S+\s*|\s+/g) || []).forEach(word => onText(word));
+    }
+
+    return {
+      text,
+      toolCalls: (turn.toolCalls || []).map(call => ({
+        id: `call_${++this.callCount}`,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments)
+      }))
+    };
+  }
+}
@@ -0,0 +1,114 @@
+// Server-side cache for Google Maps lookups. Every geocode and place search is billed, and the same
+// cities and "near me" spots are searched over and over, so results are kept for a while per action
+
+export type CachedAction = 'geocode' | 'nearby-hotels' | 'text-search';
+
+export type CacheOutcome = 'hit' | 'miss' | 'deduped';
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number; // Upstream calls made
+  deduped: number; // Requests that joined an upstream call already in flight
+  hitRate: number; // (hits + deduped) / requests
+}
+
+export interface CacheStats {
+  entries: number;
+  inFlight: number;
+  evictions: number;
+  actions: Record<string, CacheMetrics>;
+}
+
+// Places change slowly and geocodes hardly at all; searches keep a shorter TTL so new listings show up
+export const MAPS_CACHE_TTLS: Record<CachedAction, number> = {
+  geocode: 24 * 60 * 60 * 1000,
+  'nearby-hotels': 15 * 60 * 1000,
+  'text-search': 15 * 60 * 1000
+};
+
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+// TTL cache with in-flight dedupe: concurrent loads of one key share a single upstream call, and
+// failures are never cached. Entries are evicted oldest-first past maxEntries
+export class ResponseCache<T> {
+  private entries = new Map<string, Entry<T>>();
+  private inFlight = new Map<string, Promise<T>>();
+  private metrics: Record<string, { hits: number; misses: number; deduped: number }> = {};
+  private evictions = 0;
+
+  constructor(private maxEntries: number = 1000) {}
+
+  async getOrLoad(namespace: string, key: string, ttlMs: number, load: () => Promise<T>): Promise<{ value: T; cache: CacheOutcome }> {
+    const cacheKey = `${namespace}:${key}`;
+    const counts = this.metrics[namespace] || (this.metrics[namespace] = { hits: 0, misses: 0, deduped: 0 });
+
+    const entry = this.entries.get(cacheKey);
+    if (entry && entry.expiresAt > Date.now()) {
+      counts.hits++;
+      return { value: entry.value, cache: 'hit' };
+    }
+    if (entry) {
+      this.entries.delete(cacheKey);
+    }
+
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      counts.deduped++;
+      return { value: await pending, cache: 'deduped' };
+    }
+
+    counts.misses++;
+    const loading = load();
+    this.inFlight.set(cacheKey, loading);
+    try {
+      const value = await loading;
+      this.set(cacheKey, value, ttlMs);
+      return { value, cache: 'miss' };
+    } finally {
+      this.inFlight.delete(cacheKey);
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.metrics = {};
+    this.evictions = 0;
+  }
+
+  stats(): CacheStats {
+    const actions: Record<string, CacheMetrics> = {};
+    Object.keys(this.metrics).forEach(namespace => {
+      const { hits, misses, deduped } = this.metrics[namespace];
+      const requests = hits + misses + deduped;
+      actions[namespace] = { hits, misses, deduped, hitRate: requests ? (hits + deduped) / requests : 0 };
+    });
+    return { entries: this.entries.size, inFlight: this.inFlight.size, evictions: this.evictions, actions };
+  }
+
+  private set(cacheKey: string, value: T, ttlMs: number) {
+    this.entries.delete(cacheKey); // Re-insert so the Map's order stays oldest-first
+    this.entries.set(cacheKey, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+}
+
+// "  New   York " and "new york" are the same search
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Three decimals is about 100 m, well inside any search radius, so nearby users share results
+export function nearbyCacheKey(lat: number, lng: number, radius: number): string {
+  return `${lat.toFixed(3)},${lng.toFixed(3)}:${Math.round(radius)}`;
+}
+
+// Export singleton instance
+export const googleMapsCache = new ResponseCache<any>();
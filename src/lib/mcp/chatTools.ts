@@ -0,0 +1,114 @@
+// Chat tool-calling loop - server-side only
+// Streams a chat reply from the configured LLM and runs the MCP tools it calls along the way
+
+import { getIssuedOffers } from '@/lib/inventory/issuedOffers';
+import type { LLMMessage, LLMProvider, LLMToolCall, LLMToolDefinition } from '@/lib/llm/provider';
+import type { ChatStreamEvent } from '@/types';
+import MCPProcessor from '@/utils/mcpProcessor';
+import type { NomadoMCPClient } from './client';
+
+// Tools the chat assistant may call; the rest stay with the booking search flow
+export const CHAT_TOOLS = ['search_hotels', 'search_flights', 'create_itinerary'];
+
+export interface ChatToolLoopOptions {
+  maxToolRounds?: number; // Replies that may end in tool calls before the model must answer in text
+}
+
+export async function runChatToolLoop(
+  provider: LLMProvider,
+  agent: NomadoMCPClient,
+  messages: LLMMessage[],
+  emit: (event: ChatStreamEvent) => void,
+  options: ChatToolLoopOptions = {}
+): Promise<void> {
+  const tools: LLMToolDefinition[] = (await agent.listTools())
+    .filter(tool => CHAT_TOOLS.indexOf(tool.name) !== -1)
+    .map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: { ...tool.inputSchema }
+    }));
+
+  const conversation = [...messages];
+  const maxToolRounds = options.maxToolRounds ?? 4;
+
+  for (let round = 0; round <= maxToolRounds; round++) {
+    const reply = await provider.chat({
+      messages: conversation,
+      // Withhold the tools on the last round so the loop always ends with a reply
+      tools: round < maxToolRounds ? tools : undefined,
+      toolChoice: 'auto'
+    }, content => emit({ type: 'text_delta', content }));
+
+    if (reply.toolCalls.length === 0) {
+      return;
+    }
+
+    conversation.push({ role: 'assistant', content: reply.text || null, toolCalls: reply.toolCalls });
+
+    for (const call of reply.toolCalls) {
+      const content = await executeToolCall(agent, call, emit);
+      conversation.push({ role: 'tool', toolCallId: call.id, content });
+    }
+  }
+}
+
+// Runs one tool call and returns the text the model sees; failures go back to the model as an error
+async function executeToolCall(
+  agent: NomadoMCPClient,
+  call: LLMToolCall,
+  emit: (event: ChatStreamEvent) => void
+): Promise<string> {
+  let args: Record<string, any> = {};
+  try {
+    args = call.arguments ? JSON.parse(call.arguments) : {};
+  } catch (e) {
+    // Left empty; schema validation reports what is missing
+  }
+
+  emit({ type: 'tool_call', id: call.id, name: call.name, arguments: args });
+
+  const fail = (message: string) => {
+    emit({ type: 'tool_result', id: call.id, name: call.name, error: message });
+    return JSON.stringify({ error: message });
+  };
+
+  if (CHAT_TOOLS.indexOf(call.name) === -1) {
+    return fail(`Unknown tool: ${call.name}`);
+  }
+
+  try {
+    console.log('🛠️ Chat assistant calling tool:', call.name, args);
+    const response = await agent.callTool(call.name, args);
+    const text = response.content[0]?.text || '';
+
+    if (response.isError) {
+      let reason = text;
+      try {
+        reason = JSON.parse(text).error || text;
+      } catch (e) {
+        // Plain-text error from the server
+      }
+      fail(reason || 'Tool call failed');
+      return text;
+    }
+
+    const result = JSON.parse(text);
+    const bookings = result.results ? MCPProcessor.toBookingOptions(result.results) : undefined;
+    if (bookings) {
+      // Bridge payouts are priced from what was issued here, not from the client's copy
+      getIssuedOffers().remember(bookings);
+    }
+    emit({
+      type: 'tool_result',
+      id: call.id,
+      name: call.name,
+      bookings,
+      itinerary: result.itinerary
+    });
+    return text;
+  } catch (error) {
+    console.error(`Chat tool ${call.name} failed:`, error);
+    return fail(error instanceof Error ? error.message : 'Tool call failed');
+  }
+}
@@ -1,9 +1,13 @@
 // MCP Client for handling AI agent interactions in Nomado AI
 
-import { mockMCPServer, type MCPRequest, type MCPResponse, type TravelQuery, type TravelRecommendation } from './server';
+import { mockMCPServer, type MCPRequest, type MCPResponse, type MCPTool, type TravelQuery, type TravelRecommendation } from './server';
+import { conversationService, type ConversationSession } from '@/services/conversationService';
+import type { MCPBookingIntent } from '@/types';
+import { TOOL_INTENTS, buildIntentContext, type AgentIntent, type IntentModel } from './intent';
+import type { MCPTransport } from './transport';
 
 export interface AITravelAgent {
-  processQuery(query: string): Promise<AgentResponse>;
+  processQuery(query: string, session?: ConversationSession): Promise<AgentResponse>;
   searchTravel(travelQuery: TravelQuery): Promise<TravelRecommendation[]>;
   createItinerary(destination: string, duration: number, preferences?: string[]): Promise<any>;
   getTravelAdvice(question: string, context?: any): Promise<string>;
@@ -18,14 +22,36 @@ export interface AgentResponse {
 }
 
 export class NomadoMCPClient implements AITravelAgent {
-  private server = mockMCPServer;
+  // Defaults to the in-process mock; pass a StdioMCPTransport or HttpMCPTransport to use a real server.
+  // Without an intent model, queries go through the rule-based classifier.
+  constructor(
+    private transport: MCPTransport = mockMCPServer,
+    private intentModel: IntentModel | null = null
+  ) {}
 
-  async processQuery(query: string): Promise<AgentResponse> {
+  async listTools(): Promise<MCPTool[]> {
+    return this.transport.listTools();
+  }
+
+  // Raw tool call for callers that drive the tools themselves, like the chat route's LLM loop.
+  // Errors come back as isError results rather than exceptions so the model can correct its arguments.
+  async callTool(name: string, args: Record<string, any>): Promise<MCPResponse> {
+    return this.transport.callTool({
+      method: 'tools/call',
+      params: { name, arguments: args }
+    });
+  }
+
+  // With a session, slots from earlier turns fill in whatever this query leaves out
+  async processQuery(query: string, session?: ConversationSession): Promise<AgentResponse> {
     try {
       console.log('🤖 AI Agent processing query:', query);
       
-      // Simple intent classification
-      const intent = this.classifyIntent(query);
+      let intent = await this.extractIntent(query, session?.intent?.parameters);
+      if (session) {
+        intent = conversationService.refine(session, query, intent);
+      }
+      intent = this.applyDefaults(intent);
       
       switch (intent.type) {
         case 'hotel_search':
@@ -70,13 +96,8 @@ export class NomadoMCPClient implements AITravelAgent {
       }
     };
 
-    const response = await this.server.callTool(request);
-    
-    if (response.isError) {
-      throw new Error('Search failed');
-    }
-
-    const result = JSON.parse(response.content[0].text);
+    const response = await this.transport.callTool(request);
+    const result = this.parseToolResult(response, 'Search failed');
     return result.results || [];
   }
 
@@ -93,8 +114,8 @@ export class NomadoMCPClient implements AITravelAgent {
       }
     };
 
-    const response = await this.server.callTool(request);
-    const result = JSON.parse(response.content[0].text);
+    const response = await this.transport.callTool(request);
+    const result = this.parseToolResult(response, 'Itinerary creation failed');
     return result.itinerary;
   }
 
@@ -110,11 +131,74 @@ export class NomadoMCPClient implements AITravelAgent {
       }
     };
 
-    const response = await this.server.callTool(request);
-    const result = JSON.parse(response.content[0].text);
+    const response = await this.transport.callTool(request);
+    const result = this.parseToolResult(response, 'Travel advice failed');
     return result.advice;
   }
 
+  // Tool errors carry a JSON body with the reason (e.g. schema violations); surface it to the caller
+  private parseToolResult(response: MCPResponse, fallbackMessage: string): any {
+    const text = response.content[0]?.text;
+
+    if (response.isError) {
+      let reason = text;
+      try {
+        reason = JSON.parse(text).error || text;
+      } catch (e) {
+        // Plain-text error from the server
+      }
+      throw new Error(reason ? `${fallbackMessage}: ${reason}` : fallbackMessage);
+    }
+
+    return JSON.parse(text);
+  }
+
+  // Let the LLM pick a tool and fill its arguments, falling back to keyword rules
+  private async extractIntent(query: string, slots?: MCPBookingIntent['parameters']): Promise<AgentIntent> {
+    if (this.intentModel) {
+      try {
+        const tools = await this.listTools();
+        const selection = await this.intentModel.selectTool(query, tools, buildIntentContext(slots));
+
+        if (selection && TOOL_INTENTS[selection.name]) {
+          console.log('🧠 LLM selected tool:', selection.name, selection.arguments);
+          return { type: TOOL_INTENTS[selection.name], params: selection.arguments, source: 'llm' };
+        }
+      } catch (error) {
+        console.warn('LLM intent extraction failed, using rule-based classifier:', error);
+      }
+    }
+
+    return { ...this.classifyIntent(query), source: 'rules' };
+  }
+
+  // Placeholders for anything neither this query nor the conversation supplied
+  private applyDefaults(intent: AgentIntent): AgentIntent {
+    const params = { ...intent.params };
+
+    if (intent.type !== 'travel_advice' && intent.type !== 'general' && !params.destination) {
+      params.destination = 'Popular Destination';
+    }
+
+    // Multi-city searches carry their own origins and dates per leg
+    if (intent.type === 'flight_search' && !params.legs) {
+      params.origin = params.origin || 'Current Location';
+
+      if (!params.departureDate) {
+        // search_flights requires a departure date; default to next week like MCPProcessor does
+        const departure = new Date();
+        departure.setDate(departure.getDate() + 7);
+        params.departureDate = departure.toISOString().split('T')[0];
+      }
+    }
+
+    if (intent.type === 'itinerary_request' && !params.duration) {
+      params.duration = 3;
+    }
+
+    return { ...intent, params };
+  }
+
   private classifyIntent(query: string): { type: string; params: any } {
     const lowerQuery = query.toLowerCase();
     
@@ -180,7 +264,7 @@ export class NomadoMCPClient implements AITravelAgent {
     const durationMatch = query.match(/(\d+)\s*(night|day)s?/i);
     
     return {
-      destination: locationMatch ? locationMatch[1].trim() : 'Popular Destination',
+      destination: locationMatch ? locationMatch[1].trim() : undefined,
       budget: budgetMatch ? parseInt(budgetMatch[1]) : undefined,
       duration: durationMatch ? parseInt(durationMatch[1]) : undefined
     };
@@ -197,10 +281,7 @@ export class NomadoMCPClient implements AITravelAgent {
       };
     }
     
-    return {
-      origin: 'Current Location',
-      destination: 'Popular Destination'
-    };
+    return {};
   }
 
   private extractItineraryParams(query: string): any {
@@ -208,8 +289,8 @@ export class NomadoMCPClient implements AITravelAgent {
     const durationMatch = query.match(/(\d+)\s*(day|night)s?/i);
     
     return {
-      destination: locationMatch ? locationMatch[1].trim() : 'Popular Destination',
-      duration: durationMatch ? parseInt(durationMatch[1]) : 3
+      destination: locationMatch ? locationMatch[1].trim() : undefined,
+      duration: durationMatch ? parseInt(durationMatch[1]) : undefined
     };
   }
 
@@ -286,7 +367,7 @@ export class NomadoMCPClient implements AITravelAgent {
   }
 
   private async handleItineraryRequest(query: string, params: any): Promise<AgentResponse> {
-    const itinerary = await this.createItinerary(params.destination, params.duration);
+    const itinerary = await this.createItinerary(params.destination, params.duration, params.interests);
     
     return {
       type: 'itinerary',
@@ -297,7 +378,8 @@ export class NomadoMCPClient implements AITravelAgent {
   }
 
   private async handleTravelAdvice(query: string, params: any): Promise<AgentResponse> {
-    const advice = await this.getTravelAdvice(params.query);
+    const { query: question, ...context } = params;
+    const advice = await this.getTravelAdvice(question || query, context);
     
     return {
       type: 'advice',
@@ -0,0 +1,82 @@
+// Server-side MCP wiring - picks the transport the booking API talks to
+// Import only from API routes; the stdio transport depends on Node's child_process
+
+import { createLLMProvider, getLLMConfig } from '@/lib/llm/config';
+import { NomadoMCPClient } from './client';
+import type { IntentModel } from './intent';
+import { LLMIntentModel } from './llmIntent';
+import { mockMCPServer } from './server';
+import { StdioMCPTransport } from './stdio';
+import { HttpMCPTransport, type MCPTransport } from './transport';
+
+export type MCPTransportConfig =
+  | { type: 'mock' }
+  | { type: 'stdio'; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: 'http'; url: string; headers?: Record<string, string> };
+
+export function getMCPTransportConfig(env: Record<string, string | undefined> = process.env): MCPTransportConfig {
+  const type = (env.MCP_TRANSPORT || 'mock').toLowerCase();
+
+  switch (type) {
+    case 'stdio':
+      if (!env.MCP_SERVER_COMMAND) {
+        throw new Error('MCP_SERVER_COMMAND is required when MCP_TRANSPORT=stdio');
+      }
+      return {
+        type: 'stdio',
+        command: env.MCP_SERVER_COMMAND,
+        args: env.MCP_SERVER_ARGS ? env.MCP_SERVER_ARGS.split(' ').filter(Boolean) : []
+      };
+
+    case 'http':
+      if (!env.MCP_SERVER_URL) {
+        throw new Error('MCP_SERVER_URL is required when MCP_TRANSPORT=http');
+      }
+      return {
+        type: 'http',
+        url: env.MCP_SERVER_URL,
+        headers: env.MCP_SERVER_TOKEN ? { Authorization: `Bearer ${env.MCP_SERVER_TOKEN}` } : undefined
+      };
+
+    case 'mock':
+      return { type: 'mock' };
+
+    default:
+      throw new Error(`Unknown MCP_TRANSPORT "${type}". Expected mock, stdio or http`);
+  }
+}
+
+export function createMCPTransport(config: MCPTransportConfig): MCPTransport {
+  switch (config.type) {
+    case 'stdio':
+      return new StdioMCPTransport(config.command, { args: config.args, env: config.env });
+    case 'http':
+      return new HttpMCPTransport(config.url, { headers: config.headers });
+    case 'mock':
+      return mockMCPServer;
+  }
+}
+
+// LLM function calling when a provider is configured, otherwise null (rule-based intents).
+// The scripted provider is left out: its turns belong to the chat route.
+export function createIntentModel(env: Record<string, string | undefined> = process.env): IntentModel | null {
+  const config = getLLMConfig(env);
+  if (!config || config.provider === 'scripted') {
+    return null;
+  }
+
+  return new LLMIntentModel(createLLMProvider({
+    ...config,
+    model: env.LLM_INTENT_MODEL || config.model
+  }));
+}
+
+let serverAgent: NomadoMCPClient | null = null;
+
+// Shared agent for API routes, connected to whichever MCP server the environment points at
+export function getServerTravelAgent(): NomadoMCPClient {
+  if (!serverAgent) {
+    serverAgent = new NomadoMCPClient(createMCPTransport(getMCPTransportConfig()), createIntentModel());
+  }
+  return serverAgent;
+}
@@ -0,0 +1,407 @@
+// Mock flight inventory for the MCP server
+// Builds one-way, round-trip, open-jaw and multi-city itineraries with real segment structure:
+// flight numbers, layovers at hub airports, cabin classes and per-passenger-type fares
+
+import type {
+  CabinClass,
+  FlightItinerary,
+  FlightLayover,
+  FlightLeg,
+  FlightSegment,
+  FlightTripType,
+  PassengerFare,
+  PassengerType
+} from '@/types';
+import type { InventoryGenerator } from '@/lib/inventory/generator';
+import type { TravelRecommendation } from './server';
+
+export interface FlightLegRequest {
+  origin: string;
+  destination: string;
+  date: string;
+}
+
+export interface FlightSearchArgs {
+  origin?: string;
+  destination?: string;
+  departureDate?: string;
+  returnDate?: string;
+  legs?: FlightLegRequest[];
+  passengers?: number;
+  adults?: number;
+  children?: number;
+  infants?: number;
+  class?: CabinClass;
+  budget?: number;
+}
+
+interface Airport {
+  code: string;
+  city: string;
+  lat?: number;
+  lng?: number;
+}
+
+const AIRPORTS: Airport[] = [
+  { code: 'BOM', city: 'Mumbai', lat: 19.0896, lng: 72.8656 },
+  { code: 'DEL', city: 'Delhi', lat: 28.5562, lng: 77.1000 },
+  { code: 'BLR', city: 'Bangalore', lat: 13.1986, lng: 77.7066 },
+  { code: 'MAA', city: 'Chennai', lat: 12.9941, lng: 80.1709 },
+  { code: 'CCU', city: 'Kolkata', lat: 22.6547, lng: 88.4467 },
+  { code: 'HYD', city: 'Hyderabad', lat: 17.2403, lng: 78.4294 },
+  { code: 'GOI', city: 'Goa', lat: 15.3808, lng: 73.8314 },
+  { code: 'COK', city: 'Kochi', lat: 10.1520, lng: 76.4019 },
+  { code: 'JAI', city: 'Jaipur', lat: 26.8242, lng: 75.8122 },
+  { code: 'DXB', city: 'Dubai', lat: 25.2532, lng: 55.3657 },
+  { code: 'SIN', city: 'Singapore', lat: 1.3644, lng: 103.9915 },
+  { code: 'LHR', city: 'London', lat: 51.4700, lng: -0.4543 },
+  { code: 'CDG', city: 'Paris', lat: 49.0097, lng: 2.5479 },
+  { code: 'JFK', city: 'New York', lat: 40.6413, lng: -73.7781 },
+  { code: 'NRT', city: 'Tokyo', lat: 35.7720, lng: 140.3929 }
+];
+
+const CITY_ALIASES: Record<string, string> = {
+  bombay: 'BOM',
+  'new delhi': 'DEL',
+  bengaluru: 'BLR',
+  madras: 'MAA',
+  calcutta: 'CCU',
+  kerala: 'COK',
+  cochin: 'COK',
+  nyc: 'JFK'
+};
+
+// Connecting airports for one-stop itineraries
+const HUBS = ['DEL', 'BOM', 'BLR', 'DXB'];
+
+const AIRLINES = {
+  domestic: [
+    { code: '6E', name: 'IndiGo', aircraft: 'Airbus A320neo' },
+    { code: 'AI', name: 'Air India', aircraft: 'Airbus A321' },
+    { code: 'UK', name: 'Vistara', aircraft: 'Boeing 737-800' }
+  ],
+  international: [
+    { code: 'AI', name: 'Air India', aircraft: 'Boeing 787-8' },
+    { code: 'EK', name: 'Emirates', aircraft: 'Boeing 777-300ER' },
+    { code: 'SQ', name: 'Singapore Airlines', aircraft: 'Airbus A350-900' }
+  ]
+};
+
+// Offer variants built for every search: departure time, whether it connects, price factor
+const OFFERS = [
+  { departure: '06:15', connecting: false, priceFactor: 1 },
+  { departure: '10:40', connecting: true, priceFactor: 0.8 },
+  { departure: '18:05', connecting: false, priceFactor: 1.15 }
+];
+
+const CABIN_MULTIPLIERS: Record<CabinClass, number> = {
+  economy: 1,
+  premium: 1.6,
+  business: 3,
+  first: 5
+};
+
+const PASSENGER_MULTIPLIERS: Record<PassengerType, number> = {
+  adult: 1,
+  child: 0.75,
+  infant: 0.1 // Lap infant: taxes and fees only
+};
+
+const LAYOVER_MINUTES = 95;
+const LONG_HAUL_KM = 3000;
+
+function resolveAirport(place: string): Airport {
+  const name = place.trim().toLowerCase();
+  const code = CITY_ALIASES[name] || name.toUpperCase();
+
+  const known = AIRPORTS.find(airport => airport.code === code || airport.city.toLowerCase() === name);
+  if (known) return known;
+
+  // Unknown city: give it a code so the itinerary still renders; distance falls back to a default
+  return { code: place.replace(/[^A-Za-z]/g, '').slice(0, 3).toUpperCase() || 'XXX', city: place.trim() };
+}
+
+function distanceKm(from: Airport, to: Airport): number {
+  if (from.lat === undefined || from.lng === undefined || to.lat === undefined || to.lng === undefined) {
+    return 1200;
+  }
+
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Cruise at ~780 km/h plus 30 minutes for taxi, climb and descent, rounded to 5 minutes
+function flightMinutes(from: Airport, to: Airport): number {
+  return Math.round((distanceKm(from, to) / 780 * 60 + 30) / 5) * 5;
+}
+
+// Stable per-route number so the same search always shows the same flight numbers
+function routeHash(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) % 100000;
+  }
+  return hash;
+}
+
+function addMinutes(dateTime: string, minutes: number): string {
+  const date = new Date(`${dateTime}:00Z`);
+  date.setUTCMinutes(date.getUTCMinutes() + minutes);
+  return date.toISOString().slice(0, 16);
+}
+
+function minutesBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}:00Z`).getTime() - new Date(`${from}:00Z`).getTime()) / 60000);
+}
+
+function pickHub(from: Airport, to: Airport): Airport | null {
+  const candidates = HUBS
+    .filter(code => code !== from.code && code !== to.code)
+    .map(code => AIRPORTS.find(airport => airport.code === code)!);
+
+  if (from.lat === undefined || to.lat === undefined) {
+    return candidates[0] || null;
+  }
+
+  // Least detour wins
+  return candidates.reduce<Airport | null>((best, hub) => {
+    if (!best) return hub;
+    return distanceKm(from, hub) + distanceKm(hub, to) < distanceKm(from, best) + distanceKm(best, to) ? hub : best;
+  }, null);
+}
+
+export function resolveLegs(args: FlightSearchArgs): FlightLegRequest[] {
+  let legs: FlightLegRequest[];
+
+  if (args.legs && args.legs.length > 0) {
+    legs = args.legs;
+  } else {
+    if (!args.origin || !args.destination || !args.departureDate) {
+      throw new Error('Provide origin, destination and departureDate, or a legs array for multi-city trips');
+    }
+    legs = [{ origin: args.origin, destination: args.destination, date: args.departureDate }];
+    if (args.returnDate) {
+      legs.push({ origin: args.destination, destination: args.origin, date: args.returnDate });
+    }
+  }
+
+  legs.forEach((leg, index) => {
+    if (resolveAirport(leg.origin).code === resolveAirport(leg.destination).code) {
+      throw new Error(`Leg ${index + 1} starts and ends at ${leg.origin}`);
+    }
+    if (index > 0 && leg.date < legs[index - 1].date) {
+      throw new Error(`Leg ${index + 1} departs before leg ${index}`);
+    }
+  });
+
+  return legs;
+}
+
+export function classifyTrip(legs: FlightLegRequest[]): FlightTripType {
+  if (legs.length === 1) return 'one_way';
+
+  if (legs.length === 2) {
+    const [outbound, inbound] = legs.map(leg => ({
+      origin: resolveAirport(leg.origin).code,
+      destination: resolveAirport(leg.destination).code
+    }));
+    if (inbound.origin === outbound.destination && inbound.destination === outbound.origin) {
+      return 'round_trip';
+    }
+    if (inbound.origin === outbound.destination || inbound.destination === outbound.origin) {
+      return 'open_jaw';
+    }
+  }
+
+  return 'multi_city';
+}
+
+function passengerCounts(args: FlightSearchArgs): Record<PassengerType, number> {
+  const children = args.children || 0;
+  const infants = args.infants || 0;
+  // Without an explicit adult count, passengers is the party total
+  const adults = args.adults ?? Math.max(1, (args.passengers || 1) - children - infants);
+
+  if (infants > adults) {
+    throw new Error('Each infant must travel on the lap of an adult');
+  }
+  return { adult: adults, child: children, infant: infants };
+}
+
+interface BuiltLeg {
+  leg: FlightLeg;
+  fareUSD: number; // Economy adult fare before cabin and offer multipliers
+  seatsLeft: number;
+}
+
+function buildLeg(
+  request: FlightLegRequest,
+  offerIndex: number,
+  cabinClass: CabinClass,
+  inventory: InventoryGenerator
+): BuiltLeg {
+  const offer = OFFERS[offerIndex];
+  const from = resolveAirport(request.origin);
+  const to = resolveAirport(request.destination);
+  const direct = distanceKm(from, to);
+  const carriers = direct > LONG_HAUL_KM ? AIRLINES.international : AIRLINES.domestic;
+  const airline = carriers[offerIndex % carriers.length];
+
+  const hub = offer.connecting ? pickHub(from, to) : null;
+  const stops = hub ? [from, hub, to] : [from, to];
+
+  const segments: FlightSegment[] = [];
+  const layovers: FlightLayover[] = [];
+  let departure = `${request.date}T${offer.departure}`;
+  let distance = 0;
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const duration = flightMinutes(stops[i], stops[i + 1]);
+    const arrival = addMinutes(departure, duration);
+    segments.push({
+      flightNumber: `${airline.code} ${100 + (routeHash(stops[i].code + stops[i + 1].code + offerIndex) % 900)}`,
+      airline: airline.name,
+      from: stops[i].code,
+      to: stops[i + 1].code,
+      departureTime: departure,
+      arrivalTime: arrival,
+      durationMinutes: duration,
+      aircraft: airline.aircraft,
+      cabinClass
+    });
+    distance += distanceKm(stops[i], stops[i + 1]);
+
+    if (i < stops.length - 2) {
+      layovers.push({ airport: stops[i + 1].code, durationMinutes: LAYOVER_MINUTES });
+      departure = addMinutes(arrival, LAYOVER_MINUTES);
+    }
+  }
+
+  // Fares follow the destination's season and drift a little day to day; seats thin out at peak
+  const daily = inventory.random('flight', from.code, to.code, request.date, offerIndex);
+  const season = inventory.season(to.city, request.date);
+  const seatsLeft = Math.max(0, Math.floor(daily() * 10) - (season.name === 'peak' ? 3 : 0));
+
+  return {
+    leg: {
+      origin: from.code,
+      destination: to.code,
+      date: request.date,
+      segments,
+      layovers,
+      durationMinutes: minutesBetween(segments[0].departureTime, segments[segments.length - 1].arrivalTime)
+    },
+    fareUSD: (35 + distance * 0.055) * season.factor * (0.9 + daily() * 0.2),
+    seatsLeft
+  };
+}
+
+function label(place: string): string {
+  const airport = resolveAirport(place);
+  return `${airport.city} (${airport.code})`;
+}
+
+function describeStops(legs: FlightLeg[]): string {
+  const maxStops = Math.max(...legs.map(leg => leg.layovers.length));
+  return maxStops === 0 ? 'Non-stop' : `${maxStops} stop${maxStops > 1 ? 's' : ''}`;
+}
+
+function tripTitle(tripType: FlightTripType, requests: FlightLegRequest[]): string {
+  const city = (place: string) => resolveAirport(place).city;
+
+  if (tripType === 'round_trip') {
+    return `${city(requests[0].origin)} ⇄ ${city(requests[0].destination)}`;
+  }
+
+  // Chain the cities when each leg starts where the previous one landed
+  const contiguous = requests.every((leg, index) =>
+    index === 0 || resolveAirport(leg.origin).code === resolveAirport(requests[index - 1].destination).code
+  );
+  if (contiguous) {
+    return [...requests.map(leg => city(leg.origin)), city(requests[requests.length - 1].destination)].join(' → ');
+  }
+
+  // Open jaw and gapped multi-city: list each leg
+  return requests.map(leg => `${city(leg.origin)} → ${city(leg.destination)}`).join(', ');
+}
+
+// The same flights, cabin and party always get the same id; a different route, date, cabin or party
+// size (any of which changes the fare or the seats needed) gets a different one
+function itineraryId(legs: FlightLeg[], cabinClass: CabinClass, passengers: Record<PassengerType, number>): string {
+  const flights = legs.map(leg => [
+    leg.date,
+    ...leg.segments.map(segment => `${segment.from}${segment.to}${segment.flightNumber.replace(/\s+/g, '')}`)
+  ].join('.'));
+  return `flight_${flights.join('_')}_${cabinClass}_${passengers.adult}a${passengers.child}c${passengers.infant}i`;
+}
+
+export function searchFlights(args: FlightSearchArgs, inventory: InventoryGenerator): TravelRecommendation[] {
+  const requests = resolveLegs(args);
+  const tripType = classifyTrip(requests);
+  const cabinClass = args.class || 'economy';
+  const passengers = passengerCounts(args);
+
+  const results = OFFERS.map((offer, offerIndex) => {
+    const built = requests.map(request => buildLeg(request, offerIndex, cabinClass, inventory));
+    const legs = built.map(item => item.leg);
+
+    // Base fare grows with distance flown; connections are discounted via the offer factor
+    const baseFare = built.reduce((sum, item) => sum + item.fareUSD, 0) *
+      CABIN_MULTIPLIERS[cabinClass] * offer.priceFactor;
+
+    const fares: PassengerFare[] = (Object.keys(passengers) as PassengerType[])
+      .filter(type => passengers[type] > 0)
+      .map(type => {
+        const unitPrice = inventory.convert(baseFare * PASSENGER_MULTIPLIERS[type]);
+        return { type, count: passengers[type], unitPrice, subtotal: unitPrice * passengers[type] };
+      });
+    // Lap infants don't take a seat
+    const seatsNeeded = passengers.adult + passengers.child;
+    const seatsLeft = Math.min(...built.map(item => item.seatsLeft));
+    const total = fares.reduce((sum, fare) => sum + fare.subtotal, 0);
+
+    const itinerary: FlightItinerary = { tripType, cabinClass, legs, fares };
+    const firstLeg = legs[0];
+    const airline = firstLeg.segments[0].airline;
+
+    return {
+      id: itineraryId(legs, cabinClass, passengers),
+      title: tripTitle(tripType, requests),
+      description: `${describeStops(legs)} with ${airline}, ${cabinClass} class`,
+      price: total,
+      currency: inventory.currency,
+      rating: offer.connecting ? 4.1 : 4.4,
+      location: `${requests[0].origin} to ${requests[requests.length - 1].destination}`,
+      images: ['https://images.unsplash.com/photo-1436491865332-7a61a109cc05'],
+      availability: seatsLeft >= seatsNeeded,
+      type: 'flight' as const,
+      details: {
+        // Flat summary of the first leg, for cards that predate the itinerary model
+        airline,
+        departure: label(requests[0].origin),
+        arrival: label(requests[0].destination),
+        date: firstLeg.date,
+        returnDate: legs.length === 2 ? legs[1].date : undefined,
+        departureTime: firstLeg.segments[0].departureTime.slice(11),
+        arrivalTime: firstLeg.segments[firstLeg.segments.length - 1].arrivalTime.slice(11),
+        duration: `${Math.floor(firstLeg.durationMinutes / 60)}h ${firstLeg.durationMinutes % 60}m`,
+        stops: firstLeg.layovers.length,
+        aircraft: firstLeg.segments[0].aircraft,
+        seatsLeft,
+        ...itinerary
+      }
+    };
+  }).sort((a, b) => a.price - b.price);
+
+  if (args.budget) {
+    const affordable = results.filter(result => result.price <= args.budget!);
+    // Nothing fits: still show the cheapest so the user can see how far off the budget is
+    return affordable.length > 0 ? affordable : results.slice(0, 1);
+  }
+
+  return results;
+}
@@ -0,0 +1,180 @@
+// MCP server-side protocol handling for Nomado AI
+// Answers JSON-RPC messages from external agents using Nomado's own travel tools
+
+import { SUPPORTED_LOCATIONS } from '@/constants';
+import { mockHotels } from '@/utils/mockHotels';
+import { MCP_TOOLS, mockMCPServer } from './server';
+import {
+  JSONRPC_ERRORS,
+  MCP_PROTOCOL_VERSION,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  type JSONRPCErrorObject,
+  type JSONRPCMessage,
+  type JSONRPCResponse,
+  type MCPInitializeResult,
+  type MCPTransport
+} from './transport';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2024-11-05'];
+
+export const MCP_SERVER_INFO = {
+  name: 'nomado-ai',
+  version: '0.1.0'
+};
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+const HOTELS_URI_PREFIX = 'nomado://hotels/';
+
+const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: `${HOTELS_URI_PREFIX}{city}`,
+    name: 'Hotels by city',
+    description: 'Hotel inventory for a city, e.g. nomado://hotels/goa',
+    mimeType: 'application/json'
+  }
+];
+
+function listResources(): MCPResource[] {
+  return [
+    {
+      uri: 'nomado://destinations',
+      name: 'Supported destinations',
+      description: 'Destinations Nomado can search and plan trips for',
+      mimeType: 'application/json'
+    },
+    ...Object.keys(mockHotels).map(city => ({
+      uri: `${HOTELS_URI_PREFIX}${encodeURIComponent(city)}`,
+      name: `Hotels in ${city.replace(/\b\w/g, c => c.toUpperCase())}`,
+      mimeType: 'application/json'
+    }))
+  ];
+}
+
+function readResource(uri: string): { uri: string; mimeType: string; text: string } | null {
+  if (uri === 'nomado://destinations') {
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify({ destinations: SUPPORTED_LOCATIONS, hotelCities: Object.keys(mockHotels) })
+    };
+  }
+
+  if (uri.startsWith(HOTELS_URI_PREFIX)) {
+    const city = decodeURIComponent(uri.slice(HOTELS_URI_PREFIX.length)).toLowerCase();
+    const hotels = mockHotels[city];
+    if (hotels) {
+      return { uri, mimeType: 'application/json', text: JSON.stringify({ city, hotels }) };
+    }
+  }
+
+  return null;
+}
+
+function success(id: JSONRPCResponse['id'], result: any): JSONRPCResponse {
+  return { jsonrpc: '2.0', id, result };
+}
+
+function failure(id: JSONRPCResponse['id'], code: number, message: string, data?: any): JSONRPCResponse {
+  const error: JSONRPCErrorObject = { code, message };
+  if (data !== undefined) {
+    error.data = data;
+  }
+  return { jsonrpc: '2.0', id, error };
+}
+
+function isValidMessage(message: any): message is JSONRPCMessage {
+  return message !== null &&
+    typeof message === 'object' &&
+    message.jsonrpc === '2.0' &&
+    (typeof message.method === 'string' || 'result' in message || 'error' in message);
+}
+
+// Returns the response for a request, or null for notifications and client responses
+export async function handleMCPMessage(
+  message: unknown,
+  tools: MCPTransport = mockMCPServer
+): Promise<JSONRPCResponse | null> {
+  if (!isValidMessage(message)) {
+    return failure(null, JSONRPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC 2.0 message');
+  }
+
+  if (isJSONRPCNotification(message) || !isJSONRPCRequest(message)) {
+    // notifications/initialized, notifications/cancelled and replies need no answer
+    return null;
+  }
+
+  const { id, method, params = {} } = message;
+
+  try {
+    switch (method) {
+      case 'initialize': {
+        const requested = params.protocolVersion;
+        const result: MCPInitializeResult = {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.indexOf(requested) !== -1 ? requested : MCP_PROTOCOL_VERSION,
+          capabilities: {
+            tools: { listChanged: false },
+            resources: { subscribe: false, listChanged: false }
+          },
+          serverInfo: MCP_SERVER_INFO,
+          instructions: 'Nomado AI travel tools: search hotels, flights, tours and activities, build itineraries and get travel advice.'
+        };
+        return success(id, result);
+      }
+
+      case 'ping':
+        return success(id, {});
+
+      case 'tools/list':
+        return success(id, { tools: await tools.listTools() });
+
+      case 'tools/call': {
+        if (typeof params.name !== 'string') {
+          return failure(id, JSONRPC_ERRORS.INVALID_PARAMS, 'Tool name is required');
+        }
+        if (!MCP_TOOLS.some(tool => tool.name === params.name)) {
+          return failure(id, JSONRPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${params.name}`);
+        }
+
+        const result = await tools.callTool({
+          method: 'tools/call',
+          params: { name: params.name, arguments: params.arguments || {} }
+        });
+        return success(id, result);
+      }
+
+      case 'resources/list':
+        return success(id, { resources: listResources() });
+
+      case 'resources/templates/list':
+        return success(id, { resourceTemplates: RESOURCE_TEMPLATES });
+
+      case 'resources/read': {
+        const resource = typeof params.uri === 'string' ? readResource(params.uri) : null;
+        if (!resource) {
+          return failure(id, -32002, 'Resource not found', { uri: params.uri });
+        }
+        return success(id, { contents: [resource] });
+      }
+
+      default:
+        return failure(id, JSONRPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  } catch (error) {
+    console.error(`MCP ${method} failed:`, error);
+    return failure(id, JSONRPC_ERRORS.INTERNAL_ERROR, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,77 @@
+// Intent extraction for Nomado AI
+// An IntentModel picks one of the MCP tools for a user query and fills in its arguments
+
+import type { MCPBookingIntent } from '@/types';
+import type { MCPTool } from './server';
+
+export interface ToolSelection {
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface IntentContext {
+  today: string; // YYYY-MM-DD, lets the model resolve "next weekend" or "in September"
+  slots?: MCPBookingIntent['parameters']; // Trip details gathered in earlier turns
+}
+
+export interface IntentModel {
+  // Resolves to null when the model declines to pick a tool
+  selectTool(query: string, tools: MCPTool[], context: IntentContext): Promise<ToolSelection | null>;
+}
+
+// What the client acts on: an intent type plus tool arguments, and who produced them
+export interface AgentIntent {
+  type: string;
+  params: Record<string, any>;
+  source: 'llm' | 'rules';
+}
+
+// Maps MCP tool names onto the client's intent types
+export const TOOL_INTENTS: Record<string, string> = {
+  search_hotels: 'hotel_search',
+  search_flights: 'flight_search',
+  search_tours: 'tour_search',
+  search_activities: 'activity_search',
+  create_itinerary: 'itinerary_request',
+  get_travel_advice: 'travel_advice'
+};
+
+export const INTENT_SYSTEM_PROMPT = `You route travel requests for Nomado AI to exactly one tool.
+Pick the tool that best matches the request and fill in every argument you can infer.
+Dates must be YYYY-MM-DD; resolve relative dates ("next weekend", "in September") against today's date, always choosing a future date.
+Budgets are plain numbers in the currency the user mentioned. Leave out arguments the user did not give or imply.`;
+
+// Reverse of TOOL_INTENTS
+export const INTENT_TOOLS: Record<string, string> = Object.keys(TOOL_INTENTS).reduce((acc, tool) => {
+  acc[TOOL_INTENTS[tool]] = tool;
+  return acc;
+}, {} as Record<string, string>);
+
+export function buildIntentContext(slots?: MCPBookingIntent['parameters'], now: Date = new Date()): IntentContext {
+  return { today: now.toISOString().split('T')[0], slots };
+}
+
+export interface StubIntentRule {
+  match: RegExp | string;
+  call: ToolSelection | ((query: string) => ToolSelection);
+}
+
+// Deterministic offline model: returns the first scripted tool call whose pattern matches.
+// Useful for exercising the function-calling path without network access.
+export class StubIntentModel implements IntentModel {
+  calls: Array<{ query: string; tools: string[] }> = [];
+
+  constructor(private rules: StubIntentRule[]) {}
+
+  async selectTool(query: string, tools: MCPTool[]): Promise<ToolSelection | null> {
+    this.calls.push({ query, tools: tools.map(tool => tool.name) });
+
+    const rule = this.rules.find(r =>
+      typeof r.match === 'string' ? query.toLowerCase().includes(r.match.toLowerCase()) : r.match.test(query)
+    );
+    if (!rule) return null;
+
+    const selection = typeof rule.call === 'function' ? rule.call(query) : rule.call;
+    return tools.some(tool => tool.name === selection.name) ? selection : null;
+  }
+}
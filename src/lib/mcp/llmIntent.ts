@@ -0,0 +1,47 @@
+// Function-calling intent model - server-side only
+// Works with any LLMProvider that supports tools (OpenAI, Anthropic, local OpenAI-compatible servers)
+
+import type { LLMProvider } from '@/lib/llm/provider';
+import { INTENT_SYSTEM_PROMPT, type IntentContext, type IntentModel, type ToolSelection } from './intent';
+import type { MCPTool } from './server';
+
+export class LLMIntentModel implements IntentModel {
+  constructor(private provider: LLMProvider) {}
+
+  private systemPrompt(context: IntentContext): string {
+    let prompt = `${INTENT_SYSTEM_PROMPT}\nToday is ${context.today}.`;
+
+    if (context.slots && Object.keys(context.slots).length > 0) {
+      prompt += `\nTrip details from earlier in this conversation: ${JSON.stringify(context.slots)}.` +
+        ' Keep them unless the user changes them, and apply refinements like "make it cheaper" to them.';
+    }
+
+    return prompt;
+  }
+
+  async selectTool(query: string, tools: MCPTool[], context: IntentContext): Promise<ToolSelection | null> {
+    const result = await this.provider.chat({
+      temperature: 0,
+      messages: [
+        { role: 'system', content: this.systemPrompt(context) },
+        { role: 'user', content: query }
+      ],
+      tools: tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: { ...tool.inputSchema }
+      })),
+      toolChoice: 'required'
+    });
+
+    const call = result.toolCalls[0];
+    if (!call) {
+      return null;
+    }
+
+    return {
+      name: call.name,
+      arguments: call.arguments ? JSON.parse(call.arguments) : {}
+    };
+  }
+}
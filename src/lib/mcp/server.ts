@@ -1,13 +1,18 @@
 // Model Context Protocol (MCP) Integration for Nomado AI
 // This module handles AI agent interactions and travel recommendations
 
+import { InventoryGenerator } from '@/lib/inventory/generator';
+import type { InventoryOffer } from '@/lib/inventory/provider';
+import { createInventoryRegistry, InventoryRegistry } from '@/lib/inventory/registry';
+import type { MCPTransport } from './transport';
+import { formatViolations, validateAgainstSchema, type JSONSchema } from './validation';
+
 export interface MCPTool {
   name: string;
   description: string;
-  inputSchema: {
-    type: string;
-    properties: Record<string, any>;
-    required?: string[];
+  inputSchema: JSONSchema & {
+    type: 'object';
+    properties: Record<string, JSONSchema>;
   };
 }
 
@@ -61,10 +66,10 @@ export const MCP_TOOLS: MCPTool[] = [
       type: "object",
       properties: {
         destination: { type: "string", description: "Location to search" },
-        checkIn: { type: "string", description: "Check-in date (YYYY-MM-DD)" },
-        checkOut: { type: "string", description: "Check-out date (YYYY-MM-DD)" },
-        guests: { type: "number", description: "Number of guests" },
-        budget: { type: "number", description: "Maximum budget per night" },
+        checkIn: { type: "string", format: "date", description: "Check-in date (YYYY-MM-DD)" },
+        checkOut: { type: "string", format: "date", description: "Check-out date (YYYY-MM-DD)" },
+        guests: { type: "integer", minimum: 1, description: "Number of guests" },
+        budget: { type: "number", minimum: 0, description: "Maximum budget per night" },
         preferences: { type: "array", items: { type: "string" }, description: "Hotel preferences" }
       },
       required: ["destination"]
@@ -72,19 +77,36 @@ export const MCP_TOOLS: MCPTool[] = [
   },
   {
     name: "search_flights",
-    description: "Search for flights between destinations",
+    description: "Search for one-way, round-trip, open-jaw or multi-city flights",
     inputSchema: {
       type: "object",
       properties: {
-        origin: { type: "string", description: "Departure city/airport" },
-        destination: { type: "string", description: "Arrival city/airport" },
-        departureDate: { type: "string", description: "Departure date (YYYY-MM-DD)" },
-        returnDate: { type: "string", description: "Return date (optional)" },
-        passengers: { type: "number", description: "Number of passengers" },
-        budget: { type: "number", description: "Maximum budget" },
-        class: { type: "string", enum: ["economy", "premium", "business", "first"] }
-      },
-      required: ["origin", "destination", "departureDate"]
+        origin: { type: "string", description: "Departure city/airport (one-way and round trips)" },
+        destination: { type: "string", description: "Arrival city/airport (one-way and round trips)" },
+        departureDate: { type: "string", format: "date", description: "Departure date (YYYY-MM-DD)" },
+        returnDate: { type: "string", format: "date", description: "Return date for round trips (optional, YYYY-MM-DD)" },
+        legs: {
+          type: "array",
+          minItems: 1,
+          maxItems: 6,
+          description: "Multi-city or open-jaw trips: one entry per leg in travel order, instead of origin/destination/dates",
+          items: {
+            type: "object",
+            properties: {
+              origin: { type: "string", description: "Departure city/airport" },
+              destination: { type: "string", description: "Arrival city/airport" },
+              date: { type: "string", format: "date", description: "Departure date (YYYY-MM-DD)" }
+            },
+            required: ["origin", "destination", "date"]
+          }
+        },
+        passengers: { type: "integer", minimum: 1, description: "Total number of passengers, if adults/children/infants aren't given" },
+        adults: { type: "integer", minimum: 1, description: "Passengers aged 12+" },
+        children: { type: "integer", minimum: 0, description: "Passengers aged 2-11" },
+        infants: { type: "integer", minimum: 0, description: "Lap infants under 2" },
+        budget: { type: "number", minimum: 0, description: "Maximum total budget for all passengers" },
+        class: { type: "string", enum: ["economy", "premium", "business", "first"], description: "Cabin class (default economy)" }
+      }
     }
   },
   {
@@ -94,11 +116,11 @@ export const MCP_TOOLS: MCPTool[] = [
       type: "object",
       properties: {
         destination: { type: "string", description: "Location for tours" },
-        date: { type: "string", description: "Preferred date (YYYY-MM-DD)" },
+        date: { type: "string", format: "date", description: "Preferred date (YYYY-MM-DD)" },
         duration: { type: "string", description: "Tour duration preference" },
         category: { type: "string", description: "Tour category (adventure, cultural, food, etc.)" },
-        budget: { type: "number", description: "Maximum budget" },
-        groupSize: { type: "number", description: "Number of participants" }
+        budget: { type: "number", minimum: 0, description: "Maximum budget" },
+        groupSize: { type: "integer", minimum: 1, description: "Number of participants" }
       },
       required: ["destination"]
     }
@@ -110,9 +132,9 @@ export const MCP_TOOLS: MCPTool[] = [
       type: "object",
       properties: {
         destination: { type: "string", description: "Location for activities" },
-        date: { type: "string", description: "Activity date (YYYY-MM-DD)" },
+        date: { type: "string", format: "date", description: "Activity date (YYYY-MM-DD)" },
         category: { type: "string", description: "Activity type" },
-        budget: { type: "number", description: "Maximum budget" },
+        budget: { type: "number", minimum: 0, description: "Maximum budget" },
         indoor: { type: "boolean", description: "Indoor activities only" }
       },
       required: ["destination"]
@@ -125,8 +147,8 @@ export const MCP_TOOLS: MCPTool[] = [
       type: "object",
       properties: {
         destination: { type: "string", description: "Main destination" },
-        duration: { type: "number", description: "Trip duration in days" },
-        budget: { type: "number", description: "Total budget" },
+        duration: { type: "integer", minimum: 1, maximum: 30, description: "Trip duration in days" },
+        budget: { type: "number", minimum: 0, description: "Total budget" },
         interests: { type: "array", items: { type: "string" }, description: "Traveler interests" },
         travelStyle: { type: "string", description: "Travel style (luxury, budget, adventure, etc.)" }
       },
@@ -148,10 +170,17 @@ export const MCP_TOOLS: MCPTool[] = [
   }
 ];
 
-// Mock MCP Server Implementation
-export class MockMCPServer {
+// Mock MCP Server Implementation - the in-process transport used in development and tests
+export class MockMCPServer implements MCPTransport {
   private mockDelay = 1000; // Simulate API delay
 
+  // Pass a generator with a fixed seed and reference date for reproducible results;
+  // searches fan out to every provider in the registry, itineraries and advice come from the generator
+  constructor(
+    private inventory: InventoryGenerator = new InventoryGenerator(),
+    private registry: InventoryRegistry = createInventoryRegistry(inventory)
+  ) {}
+
   async listTools(): Promise<MCPTool[]> {
     await this.delay();
     return MCP_TOOLS;
@@ -159,7 +188,24 @@ export class MockMCPServer {
 
   async callTool(request: MCPRequest): Promise<MCPResponse> {
     await this.delay();
-    
+
+    const tool = MCP_TOOLS.find(t => t.name === request.params.name);
+    if (tool) {
+      const violations = validateAgainstSchema(request.params.arguments, tool.inputSchema);
+      if (violations.length > 0) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              error: `Invalid arguments for ${tool.name}: ${formatViolations(violations)}`,
+              violations
+            })
+          }],
+          isError: true
+        };
+      }
+    }
+
     switch (request.params.name) {
       case "search_hotels":
         return this.mockSearchHotels(request.params.arguments);
@@ -191,179 +237,108 @@ export class MockMCPServer {
     return new Promise(resolve => setTimeout(resolve, this.mockDelay));
   }
 
-  private mockSearchHotels(args: any): MCPResponse {
+  private async mockSearchHotels(args: any): Promise<MCPResponse> {
     const destination = args.destination || "Unknown Location";
-    const budget = args.budget || 200;
-    
-    const mockHotels = [
-      {
-        id: "hotel_1",
-        title: `Luxury Resort in ${destination}`,
-        description: "5-star beachfront resort with spa and pool",
-        price: Math.min(budget * 0.8, 250),
-        currency: "USD",
-        rating: 4.8,
-        location: destination,
-        images: ["https://images.unsplash.com/photo-1566073771259-6a8506099945"],
-        amenities: ["Pool", "Spa", "WiFi", "Restaurant", "Gym"],
-        availability: true,
-        type: "hotel" as const
-      },
-      {
-        id: "hotel_2", 
-        title: `Boutique Hotel ${destination}`,
-        description: "Charming boutique hotel in city center",
-        price: Math.min(budget * 0.6, 150),
-        currency: "USD",
-        rating: 4.5,
-        location: destination,
-        images: ["https://images.unsplash.com/photo-1551882547-ff40c63fe5fa"],
-        amenities: ["WiFi", "Restaurant", "Concierge"],
-        availability: true,
-        type: "hotel" as const
-      }
-    ];
+    const { offers: hotels } = await this.registry.search({
+      type: 'hotel',
+      destination,
+      checkIn: args.checkIn,
+      checkOut: args.checkOut,
+      guests: args.guests,
+      budget: args.budget
+    });
 
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
           query: `Hotels in ${destination}`,
-          results: mockHotels,
-          totalResults: mockHotels.length,
+          results: hotels,
+          totalResults: hotels.length,
           searchTime: "0.8s"
         })
       }]
     };
   }
 
-  private mockSearchFlights(args: any): MCPResponse {
-    const origin = args.origin || "Unknown";
-    const destination = args.destination || "Unknown";
-    
-    const mockFlights = [
-      {
-        id: "flight_1",
-        title: `${origin} → ${destination}`,
-        description: "Direct flight with major airline",
-        price: 450,
-        currency: "USD",
-        rating: 4.3,
-        location: `${origin} to ${destination}`,
-        images: ["https://images.unsplash.com/photo-1436491865332-7a61a109cc05"],
-        type: "flight" as const,
-        details: {
-          airline: "Global Airways",
-          duration: "3h 45m",
-          departure: "08:30",
-          arrival: "12:15",
-          aircraft: "Boeing 737"
-        }
-      }
-    ];
+  private async mockSearchFlights(args: any): Promise<MCPResponse> {
+    const { offers: results, failures } = await this.registry.search({ ...args, type: 'flight' });
+
+    if (results.length === 0) {
+      // Incomplete routes can't be caught by the schema alone (legs OR origin/destination/date)
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify({
+            error: `Invalid arguments for search_flights: ${failures.length > 0 ? failures[0].error : 'no flights found'}`
+          })
+        }],
+        isError: true
+      };
+    }
+
+    const route = results[0].title;
 
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
-          query: `Flights from ${origin} to ${destination}`,
-          results: mockFlights,
-          totalResults: mockFlights.length
+          query: `Flights ${route}`,
+          tripType: results[0].details.tripType,
+          results,
+          totalResults: results.length
         })
       }]
     };
   }
 
-  private mockSearchTours(args: any): MCPResponse {
+  private async mockSearchTours(args: any): Promise<MCPResponse> {
     const destination = args.destination || "Unknown Location";
-    
-    const mockTours = [
-      {
-        id: "tour_1",
-        title: `Cultural Tour of ${destination}`,
-        description: "Full day cultural exploration with local guide",
-        price: 89,
-        currency: "USD",
-        rating: 4.7,
-        location: destination,
-        images: ["https://images.unsplash.com/photo-1539650116574-75c0c6d0e04f"],
-        type: "tour" as const,
-        details: {
-          duration: "8 hours",
-          groupSize: "Max 12 people",
-          includes: ["Guide", "Lunch", "Transportation"],
-          difficulty: "Easy"
-        }
-      }
-    ];
+    const tours = await this.searchExperiences('tour', destination, args);
 
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
           query: `Tours in ${destination}`,
-          results: mockTours,
-          totalResults: mockTours.length
+          results: tours,
+          totalResults: tours.length
         })
       }]
     };
   }
 
-  private mockSearchActivities(args: any): MCPResponse {
+  private async mockSearchActivities(args: any): Promise<MCPResponse> {
     const destination = args.destination || "Unknown Location";
-    
-    const mockActivities = [
-      {
-        id: "activity_1",
-        title: `Adventure Sports in ${destination}`,
-        description: "Thrilling outdoor adventure activities",
-        price: 65,
-        currency: "USD",
-        rating: 4.6,
-        location: destination,
-        images: ["https://images.unsplash.com/photo-1544197150-b99a580bb7a8"],
-        type: "activity" as const,
-        details: {
-          duration: "4 hours",
-          difficulty: "Moderate",
-          equipment: "Provided",
-          ageLimit: "16+"
-        }
-      }
-    ];
+    const activities = await this.searchExperiences('activity', destination, args);
 
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
           query: `Activities in ${destination}`,
-          results: mockActivities,
-          totalResults: mockActivities.length
+          results: activities,
+          totalResults: activities.length
         })
       }]
     };
   }
 
+  private async searchExperiences(type: 'tour' | 'activity', destination: string, args: any): Promise<InventoryOffer[]> {
+    const { offers } = await this.registry.search({
+      type,
+      destination,
+      date: args.date,
+      groupSize: args.groupSize,
+      budget: args.budget
+    });
+    return offers;
+  }
+
   private mockCreateItinerary(args: any): MCPResponse {
     const destination = args.destination || "Unknown Location";
     const duration = args.duration || 3;
-    
-    const itinerary = {
-      destination,
-      duration: `${duration} days`,
-      overview: `Complete ${duration}-day itinerary for ${destination}`,
-      dailyPlan: Array.from({ length: duration }, (_, i) => ({
-        day: i + 1,
-        title: `Day ${i + 1}: Explore ${destination}`,
-        activities: [
-          "Morning: Local breakfast and city tour",
-          "Afternoon: Visit main attractions",
-          "Evening: Local dining experience"
-        ],
-        estimatedCost: 120
-      })),
-      totalEstimatedCost: duration * 120
-    };
+    const itinerary = this.inventory.itinerary(destination, duration, args.interests);
 
     return {
       content: [{
@@ -378,25 +353,12 @@ export class MockMCPServer {
 
   private mockGetTravelAdvice(args: any): MCPResponse {
     const query = args.query || "";
-    const destination = args.destination || "your destination";
-    
-    const advice = [
-      `For ${destination}, I recommend visiting during the shoulder season for better prices and fewer crowds.`,
-      "Pack light and bring versatile clothing that can be layered.",
-      "Always have travel insurance and keep digital copies of important documents.",
-      "Learn a few basic phrases in the local language - locals appreciate the effort!",
-      "Research local customs and tipping practices before you go."
-    ];
-
-    const response = query.toLowerCase().includes("budget") 
-      ? "For budget travel, consider staying in hostels, eating at local markets, and using public transportation."
-      : advice[Math.floor(Math.random() * advice.length)];
 
     return {
       content: [{
         type: "text",
         text: JSON.stringify({
-          advice: response,
+          advice: this.inventory.advice(query, args.destination),
           confidence: 0.9,
           source: "AI Travel Assistant"
         })
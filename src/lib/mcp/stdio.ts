@@ -0,0 +1,100 @@
+// Stdio MCP transport - server-side only
+// Launches a local MCP server as a child process and exchanges newline-delimited JSON-RPC
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { JSONRPCTransport, type JSONRPCMessage, type MCPTransportOptions } from './transport';
+
+export interface StdioMCPTransportOptions extends MCPTransportOptions {
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+export class StdioMCPTransport extends JSONRPCTransport {
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private buffer = '';
+
+  constructor(private command: string, private options: StdioMCPTransportOptions = {}) {
+    super(options);
+  }
+
+  protected async send(message: JSONRPCMessage): Promise<void> {
+    const child = this.start();
+
+    await new Promise<void>((resolve, reject) => {
+      child.stdin.write(JSON.stringify(message) + '\n', error => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.child) {
+      this.child.stdin.end();
+      this.child.kill();
+      this.child = null;
+    }
+    this.rejectAll(new Error('MCP transport closed'));
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    if (this.child) {
+      return this.child;
+    }
+
+    console.log('🔌 Starting MCP server:', this.command, ...(this.options.args || []));
+
+    const child = spawn(this.command, this.options.args || [], {
+      cwd: this.options.cwd,
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => this.handleChunk(chunk));
+
+    // MCP servers log to stderr; surface it without treating it as protocol data
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => console.warn(`[mcp:${this.command}]`, chunk.trim()));
+
+    child.on('error', error => {
+      console.error('MCP server process error:', error);
+      this.child = null;
+      this.rejectAll(error);
+    });
+
+    child.on('exit', code => {
+      if (this.child === child) {
+        this.child = null;
+        this.rejectAll(new Error(`MCP server exited with code ${code}`));
+      }
+    });
+
+    this.child = child;
+    return child;
+  }
+
+  private handleChunk(chunk: string) {
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+
+      if (line) {
+        try {
+          this.handleMessage(JSON.parse(line));
+        } catch (error) {
+          console.warn('Skipping malformed MCP message:', line);
+        }
+      }
+
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+}
@@ -0,0 +1,376 @@
+// MCP transport layer for Nomado AI
+// Speaks Model Context Protocol JSON-RPC 2.0 to external MCP servers
+
+import type { MCPRequest, MCPResponse, MCPTool } from './server';
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+export const MCP_CLIENT_INFO = {
+  name: 'nomado-ai',
+  version: '0.1.0'
+};
+
+// Anything the NomadoMCPClient can talk to: the in-process MockMCPServer or a real MCP server
+export interface MCPTransport {
+  listTools(): Promise<MCPTool[]>;
+  callTool(request: MCPRequest): Promise<MCPResponse>;
+  close?(): Promise<void>;
+}
+
+export type JSONRPCId = string | number;
+
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id: JSONRPCId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JSONRPCNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JSONRPCErrorObject {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: JSONRPCId | null;
+  result?: any;
+  error?: JSONRPCErrorObject;
+}
+
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCNotification | JSONRPCResponse;
+
+// Standard JSON-RPC 2.0 error codes
+export const JSONRPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603
+} as const;
+
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: {
+    name: string;
+    version: string;
+  };
+  instructions?: string;
+}
+
+export interface MCPTransportOptions {
+  requestTimeoutMs?: number;
+}
+
+export type MCPNotificationHandler = (notification: JSONRPCNotification) => void;
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export function isJSONRPCResponse(message: JSONRPCMessage): message is JSONRPCResponse {
+  return 'id' in message && !('method' in message);
+}
+
+export function isJSONRPCRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return 'id' in message && 'method' in message;
+}
+
+export function isJSONRPCNotification(message: JSONRPCMessage): message is JSONRPCNotification {
+  return !('id' in message) && 'method' in message;
+}
+
+// Shared JSON-RPC plumbing: request ids, the initialize handshake and notification dispatch.
+// Concrete transports only need to know how to put a message on the wire.
+export abstract class JSONRPCTransport implements MCPTransport {
+  private nextId = 1;
+  private pending: Map<JSONRPCId, PendingRequest> = new Map();
+  private initializing: Promise<MCPInitializeResult> | null = null;
+  private notificationHandlers: Set<MCPNotificationHandler> = new Set();
+  private toolsCache: MCPTool[] | null = null;
+  protected requestTimeoutMs: number;
+  serverInfo: MCPInitializeResult | null = null;
+
+  constructor(options: MCPTransportOptions = {}) {
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 30000;
+  }
+
+  protected abstract send(message: JSONRPCMessage): Promise<void>;
+
+  abstract close(): Promise<void>;
+
+  async initialize(): Promise<MCPInitializeResult> {
+    if (!this.initializing) {
+      this.initializing = (async () => {
+        const result: MCPInitializeResult = await this.request('initialize', {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: MCP_CLIENT_INFO
+        });
+        this.serverInfo = result;
+        await this.notify('notifications/initialized');
+        return result;
+      })();
+
+      // Allow a retry if the handshake failed
+      this.initializing.catch(() => {
+        this.initializing = null;
+      });
+    }
+
+    return this.initializing;
+  }
+
+  async listTools(): Promise<MCPTool[]> {
+    await this.initialize();
+
+    if (this.toolsCache) {
+      return this.toolsCache;
+    }
+
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.request('tools/list', cursor ? { cursor } : {});
+      tools.push(...(result.tools || []));
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    this.toolsCache = tools;
+    return tools;
+  }
+
+  async callTool(request: MCPRequest): Promise<MCPResponse> {
+    await this.initialize();
+
+    const result = await this.request('tools/call', {
+      name: request.params.name,
+      arguments: request.params.arguments
+    });
+
+    return {
+      content: result.content || [],
+      isError: result.isError
+    };
+  }
+
+  onNotification(handler: MCPNotificationHandler): () => void {
+    this.notificationHandlers.add(handler);
+    return () => {
+      this.notificationHandlers.delete(handler);
+    };
+  }
+
+  protected async request(method: string, params?: Record<string, any>): Promise<any> {
+    const id = this.nextId++;
+
+    const response = new Promise<any>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request "${method}" timed out after ${this.requestTimeoutMs}ms`));
+      }, this.requestTimeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    try {
+      await this.send({ jsonrpc: '2.0', id, method, params });
+    } catch (error) {
+      this.settle(id, undefined, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    return response;
+  }
+
+  protected async notify(method: string, params?: Record<string, any>): Promise<void> {
+    await this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  // Called by concrete transports for every message that arrives from the server
+  protected handleMessage(message: JSONRPCMessage) {
+    if (isJSONRPCResponse(message)) {
+      if (message.id === null) {
+        console.warn('MCP server reported an error without a request id:', message.error);
+        return;
+      }
+
+      const error = message.error
+        ? new Error(`MCP error ${message.error.code}: ${message.error.message}`)
+        : undefined;
+      this.settle(message.id, message.result, error);
+      return;
+    }
+
+    if (isJSONRPCRequest(message)) {
+      // We advertise no client capabilities, so only ping is expected
+      const reply: JSONRPCResponse = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : {
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: JSONRPC_ERRORS.METHOD_NOT_FOUND, message: `Method not found: ${message.method}` }
+          };
+      this.send(reply).catch(error => console.error('Failed to reply to MCP server request:', error));
+      return;
+    }
+
+    if (message.method === 'notifications/tools/list_changed') {
+      this.toolsCache = null;
+    }
+
+    this.notificationHandlers.forEach(handler => handler(message));
+  }
+
+  // Fail everything in flight, e.g. when the underlying connection drops
+  protected rejectAll(error: Error) {
+    Array.from(this.pending.keys()).forEach(id => this.settle(id, undefined, error));
+    this.initializing = null;
+    this.toolsCache = null;
+  }
+
+  private settle(id: JSONRPCId, result: any, error?: Error) {
+    const pending = this.pending.get(id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(result);
+    }
+  }
+}
+
+export interface HttpMCPTransportOptions extends MCPTransportOptions {
+  headers?: Record<string, string>;
+}
+
+// Streamable HTTP transport: every client message is a POST, and the server answers
+// with either a JSON body or an SSE stream carrying one or more JSON-RPC messages.
+export class HttpMCPTransport extends JSONRPCTransport {
+  private sessionId: string | null = null;
+  private headers: Record<string, string>;
+
+  constructor(private url: string, options: HttpMCPTransportOptions = {}) {
+    super(options);
+    this.headers = options.headers || {};
+  }
+
+  protected async send(message: JSONRPCMessage): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      ...this.headers
+    };
+
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.serverInfo) {
+      headers['MCP-Protocol-Version'] = this.serverInfo.protocolVersion;
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(message)
+    });
+
+    const sessionId = response.headers.get('Mcp-Session-Id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Notifications and responses are acknowledged with 202 and no body
+    if (response.status === 202) {
+      return;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+
+    if (contentType.includes('text/event-stream')) {
+      await this.readEventStream(response);
+    } else if (contentType.includes('application/json')) {
+      const data = await response.json();
+      const messages: JSONRPCMessage[] = Array.isArray(data) ? data : [data];
+      messages.forEach(msg => this.handleMessage(msg));
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.sessionId) {
+      try {
+        await fetch(this.url, {
+          method: 'DELETE',
+          headers: { ...this.headers, 'Mcp-Session-Id': this.sessionId }
+        });
+      } catch (error) {
+        console.warn('Failed to terminate MCP session:', error);
+      }
+    }
+
+    this.sessionId = null;
+    this.rejectAll(new Error('MCP transport closed'));
+  }
+
+  private async readEventStream(response: Response) {
+    const reader = response.body?.getReader();
+    if (!reader) return;
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        this.handleEvent(event);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (buffer.trim()) {
+      this.handleEvent(buffer);
+    }
+  }
+
+  private handleEvent(event: string) {
+    const data = event
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) return;
+
+    try {
+      this.handleMessage(JSON.parse(data));
+    } catch (error) {
+      console.warn('Skipping malformed MCP event:', data);
+    }
+  }
+}
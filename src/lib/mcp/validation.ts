@@ -0,0 +1,155 @@
+// JSON Schema validation for MCP tool arguments
+// Covers the subset of JSON Schema used by MCP_TOOLS input schemas
+
+export interface JSONSchema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: Array<string | number | boolean>;
+  format?: 'date' | 'date-time';
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface SchemaViolation {
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function isValidDate(value: string): boolean {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return false;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JSONSchema['type']>): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+function validateValue(value: unknown, schema: JSONSchema, path: string, violations: SchemaViolation[]) {
+  if (schema.type && !matchesType(value, schema.type)) {
+    violations.push({
+      path,
+      keyword: 'type',
+      message: `must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}, got ${describeType(value)}`
+    });
+    // Further checks would only repeat the type error
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    violations.push({
+      path,
+      keyword: 'enum',
+      message: `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+    });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.format === 'date' && !isValidDate(value)) {
+      violations.push({ path, keyword: 'format', message: 'must be a valid date in YYYY-MM-DD format' });
+    }
+    if (schema.format === 'date-time' && isNaN(Date.parse(value))) {
+      violations.push({ path, keyword: 'format', message: 'must be a valid ISO 8601 date-time' });
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, keyword: 'minLength', message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, keyword: 'maxLength', message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, keyword: 'minItems', message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, keyword: 'maxItems', message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(item, schema.items!, `${path}[${index}]`, violations));
+    }
+  }
+
+  if (schema.type === 'object' || schema.properties) {
+    validateObject(value as Record<string, unknown>, schema, path, violations);
+  }
+}
+
+function validateObject(value: Record<string, unknown>, schema: JSONSchema, path: string, violations: SchemaViolation[]) {
+  const prefix = path ? `${path}.` : '';
+  const properties = schema.properties || {};
+
+  (schema.required || []).forEach(key => {
+    // Undefined is how optional values are omitted in-process, so treat it as missing
+    if (value[key] === undefined || value[key] === null || value[key] === '') {
+      violations.push({ path: `${prefix}${key}`, keyword: 'required', message: 'is required' });
+    }
+  });
+
+  Object.keys(value).forEach(key => {
+    const propertyValue = value[key];
+    if (propertyValue === undefined) return;
+
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      validateValue(propertyValue, propertySchema, `${prefix}${key}`, violations);
+    } else if (schema.additionalProperties === false) {
+      violations.push({ path: `${prefix}${key}`, keyword: 'additionalProperties', message: 'is not a recognised argument' });
+    }
+  });
+}
+
+// Returns every violation rather than stopping at the first, so callers can fix them in one go
+export function validateAgainstSchema(value: unknown, schema: JSONSchema): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  validateValue(value, schema, '', violations);
+  return violations;
+}
+
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map(v => `${v.path || 'arguments'} ${v.message}`).join('; ');
+}
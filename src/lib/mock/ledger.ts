@@ -0,0 +1,389 @@
+// Mock-mode bookings for chains without a TravelBooking deployment. Kept in the local database
+// so demo bookings survive a reload, and moved through the same transitions the contract enforces,
+// by the same callers: MOCK_PLATFORM_OWNER plays the contract owner
+
+import { PLATFORM_CONFIG, REFUND_POLICIES } from '@/contracts/config';
+import { deployedContract } from '@/contracts/deployments';
+import { getDatabase, type SqliteDatabase } from '@/lib/db/sqlite';
+import type { BookingCreatedData } from '@/lib/indexer/store';
+
+export interface MockBooking extends BookingCreatedData {
+  chainId: number;
+  id: number;
+  status: number; // Same codes as the contract's BookingStatus
+  refundAmount: string | null;
+}
+
+export type NewMockBooking = Omit<BookingCreatedData, 'timestamp'>;
+
+export interface MockVendor {
+  address: string;
+  name: string;
+  payoutAddress: string;
+  active: boolean;
+}
+
+export interface MockRefund {
+  refundAmount: string; // Base units
+  refundBps: number;
+}
+
+export type MockBookingAction = 'confirm' | 'checkIn' | 'complete' | 'cancel' | 'setTicketURI';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const CHECK_IN_WINDOW_SECONDS = 24 * 60 * 60; // CHECK_IN_WINDOW in TravelBooking.sol
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS mock_bookings (
+    chain_id INTEGER NOT NULL,
+    booking_id INTEGER NOT NULL,
+    customer TEXT NOT NULL,
+    vendor TEXT NOT NULL,
+    booking_type TEXT NOT NULL,
+    details TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    token TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    check_in_date INTEGER NOT NULL,
+    check_out_date INTEGER NOT NULL,
+    status INTEGER NOT NULL,
+    metadata_uri TEXT NOT NULL,
+    refund_amount TEXT,
+    PRIMARY KEY (chain_id, booking_id)
+  );
+  CREATE INDEX IF NOT EXISTS mock_bookings_customer ON mock_bookings (chain_id, customer);
+  CREATE INDEX IF NOT EXISTS mock_bookings_vendor ON mock_bookings (chain_id, vendor);
+
+  CREATE TABLE IF NOT EXISTS mock_vendors (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    name TEXT NOT NULL,
+    payout_address TEXT NOT NULL,
+    active INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  );
+
+  CREATE TABLE IF NOT EXISTS mock_vendor_balances (
+    chain_id INTEGER NOT NULL,
+    vendor TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (chain_id, vendor, token)
+  );
+`;
+
+interface MockBookingRow {
+  chain_id: number;
+  booking_id: number;
+  customer: string;
+  vendor: string;
+  booking_type: string;
+  details: string;
+  amount: string;
+  token: string;
+  timestamp: number;
+  check_in_date: number;
+  check_out_date: number;
+  status: number;
+  metadata_uri: string;
+  refund_amount: string | null;
+}
+
+export class MockBookingLedger {
+  private owner: string;
+
+  constructor(private db: SqliteDatabase, owner: string = process.env.MOCK_PLATFORM_OWNER || '') {
+    db.exec(SCHEMA);
+    this.owner = owner.toLowerCase();
+  }
+
+  createBooking(chainId: number, booking: NewMockBooking): MockBooking {
+    if (BigInt(booking.amount) <= BigInt(0)) {
+      throw new Error('Amount must be greater than zero');
+    }
+    if (!booking.bookingType) {
+      throw new Error('Booking type required');
+    }
+    if (!(booking.checkInDate > 0 && booking.checkOutDate >= booking.checkInDate)) {
+      throw new Error('Invalid booking dates');
+    }
+    const vendor = booking.vendor.toLowerCase();
+    if (vendor !== ZERO_ADDRESS && !this.getVendor(chainId, vendor)?.active) {
+      throw new Error('Vendor is not active');
+    }
+
+    let bookingId = 0;
+    this.db.transaction(() => {
+      const { last } = this.db
+        .prepare('SELECT MAX(booking_id) AS last FROM mock_bookings WHERE chain_id = ?')
+        .get(chainId) as { last: number | null };
+      bookingId = (last || 0) + 1;
+      this.db.prepare(`
+        INSERT INTO mock_bookings (
+          chain_id, booking_id, customer, vendor, booking_type, details, amount, token, timestamp,
+          check_in_date, check_out_date, status, metadata_uri, refund_amount
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, NULL)
+      `).run(
+        chainId, bookingId, booking.customer.toLowerCase(), vendor, booking.bookingType, booking.details, booking.amount,
+        booking.token, Math.floor(Date.now() / 1000), booking.checkInDate, booking.checkOutDate, booking.metadataURI
+      );
+    })();
+
+    console.log(`🧪 Mock booking ${bookingId} created on chain ${chainId}`);
+    return this.getBooking(chainId, bookingId)!;
+  }
+
+  getBooking(chainId: number, bookingId: number): MockBooking | null {
+    const row = this.db
+      .prepare('SELECT * FROM mock_bookings WHERE chain_id = ? AND booking_id = ?')
+      .get(chainId, bookingId) as MockBookingRow | undefined;
+    return row ? this.toBooking(row) : null;
+  }
+
+  // Oldest first, like the contract's per-user id lists
+  listBookings(chainId: number, filter: { customer?: string; vendor?: string } = {}): MockBooking[] {
+    const where: string[] = ['chain_id = ?'];
+    const params: (string | number)[] = [chainId];
+    if (filter.customer) {
+      where.push('customer = ?');
+      params.push(filter.customer.toLowerCase());
+    }
+    if (filter.vendor) {
+      where.push('vendor = ?');
+      params.push(filter.vendor.toLowerCase());
+    }
+
+    const rows = this.db
+      .prepare(`SELECT * FROM mock_bookings WHERE ${where.join(' AND ')} ORDER BY booking_id`)
+      .all(...params) as MockBookingRow[];
+    return rows.map(row => this.toBooking(row));
+  }
+
+  // The vendor accepts the booking, or the platform does on their behalf
+  confirm(chainId: number, bookingId: number, caller: string): MockBooking {
+    const booking = this.requireBooking(chainId, bookingId);
+    if (!this.isOwner(caller) && !this.isVendor(booking, caller)) {
+      throw new Error('Only the vendor or platform can confirm');
+    }
+    if (booking.status !== 0) {
+      throw new Error('Booking is not pending');
+    }
+    return this.setStatus(booking, 1);
+  }
+
+  checkIn(chainId: number, bookingId: number, caller: string, now: number = Date.now()): MockBooking {
+    const booking = this.requireBooking(chainId, bookingId);
+    if (!this.isCustomer(booking, caller)) {
+      throw new Error('Only the customer can check in');
+    }
+    if (booking.status !== 1) {
+      throw new Error('Booking is not confirmed');
+    }
+    if (Math.floor(now / 1000) + CHECK_IN_WINDOW_SECONDS < booking.checkInDate) {
+      throw new Error('Too early to check in');
+    }
+    return this.setStatus(booking, 2);
+  }
+
+  // Releases escrow: the vendor is credited the amount less the platform fee
+  complete(chainId: number, bookingId: number, caller: string): MockBooking {
+    if (!this.isOwner(caller)) {
+      throw new Error('Ownable: caller is not the owner');
+    }
+    const booking = this.requireBooking(chainId, bookingId);
+    if (booking.status !== 2) {
+      throw new Error('Booking is not checked in');
+    }
+
+    let completed = booking;
+    this.db.transaction(() => {
+      const amount = BigInt(booking.amount);
+      this.creditVendor(booking, amount - this.platformFee(amount));
+      completed = this.setStatus(booking, 3);
+    })();
+    return completed;
+  }
+
+  // A full refund marks the booking Refunded, anything less Cancelled; whatever is kept goes to
+  // the vendor after the platform fee
+  cancel(chainId: number, bookingId: number, caller: string, now: number = Date.now()): MockBooking {
+    const booking = this.requireBooking(chainId, bookingId);
+    if (!this.isCustomer(booking, caller) && !this.isOwner(caller)) {
+      throw new Error('Not authorized to cancel');
+    }
+    if (booking.status !== 0 && booking.status !== 1) {
+      throw new Error('Booking cannot be cancelled');
+    }
+
+    let cancelled = booking;
+    this.db.transaction(() => {
+      const amount = BigInt(booking.amount);
+      const { refundAmount } = this.previewRefund(chainId, bookingId, now);
+      const retained = amount - BigInt(refundAmount);
+      const fee = this.platformFee(amount);
+      this.creditVendor(booking, retained - (fee < retained ? fee : retained));
+      this.db
+        .prepare('UPDATE mock_bookings SET refund_amount = ? WHERE chain_id = ? AND booking_id = ?')
+        .run(refundAmount, chainId, bookingId);
+      cancelled = this.setStatus(booking, retained === BigInt(0) ? 5 : 4);
+    })();
+    return cancelled;
+  }
+
+  // Unconfirmed bookings refund in full, confirmed ones by notice before check-in
+  previewRefund(chainId: number, bookingId: number, now: number = Date.now()): MockRefund {
+    const booking = this.requireBooking(chainId, bookingId);
+    let refundBps = 0;
+    if (booking.status === 0) {
+      refundBps = 10000;
+    } else if (booking.status === 1) {
+      const hoursBefore = (booking.checkInDate * 1000 - now) / (60 * 60 * 1000);
+      const tiers = REFUND_POLICIES[booking.bookingType] || REFUND_POLICIES.default;
+      const tier = tiers.find(t => hoursBefore >= t.minHoursBefore);
+      refundBps = tier ? tier.refundBps : 0;
+    }
+    return { refundAmount: ((BigInt(booking.amount) * BigInt(refundBps)) / BigInt(10000)).toString(), refundBps };
+  }
+
+  setTicketURI(chainId: number, bookingId: number, caller: string, metadataURI: string): MockBooking {
+    const booking = this.requireBooking(chainId, bookingId);
+    if (!this.isCustomer(booking, caller) && !this.isOwner(caller) && !this.isVendor(booking, caller)) {
+      throw new Error('Not authorized to update the ticket');
+    }
+    if (booking.status !== 0 && booking.status !== 1) {
+      throw new Error('Ticket can no longer be updated');
+    }
+    this.db
+      .prepare('UPDATE mock_bookings SET metadata_uri = ? WHERE chain_id = ? AND booking_id = ?')
+      .run(metadataURI, chainId, bookingId);
+    return this.getBooking(chainId, bookingId)!;
+  }
+
+  registerVendor(chainId: number, vendor: MockVendor): MockVendor {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO mock_vendors (chain_id, address, name, payout_address, active) VALUES (?, ?, ?, ?, ?)
+    `).run(chainId, vendor.address.toLowerCase(), vendor.name, vendor.payoutAddress, vendor.active ? 1 : 0);
+    return this.getVendor(chainId, vendor.address)!;
+  }
+
+  getVendor(chainId: number, address: string): MockVendor | null {
+    const row = this.db
+      .prepare('SELECT address, name, payout_address, active FROM mock_vendors WHERE chain_id = ? AND address = ?')
+      .get(chainId, address.toLowerCase()) as { address: string; name: string; payout_address: string; active: number } | undefined;
+    return row ? { address: row.address, name: row.name, payoutAddress: row.payout_address, active: row.active === 1 } : null;
+  }
+
+  // Token address -> withdrawable base units
+  getVendorBalances(chainId: number, address: string): Record<string, string> {
+    const rows = this.db
+      .prepare('SELECT token, amount FROM mock_vendor_balances WHERE chain_id = ? AND vendor = ?')
+      .all(chainId, address.toLowerCase()) as { token: string; amount: string }[];
+    return rows.reduce((balances, row) => ({ ...balances, [row.token]: row.amount }), {} as Record<string, string>);
+  }
+
+  // Zeroes the vendor's balance in one token and returns what was paid out
+  withdraw(chainId: number, address: string, token: string): string {
+    if (!this.getVendor(chainId, address)) {
+      throw new Error('Vendor not registered');
+    }
+    const amount = this.getVendorBalances(chainId, address)[token.toLowerCase()];
+    if (!amount || BigInt(amount) === BigInt(0)) {
+      throw new Error('Nothing to withdraw');
+    }
+
+    this.db
+      .prepare('UPDATE mock_vendor_balances SET amount = ? WHERE chain_id = ? AND vendor = ? AND token = ?')
+      .run('0', chainId, address.toLowerCase(), token.toLowerCase());
+    return amount;
+  }
+
+  clear(chainId: number) {
+    this.db.transaction(() => {
+      for (const table of ['mock_bookings', 'mock_vendors', 'mock_vendor_balances']) {
+        this.db.prepare(`DELETE FROM ${table} WHERE chain_id = ?`).run(chainId);
+      }
+    })();
+  }
+
+  private requireBooking(chainId: number, bookingId: number): MockBooking {
+    const booking = this.getBooking(chainId, bookingId);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+    return booking;
+  }
+
+  // With no MOCK_PLATFORM_OWNER nobody is the owner, as after renounceOwnership
+  private isOwner(caller: string): boolean {
+    return this.owner !== '' && caller.toLowerCase() === this.owner;
+  }
+
+  private isCustomer(booking: MockBooking, caller: string): boolean {
+    return caller.toLowerCase() === booking.customer;
+  }
+
+  // Platform-operated bookings have no vendor to act for them
+  private isVendor(booking: MockBooking, caller: string): boolean {
+    return booking.vendor !== ZERO_ADDRESS && caller.toLowerCase() === booking.vendor;
+  }
+
+  private setStatus(booking: MockBooking, status: number): MockBooking {
+    this.db
+      .prepare('UPDATE mock_bookings SET status = ? WHERE chain_id = ? AND booking_id = ?')
+      .run(status, booking.chainId, booking.id);
+    return this.getBooking(booking.chainId, booking.id)!;
+  }
+
+  private platformFee(amount: bigint): bigint {
+    return (amount * BigInt(PLATFORM_CONFIG.DEFAULT_FEE)) / BigInt(PLATFORM_CONFIG.FEE_PRECISION);
+  }
+
+  // Nomado-operated bookings have no vendor balance; the contract pays those to the owner
+  private creditVendor(booking: MockBooking, amount: bigint) {
+    if (booking.vendor === ZERO_ADDRESS || amount <= BigInt(0)) return;
+    const token = booking.token.toLowerCase();
+    const current = this.getVendorBalances(booking.chainId, booking.vendor)[token] || '0';
+    this.db.prepare(`
+      INSERT OR REPLACE INTO mock_vendor_balances (chain_id, vendor, token, amount) VALUES (?, ?, ?, ?)
+    `).run(booking.chainId, booking.vendor, token, (BigInt(current) + amount).toString());
+  }
+
+  private toBooking(row: MockBookingRow): MockBooking {
+    return {
+      chainId: row.chain_id,
+      id: row.booking_id,
+      customer: row.customer,
+      vendor: row.vendor,
+      bookingType: row.booking_type,
+      details: row.details,
+      amount: row.amount,
+      token: row.token,
+      timestamp: row.timestamp,
+      checkInDate: row.check_in_date,
+      checkOutDate: row.check_out_date,
+      status: row.status,
+      metadataURI: row.metadata_uri,
+      refundAmount: row.refund_amount
+    };
+  }
+}
+
+let ledger: MockBookingLedger | null = null;
+
+// Why a chain can't use the mock ledger, or null if it can. Chains with a real deployment never do
+export function mockChainError(chainId: number): string | null {
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    return 'chainId is required';
+  }
+  if (deployedContract(chainId)) {
+    return `TravelBooking is deployed on chain ${chainId}; mock bookings are disabled there`;
+  }
+  return null;
+}
+
+export function getMockBookingLedger(): MockBookingLedger {
+  if (!ledger) {
+    ledger = new MockBookingLedger(getDatabase());
+  }
+  return ledger;
+}
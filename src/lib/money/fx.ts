@@ -0,0 +1,144 @@
+// Exchange rates for Nomado AI
+// Rates are units of each currency per 1 USD. The offline fixture always works; set
+// NEXT_PUBLIC_FX_API_URL to an exchangerate-api style endpoint for live fiat rates
+
+import { money, toMajor, type CurrencyCode, type Money } from './money';
+
+export interface RateTable {
+  base: 'USD';
+  rates: Record<string, number>;
+  asOf: string;
+  source: string;
+}
+
+export interface FXSource {
+  name: string;
+  fetchRates(): Promise<RateTable>;
+}
+
+// Offline fixture; the crypto entries are reference prices for payment amounts (ETH at $2,500)
+export const FIXTURE_RATES: RateTable = {
+  base: 'USD',
+  rates: {
+    USD: 1,
+    INR: 83,
+    EUR: 0.92,
+    GBP: 0.79,
+    AED: 3.6725,
+    SGD: 1.35,
+    JPY: 150,
+    ETH: 0.0004,
+    MATIC: 1.43,
+    USDC: 1,
+    USDT: 1,
+    DAI: 1
+  },
+  asOf: '2025-01-01T00:00:00Z',
+  source: 'fixture'
+};
+
+export class FixtureFXSource implements FXSource {
+  name = 'fixture';
+
+  constructor(private table: RateTable = FIXTURE_RATES) {}
+
+  async fetchRates(): Promise<RateTable> {
+    return this.table;
+  }
+}
+
+// Any endpoint answering { rates } with a USD entry, like open.er-api.com/v6/latest/USD
+export class HttpFXSource implements FXSource {
+  name = 'http';
+
+  constructor(private url: string) {}
+
+  async fetchRates(): Promise<RateTable> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`FX source returned ${response.status}`);
+    }
+
+    const data = await response.json();
+    const rates: Record<string, number> = data.rates;
+    if (!rates || typeof rates.USD !== 'number') {
+      throw new Error('FX source response has no usable rates');
+    }
+
+    // Rebase to USD so every table has the same shape
+    const perUSD: Record<string, number> = {};
+    Object.keys(rates).forEach(code => {
+      perUSD[code] = rates[code] / rates.USD;
+    });
+
+    return {
+      base: 'USD',
+      rates: perUSD,
+      asOf: data.time_last_update_utc ? new Date(data.time_last_update_utc).toISOString() : new Date().toISOString(),
+      source: this.url
+    };
+  }
+}
+
+export function createFXSource(url: string | undefined = process.env.NEXT_PUBLIC_FX_API_URL): FXSource {
+  return url ? new HttpFXSource(url) : new FixtureFXSource();
+}
+
+export class FXService {
+  private table: RateTable = FIXTURE_RATES;
+  private fetchedAt = 0;
+
+  constructor(private source: FXSource = new FixtureFXSource(), private ttlMs: number = 60 * 60 * 1000) {}
+
+  setSource(source: FXSource) {
+    this.source = source;
+    this.fetchedAt = 0;
+  }
+
+  rates(): RateTable {
+    return this.table;
+  }
+
+  // Keeps the last good table (or the fixture) when the source is down
+  async refresh(force: boolean = false): Promise<RateTable> {
+    if (!force && this.fetchedAt > 0 && Date.now() - this.fetchedAt < this.ttlMs) {
+      return this.table;
+    }
+
+    try {
+      const fetched = await this.source.fetchRates();
+      // Live fiat sources don't quote crypto; fixture entries fill the gaps
+      this.table = { ...fetched, rates: { ...FIXTURE_RATES.rates, ...fetched.rates } };
+      this.fetchedAt = Date.now();
+      console.log(`💱 Loaded ${Object.keys(fetched.rates).length} FX rates from ${this.source.name}`);
+    } catch (error) {
+      console.warn('⚠️ FX refresh failed, keeping previous rates:', error);
+    }
+    return this.table;
+  }
+
+  canConvert(from: string, to: string): boolean {
+    return typeof this.table.rates[from] === 'number' && typeof this.table.rates[to] === 'number';
+  }
+
+  // How many `to` units one `from` unit buys; works for the crypto entries too
+  rate(from: string, to: string): number {
+    if (!this.canConvert(from, to)) {
+      throw new Error(`No exchange rate from ${from} to ${to}`);
+    }
+    return this.table.rates[to] / this.table.rates[from];
+  }
+
+  convert(value: Money, to: CurrencyCode): Money {
+    if (value.currency === to) return value;
+    return money(toMajor(value) * this.rate(value.currency, to), to);
+  }
+
+  // Major-unit shortcut for sources that author plain numbers, e.g. generated USD inventory
+  convertAmount(amount: number, from: string, to: string): number {
+    return from === to ? amount : amount * this.rate(from, to);
+  }
+}
+
+// Export singleton instance
+export const fxService = new FXService(createFXSource());
@@ -0,0 +1,79 @@
+// Money: an integer amount in the currency's minor units (paise, cents), never a float of rupees
+// Search results still carry plain major-unit prices; convert with money() at the edges
+
+export type CurrencyCode = 'INR' | 'USD' | 'EUR' | 'GBP' | 'AED' | 'SGD' | 'JPY';
+
+// Prices reach the UI in rupees whatever currency the inventory source quoted
+export const DISPLAY_CURRENCY: CurrencyCode = 'INR';
+
+export interface Money {
+  amount: number; // Minor units, always an integer
+  currency: CurrencyCode;
+}
+
+export const CURRENCIES: Record<CurrencyCode, { name: string; minorUnits: number }> = {
+  INR: { name: 'Indian Rupee', minorUnits: 2 },
+  USD: { name: 'US Dollar', minorUnits: 2 },
+  EUR: { name: 'Euro', minorUnits: 2 },
+  GBP: { name: 'British Pound', minorUnits: 2 },
+  AED: { name: 'UAE Dirham', minorUnits: 2 },
+  SGD: { name: 'Singapore Dollar', minorUnits: 2 },
+  JPY: { name: 'Japanese Yen', minorUnits: 0 }
+};
+
+export function isCurrencyCode(code: string): code is CurrencyCode {
+  return Object.prototype.hasOwnProperty.call(CURRENCIES, code);
+}
+
+function currencyOf(code: string): CurrencyCode {
+  if (!isCurrencyCode(code)) {
+    throw new Error(`Unsupported currency: ${code}`);
+  }
+  return code;
+}
+
+function scale(currency: CurrencyCode): number {
+  return Math.pow(10, CURRENCIES[currency].minorUnits);
+}
+
+// From a major-unit amount, e.g. money(1499.5, 'INR') is 149950 paise
+export function money(major: number, currency: string): Money {
+  const code = currencyOf(currency);
+  return { amount: Math.round(major * scale(code)), currency: code };
+}
+
+export function fromMinor(minor: number, currency: string): Money {
+  if (!Number.isInteger(minor)) {
+    throw new Error(`Minor-unit amounts must be whole numbers, got ${minor}`);
+  }
+  return { amount: minor, currency: currencyOf(currency) };
+}
+
+export function toMajor(value: Money): number {
+  return value.amount / scale(value.currency);
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot add ${b.currency} to ${a.currency}; convert first`);
+  }
+  return { amount: a.amount + b.amount, currency: a.currency };
+}
+
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce(addMoney, fromMinor(0, currency));
+}
+
+// Rates, taxes and fees; rounds half up to the nearest minor unit
+export function multiplyMoney(value: Money, factor: number): Money {
+  return { amount: Math.round(value.amount * factor), currency: value.currency };
+}
+
+export function formatMoney(value: Money, locale: string = 'en-IN'): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: CURRENCIES[value.currency].minorUnits
+  }).format(toMajor(value));
+}
@@ -0,0 +1,86 @@
+// Token prices in USD for payment quotes
+// Chainlink feeds are read through the connected wallet's provider; the fixture keeps quotes
+// working offline, in mock mode and on chains without a feed
+
+import { PRICE_FEEDS, QUOTE_CONFIG } from '@/contracts/config';
+import { ethers } from 'ethers';
+import { FIXTURE_RATES } from './fx';
+
+export interface TokenPrice {
+  symbol: string;
+  usd: number;
+  updatedAt: number; // ms
+  source: string;
+}
+
+export interface PriceSource {
+  name: string;
+  getUSDPrice(symbol: string, chainId: number): Promise<TokenPrice>;
+}
+
+const AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+export class FixturePriceSource implements PriceSource {
+  name = 'fixture';
+
+  async getUSDPrice(symbol: string): Promise<TokenPrice> {
+    const perUSD = FIXTURE_RATES.rates[symbol];
+    if (!perUSD) {
+      throw new Error(`No fixture price for ${symbol}`);
+    }
+    return { symbol, usd: 1 / perUSD, updatedAt: Date.parse(FIXTURE_RATES.asOf), source: this.name };
+  }
+}
+
+export class ChainlinkPriceSource implements PriceSource {
+  name = 'chainlink';
+
+  constructor(private provider: ethers.Provider, private maxAgeSeconds: number = QUOTE_CONFIG.MAX_FEED_AGE_SECONDS) {}
+
+  async getUSDPrice(symbol: string, chainId: number): Promise<TokenPrice> {
+    const feeds = PRICE_FEEDS[chainId] || {};
+    const address = feeds[symbol as keyof typeof feeds];
+    if (!address) {
+      throw new Error(`No Chainlink ${symbol}/USD feed on chain ${chainId}`);
+    }
+
+    const feed = new ethers.Contract(address, AGGREGATOR_ABI, this.provider);
+    const [decimals, round] = await Promise.all([feed.decimals(), feed.latestRoundData()]);
+    const answer = Number(ethers.formatUnits(round.answer, decimals));
+    const updatedAt = Number(round.updatedAt) * 1000;
+
+    if (!(answer > 0)) {
+      throw new Error(`Chainlink ${symbol}/USD returned a non-positive price`);
+    }
+    if (Date.now() - updatedAt > this.maxAgeSeconds * 1000) {
+      throw new Error(`Chainlink ${symbol}/USD price is stale`);
+    }
+
+    return { symbol, usd: answer, updatedAt, source: this.name };
+  }
+}
+
+// First source that answers wins, e.g. Chainlink, then the fixture
+export class FallbackPriceSource implements PriceSource {
+  name: string;
+
+  constructor(private sources: PriceSource[]) {
+    this.name = sources.map(source => source.name).join('+');
+  }
+
+  async getUSDPrice(symbol: string, chainId: number): Promise<TokenPrice> {
+    let lastError: unknown = new Error('No price sources configured');
+    for (const source of this.sources) {
+      try {
+        return await source.getUSDPrice(symbol, chainId);
+      } catch (error) {
+        console.warn(`⚠️ ${source.name} price for ${symbol} unavailable:`, error instanceof Error ? error.message : error);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
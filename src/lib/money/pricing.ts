@@ -0,0 +1,37 @@
+// Booking totals, shared by the review screen and the payment step so the total
+// the traveller reviews is the total that gets quoted and paid
+
+import type { BookingOption } from '@/types';
+import { fxService } from './fx';
+import { money, multiplyMoney, sumMoney, type Money } from './money';
+
+const GST_RATE = 0.18;
+const SERVICE_FEE = money(99, 'INR');
+
+export interface PriceBreakdown {
+  base: Money;
+  taxes: Money;
+  serviceFee: Money;
+  total: Money;
+}
+
+// `price` is per night for hotels and per person for tours and activities, so the whole stay or group
+// comes from details.totalPrice when the offer has one; flights already carry every passenger in `price`
+export function bookingPrice(option: Pick<BookingOption, 'price' | 'currency' | 'details'>): Money {
+  const total = option.details?.totalPrice;
+  return money(typeof total === 'number' ? total : option.price, option.currency);
+}
+
+export function priceBooking(option: Pick<BookingOption, 'price' | 'currency' | 'details'>): PriceBreakdown {
+  const base = bookingPrice(option);
+  const taxes = multiplyMoney(base, GST_RATE);
+  // The fee is set in rupees and charged in the booking's own currency
+  const serviceFee = fxService.convert(SERVICE_FEE, base.currency);
+
+  return {
+    base,
+    taxes,
+    serviceFee,
+    total: sumMoney([base, taxes, serviceFee], base.currency)
+  };
+}
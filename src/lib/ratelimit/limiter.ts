@@ -0,0 +1,125 @@
+// Decides whether a request to a rate-limited route may proceed. Independent of Next.js so it can
+// be exercised directly; src/middleware.ts turns rejections into responses
+
+import { loadRatePolicies, policyForPath, type RoutePolicy } from './policies';
+import { createRateLimitStore, type RateLimitStore } from './store';
+
+export interface RateLimitRequest {
+  pathname: string;
+  method: string;
+  ip: string;
+  wallet?: string | null; // X-Wallet-Address, when the client has a connected wallet
+  contentLength: number | null;
+}
+
+export type RateLimitReason = 'rate_limited' | 'payload_too_large' | 'length_required';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  policy: RoutePolicy | null; // Null for routes without a quota
+  status?: 411 | 413 | 429;
+  reason?: RateLimitReason;
+  retryAfterSeconds?: number;
+  limitedBy?: 'ip' | 'wallet';
+  remaining?: number; // Tokens left in the tightest bucket
+}
+
+// Body of a rejected request
+export interface RateLimitRejection {
+  success: false;
+  error: RateLimitReason;
+  message: string;
+  retryAfter?: number; // Seconds, same as the Retry-After header
+}
+
+const METHODS_WITH_BODY = ['POST', 'PUT', 'PATCH'];
+
+// Proxies in front of the app that append to X-Forwarded-For. None are trusted unless the deployment
+// says so, since without a proxy the client writes the header itself; Vercel or one reverse proxy is 1
+export function trustedProxyHops(value: string | undefined = process.env.TRUSTED_PROXY_HOPS): number {
+  const hops = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(hops) && hops >= 0 ? hops : 0;
+}
+
+// Clients can send any X-Forwarded-For they like, and each proxy appends the address it saw, so only
+// the right-most `hops` entries are trustworthy: the client is the address the outermost trusted proxy
+// saw. With no trusted proxies the forwarding headers are ignored altogether
+export function clientIp(headers: Headers, hops: number = trustedProxyHops()): string {
+  if (hops === 0) {
+    return 'unknown';
+  }
+
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(hop => hop.length > 0);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - hops)];
+  }
+  return headers.get('x-real-ip') || 'unknown';
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore = createRateLimitStore(),
+    private policies: RoutePolicy[] = loadRatePolicies()
+  ) {}
+
+  async check(request: RateLimitRequest): Promise<RateLimitDecision> {
+    const policy = policyForPath(request.pathname, this.policies);
+    if (!policy) {
+      return { allowed: true, policy: null };
+    }
+
+    // Size is checked first so oversized requests don't use up the caller's quota
+    if (METHODS_WITH_BODY.indexOf(request.method.toUpperCase()) !== -1) {
+      if (request.contentLength === null) {
+        return { allowed: false, policy, status: 411, reason: 'length_required' };
+      }
+      if (request.contentLength > policy.maxBodyBytes) {
+        return { allowed: false, policy, status: 413, reason: 'payload_too_large' };
+      }
+    }
+
+    const byIp = await this.store.take(`${policy.id}:ip:${request.ip}`, policy.ip);
+    if (!byIp.allowed) {
+      return this.limited(policy, 'ip', byIp.retryAfterMs);
+    }
+
+    const wallet = request.wallet && /^0x[0-9a-fA-F]{40}$/.test(request.wallet) ? request.wallet.toLowerCase() : null;
+    if (!wallet || !policy.wallet) {
+      return { allowed: true, policy, remaining: byIp.remaining };
+    }
+
+    const byWallet = await this.store.take(`${policy.id}:wallet:${wallet}`, policy.wallet);
+    if (!byWallet.allowed) {
+      return this.limited(policy, 'wallet', byWallet.retryAfterMs);
+    }
+    return { allowed: true, policy, remaining: Math.min(byIp.remaining, byWallet.remaining) };
+  }
+
+  private limited(policy: RoutePolicy, limitedBy: 'ip' | 'wallet', retryAfterMs: number): RateLimitDecision {
+    // A bucket that never refills is a block; tell clients to back off for an hour
+    const retryAfterSeconds = isFinite(retryAfterMs) ? Math.max(1, Math.ceil(retryAfterMs / 1000)) : 3600;
+    return { allowed: false, policy, status: 429, reason: 'rate_limited', retryAfterSeconds, limitedBy };
+  }
+}
+
+export function rejectionBody(decision: RateLimitDecision): RateLimitRejection {
+  switch (decision.reason) {
+    case 'length_required':
+      return { success: false, error: 'length_required', message: 'Requests to this endpoint must send Content-Length' };
+    case 'payload_too_large':
+      return { success: false, error: 'payload_too_large', message: `Request body is larger than ${decision.policy?.maxBodyBytes} bytes` };
+    default:
+      return {
+        success: false,
+        error: 'rate_limited',
+        message: `Too many requests from this ${decision.limitedBy === 'wallet' ? 'wallet' : 'address'}; retry in ${decision.retryAfterSeconds}s`,
+        retryAfter: decision.retryAfterSeconds
+      };
+  }
+}
+
+// Export singleton instance
+export const rateLimiter = new RateLimiter();
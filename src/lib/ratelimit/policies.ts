@@ -0,0 +1,78 @@
+// Quotas for the public API routes that fan out to paid upstreams (LLM, MCP tools, Google Maps).
+// Every caller is limited by IP; callers that send X-Wallet-Address also get a per-wallet bucket
+
+import type { BucketConfig } from './store';
+
+export interface RoutePolicy {
+  id: string;
+  path: string; // Route and everything under it
+  ip: BucketConfig;
+  wallet?: BucketConfig;
+  maxBodyBytes: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RoutePolicy[] = [
+  {
+    id: 'chat',
+    path: '/api/chat',
+    ip: { capacity: 10, refillPerMinute: 10 },
+    wallet: { capacity: 20, refillPerMinute: 20 },
+    maxBodyBytes: 64 * 1024 // The whole conversation is posted each turn
+  },
+  {
+    id: 'booking',
+    path: '/api/booking',
+    ip: { capacity: 30, refillPerMinute: 30 },
+    wallet: { capacity: 60, refillPerMinute: 60 },
+    maxBodyBytes: 16 * 1024
+  },
+  {
+    id: 'googleMaps',
+    path: '/api/google-maps',
+    ip: { capacity: 20, refillPerMinute: 60 },
+    maxBodyBytes: 1024
+  }
+];
+
+type PolicyOverride = Partial<Pick<RoutePolicy, 'ip' | 'wallet' | 'maxBodyBytes'>>;
+
+function isBucket(value: unknown): value is BucketConfig {
+  const bucket = value as BucketConfig;
+  return !!bucket && bucket.capacity > 0 && bucket.refillPerMinute >= 0;
+}
+
+// RATE_LIMITS overrides quotas by route id as JSON, e.g.
+// {"chat":{"ip":{"capacity":5,"refillPerMinute":5}},"googleMaps":{"maxBodyBytes":0}}
+export function loadRatePolicies(overrides: string | undefined = process.env.RATE_LIMITS): RoutePolicy[] {
+  if (!overrides) {
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  let parsed: Record<string, PolicyOverride>;
+  try {
+    parsed = JSON.parse(overrides);
+  } catch {
+    console.error('❌ RATE_LIMITS is not valid JSON; using the default quotas');
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  return DEFAULT_RATE_LIMITS.map(policy => {
+    const override = parsed[policy.id];
+    if (!override) return policy;
+
+    if ((override.ip && !isBucket(override.ip)) || (override.wallet && !isBucket(override.wallet))) {
+      console.error(`❌ RATE_LIMITS.${policy.id} needs { capacity > 0, refillPerMinute >= 0 } buckets; keeping the defaults`);
+      return policy;
+    }
+    return {
+      ...policy,
+      ip: override.ip || policy.ip,
+      wallet: override.wallet || policy.wallet,
+      maxBodyBytes: typeof override.maxBodyBytes === 'number' ? override.maxBodyBytes : policy.maxBodyBytes
+    };
+  });
+}
+
+export function policyForPath(pathname: string, policies: RoutePolicy[]): RoutePolicy | null {
+  return policies.find(policy => pathname === policy.path || pathname.indexOf(`${policy.path}/`) === 0) || null;
+}
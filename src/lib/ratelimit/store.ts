@@ -0,0 +1,87 @@
+// Token buckets for rate limiting. Kept free of Node APIs: the limiter runs in Next.js middleware
+
+export interface BucketConfig {
+  capacity: number; // Burst size
+  refillPerMinute: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number; // Whole tokens left after this request
+  retryAfterMs: number; // 0 when allowed
+}
+
+// A backend shared by every instance of the app (e.g. Redis) can replace the in-memory store
+export interface RateLimitStore {
+  readonly id: string;
+  take(key: string, bucket: BucketConfig, now?: number): Promise<TakeResult>;
+  reset(key?: string): Promise<void>;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+  refillPerMs: number;
+  capacity: number;
+}
+
+// Per-process buckets: enough for one server or local testing, not for a horizontally scaled deployment
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly id = 'memory';
+  private buckets = new Map<string, BucketState>();
+  private takesSinceSweep = 0;
+
+  constructor(private sweepEvery: number = 1000) {}
+
+  async take(key: string, bucket: BucketConfig, now: number = Date.now()): Promise<TakeResult> {
+    const refillPerMs = bucket.refillPerMinute / 60000;
+    const state = this.buckets.get(key) || { tokens: bucket.capacity, updatedAt: now, refillPerMs, capacity: bucket.capacity };
+    state.tokens = Math.min(bucket.capacity, state.tokens + (now - state.updatedAt) * refillPerMs);
+    state.updatedAt = now;
+    state.refillPerMs = refillPerMs;
+    state.capacity = bucket.capacity;
+
+    let result: TakeResult;
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      result = { allowed: true, remaining: Math.floor(state.tokens), retryAfterMs: 0 };
+    } else {
+      const retryAfterMs = refillPerMs > 0 ? Math.ceil((1 - state.tokens) / refillPerMs) : Infinity;
+      result = { allowed: false, remaining: 0, retryAfterMs };
+    }
+    this.buckets.set(key, state);
+
+    if (++this.takesSinceSweep >= this.sweepEvery) {
+      this.sweep(now);
+    }
+    return result;
+  }
+
+  async reset(key?: string) {
+    if (key) {
+      this.buckets.delete(key);
+    } else {
+      this.buckets.clear();
+    }
+  }
+
+  // Buckets that have refilled completely hold no information, so idle clients don't pile up
+  private sweep(now: number) {
+    this.takesSinceSweep = 0;
+    this.buckets.forEach((state, key) => {
+      if (state.tokens + (now - state.updatedAt) * state.refillPerMs >= state.capacity) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+// RATE_LIMIT_STORE picks the backend; only the in-memory store ships today
+export function createRateLimitStore(name: string = process.env.RATE_LIMIT_STORE || 'memory'): RateLimitStore {
+  switch (name) {
+    case 'memory':
+      return new MemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+}
@@ -0,0 +1,136 @@
+// Content-addressed storage for ticket metadata. Tokens point at ipfs:// URIs, so any store
+// must hand back the same CID real IPFS would for the same bytes
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface StoredContent {
+  cid: string;
+  uri: string; // ipfs://<cid>, what goes on-chain
+  gatewayUrl: string; // Where a browser can fetch it
+}
+
+export interface ContentStore {
+  readonly id: string;
+  put(content: unknown): Promise<StoredContent>;
+  get(cid: string): Promise<unknown | null>;
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// CIDv1, raw codec, sha2-256 multihash, multibase base32: what `ipfs add --cid-version 1
+// --raw-leaves` produces for a single-block file
+export function computeCid(bytes: Buffer): string {
+  const digest = createHash('sha256').update(bytes).digest();
+  const cid = Buffer.concat([Buffer.from([0x01, 0x55, 0x12, 0x20]), digest]);
+
+  let bits = 0;
+  let value = 0;
+  let encoded = 'b';
+  for (let i = 0; i < cid.length; i++) {
+    value = (value << 8) | cid[i];
+    bits += 8;
+    while (bits >= 5) {
+      encoded += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    encoded += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return encoded;
+}
+
+export function cidFromUri(uri: string): string | null {
+  const match = uri.match(/^ipfs:\/\/(?:ipfs\/)?([a-z0-9]+)$/i);
+  return match ? match[1] : null;
+}
+
+function serialize(content: unknown): Buffer {
+  return Buffer.from(JSON.stringify(content), 'utf8');
+}
+
+// Local IPFS stand-in: same CIDs, files on disk, served by /api/tickets/content
+export class LocalContentStore implements ContentStore {
+  readonly id = 'local';
+  private cache = new Map<string, unknown>();
+
+  constructor(private directory: string = path.join(process.cwd(), '.nomado', 'content')) {}
+
+  async put(content: unknown): Promise<StoredContent> {
+    const bytes = serialize(content);
+    const cid = computeCid(bytes);
+
+    if (!this.cache.has(cid)) {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(path.join(this.directory, cid), bytes);
+      this.cache.set(cid, JSON.parse(bytes.toString('utf8')));
+      console.log(`📌 Stored ${cid} in the local content store`);
+    }
+    return { cid, uri: `ipfs://${cid}`, gatewayUrl: `/api/tickets/content/${cid}` };
+  }
+
+  async get(cid: string): Promise<unknown | null> {
+    if (this.cache.has(cid)) {
+      return this.cache.get(cid);
+    }
+    if (!/^[a-z0-9]+$/.test(cid)) {
+      return null;
+    }
+
+    try {
+      const content = JSON.parse(await fs.readFile(path.join(this.directory, cid), 'utf8'));
+      this.cache.set(cid, content);
+      return content;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// A Kubo (go-ipfs) node's RPC API, pinning what it adds
+export class IpfsHttpContentStore implements ContentStore {
+  readonly id = 'ipfs';
+
+  constructor(private apiUrl: string, private gatewayUrl: string = 'https://ipfs.io/ipfs/') {}
+
+  async put(content: unknown): Promise<StoredContent> {
+    const form = new FormData();
+    form.append('file', new Blob([serialize(content).toString('utf8')], { type: 'application/json' }), 'metadata.json');
+
+    const response = await fetch(`${this.apiUrl}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`, {
+      method: 'POST',
+      body: form
+    });
+    if (!response.ok) {
+      throw new Error(`IPFS add failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { Hash: cid } = await response.json();
+    return { cid, uri: `ipfs://${cid}`, gatewayUrl: `${this.gatewayUrl}${cid}` };
+  }
+
+  async get(cid: string): Promise<unknown | null> {
+    const response = await fetch(`${this.apiUrl}/api/v0/cat?arg=${encodeURIComponent(cid)}`, { method: 'POST' });
+    if (!response.ok) {
+      return null;
+    }
+    return response.json();
+  }
+}
+
+// TICKET_CONTENT_STORE picks the backend; 'ipfs' needs IPFS_API_URL
+export function createContentStore(name: string = process.env.TICKET_CONTENT_STORE || 'local'): ContentStore {
+  switch (name) {
+    case 'local':
+      return new LocalContentStore(process.env.TICKET_CONTENT_DIR || undefined);
+    case 'ipfs':
+      if (!process.env.IPFS_API_URL) {
+        throw new Error('IPFS_API_URL is required for the ipfs content store');
+      }
+      return new IpfsHttpContentStore(process.env.IPFS_API_URL.replace(/\/$/, ''), process.env.IPFS_GATEWAY_URL || undefined);
+    default:
+      throw new Error(`Unknown content store: ${name}`);
+  }
+}
@@ -0,0 +1,282 @@
+// Booking tickets: ERC-721 metadata for a booking, the QR payload printed on it,
+// and the check a hotel or airline runs when the traveller presents it
+
+import { TRAVEL_BOOKING_ABI } from '@/contracts/abis/TravelBooking';
+import { BOOKING_STATUS, TICKET_CONFIG } from '@/contracts/config';
+import { deployedContract } from '@/contracts/deployments';
+import { serverRpcUrls } from '@/lib/config/providers';
+import { getMockBookingLedger, type MockBookingLedger } from '@/lib/mock/ledger';
+import type { BookingOption } from '@/types';
+import { ethers } from 'ethers';
+import { cidFromUri, createContentStore, type ContentStore, type StoredContent } from './contentStore';
+
+export interface TicketRef {
+  chainId: number;
+  contract: string; // Zero address for tickets issued by the mock-mode demo
+  tokenId: number; // Same as the booking id
+  holder: string;
+}
+
+export interface TicketRequest {
+  chainId: number;
+  tokenId: number;
+  holder: string;
+  booking: BookingOption;
+  checkInDate: number; // Unix seconds, as stored on-chain
+  checkOutDate: number;
+  payment: { amount: string; token: string };
+}
+
+export interface TicketMetadata {
+  name: string;
+  description: string;
+  attributes: { trait_type: string; value: string | number; display_type?: string }[];
+  itinerary: {
+    type: BookingOption['type'];
+    title: string;
+    location?: string;
+    departure?: string;
+    arrival?: string;
+    carrier?: string;
+    date?: string;
+  };
+  checkInWindow: { opensAt: string; checkIn: string; checkOut: string };
+  qr: string;
+  ticket: TicketRef;
+}
+
+export interface IssuedTicket extends StoredContent {
+  metadata: TicketMetadata;
+}
+
+export type TicketRejection =
+  | 'malformed'
+  | 'unknown_contract'
+  | 'not_issued' // Never confirmed, or cancelled since
+  | 'holder_mismatch'
+  | 'not_active' // Completed, cancelled or refunded
+  | 'too_early'
+  | 'expired';
+
+export interface TicketVerification {
+  valid: boolean;
+  reason?: TicketRejection;
+  message: string;
+  ticket?: TicketRef;
+  booking?: { status: string; title?: string; checkIn: string; checkOut: string };
+  simulated: boolean; // Checked against the mock booking ledger, because the chain has no deployment
+}
+
+// nomado-ticket:1:<chainId>:<contract>:<tokenId>:<holder>
+export function encodeTicketQr(ref: TicketRef): string {
+  return [TICKET_CONFIG.QR_PREFIX, 1, ref.chainId, ref.contract.toLowerCase(), ref.tokenId, ref.holder.toLowerCase()].join(':');
+}
+
+export function parseTicketQr(payload: string): TicketRef | null {
+  const parts = payload.trim().split(':');
+  if (parts.length !== 6 || parts[0] !== TICKET_CONFIG.QR_PREFIX || parts[1] !== '1') {
+    return null;
+  }
+
+  const chainId = Number(parts[2]);
+  const tokenId = Number(parts[4]);
+  if (!Number.isInteger(chainId) || !Number.isInteger(tokenId) || tokenId <= 0) {
+    return null;
+  }
+  if (!ethers.isAddress(parts[3]) || !ethers.isAddress(parts[5])) {
+    return null;
+  }
+  return { chainId, contract: parts[3], tokenId, holder: parts[5] };
+}
+
+const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+export function buildTicketMetadata(request: TicketRequest, contract: string): TicketMetadata {
+  const { booking } = request;
+  const details = booking.details || {};
+  const ref: TicketRef = {
+    chainId: request.chainId,
+    contract: contract.toLowerCase(),
+    tokenId: request.tokenId,
+    holder: request.holder.toLowerCase()
+  };
+  const opensAt = request.checkInDate - TICKET_CONFIG.CHECK_IN_OPENS_HOURS * 3600;
+
+  return {
+    name: `Nomado ticket #${request.tokenId}: ${booking.title}`,
+    description: booking.description,
+    attributes: [
+      { trait_type: 'Type', value: booking.type },
+      { trait_type: 'Check-in', value: request.checkInDate, display_type: 'date' },
+      { trait_type: 'Check-out', value: request.checkOutDate, display_type: 'date' },
+      { trait_type: 'Paid', value: `${request.payment.amount} ${request.payment.token}` }
+    ],
+    itinerary: {
+      type: booking.type,
+      title: booking.title,
+      location: details.location,
+      departure: details.departure,
+      arrival: details.arrival,
+      carrier: details.airline,
+      date: details.date || details.checkIn
+    },
+    checkInWindow: { opensAt: toIso(opensAt), checkIn: toIso(request.checkInDate), checkOut: toIso(request.checkOutDate) },
+    qr: encodeTicketQr(ref),
+    ticket: ref
+  };
+}
+
+export class TicketService {
+  constructor(
+    private store: ContentStore = createContentStore(),
+    private rpcUrls: Record<number, string> = serverRpcUrls(),
+    private mockLedger?: MockBookingLedger // Defaults to the shared ledger, opened on first use
+  ) {}
+
+  // Pins the ticket metadata; the caller then records the URI on the booking with setTicketURI
+  async issue(request: TicketRequest): Promise<IssuedTicket> {
+    const contract = deployedContract(request.chainId);
+
+    // The dates and holder come from the chain, or the mock ledger in demo mode, not the request
+    const booking = contract
+      ? await this.readBooking(request.chainId, contract, request.tokenId)
+      : this.ledger().getBooking(request.chainId, request.tokenId);
+    if (!booking) {
+      throw new Error(`Booking ${request.tokenId} not found on chain ${request.chainId}`);
+    }
+    if (booking.customer.toLowerCase() !== request.holder.toLowerCase()) {
+      throw new Error('Only the customer can be issued a ticket for this booking');
+    }
+    // Same rule as setTicketURI: pending or confirmed bookings only
+    if (Number(booking.status) !== 0 && Number(booking.status) !== 1) {
+      throw new Error(`Booking ${request.tokenId} can no longer be ticketed`);
+    }
+    const checked = { ...request, checkInDate: Number(booking.checkInDate), checkOutDate: Number(booking.checkOutDate) };
+
+    const metadata = buildTicketMetadata(checked, contract || ethers.ZeroAddress);
+    const stored = await this.store.put(metadata);
+
+    console.log(`🎫 Issued ticket #${request.tokenId} on chain ${request.chainId}: ${stored.uri}`);
+    return { ...stored, metadata };
+  }
+
+  async getMetadata(uriOrCid: string): Promise<TicketMetadata | null> {
+    const cid = cidFromUri(uriOrCid) || uriOrCid;
+    return (await this.store.get(cid)) as TicketMetadata | null;
+  }
+
+  async verify(payload: string, now: number = Date.now()): Promise<TicketVerification> {
+    const ref = parseTicketQr(payload);
+    if (!ref) {
+      return { valid: false, reason: 'malformed', message: 'Not a Nomado ticket', simulated: false };
+    }
+
+    const contract = deployedContract(ref.chainId);
+    if (!contract) {
+      return this.verifyIssued(ref, now);
+    }
+    if (contract.toLowerCase() !== ref.contract) {
+      return { valid: false, reason: 'unknown_contract', message: 'Ticket was not issued by Nomado on this network', ticket: ref, simulated: false };
+    }
+
+    let owner: string;
+    try {
+      owner = await this.bookingContract(ref.chainId, contract).ownerOf(ref.tokenId);
+    } catch (error) {
+      // ownerOf reverts for unminted and burned tickets; anything else is the RPC failing
+      if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+        throw error;
+      }
+      return { valid: false, reason: 'not_issued', message: 'No ticket exists for this booking', ticket: ref, simulated: false };
+    }
+
+    const booking = await this.readBooking(ref.chainId, contract, ref.tokenId);
+    const status = Number(booking.status);
+    const summary = {
+      status: BOOKING_STATUS[status as keyof typeof BOOKING_STATUS] || 'Unknown',
+      checkIn: toIso(Number(booking.checkInDate)),
+      checkOut: toIso(Number(booking.checkOutDate))
+    };
+
+    if (owner.toLowerCase() !== ref.holder) {
+      return { valid: false, reason: 'holder_mismatch', message: 'Ticket is held by a different wallet', ticket: ref, booking: summary, simulated: false };
+    }
+    if (status !== 1 && status !== 2) {
+      return { valid: false, reason: 'not_active', message: `Booking is ${summary.status.toLowerCase()}`, ticket: ref, booking: summary, simulated: false };
+    }
+    return this.checkWindow(ref, summary, Number(booking.checkInDate), Number(booking.checkOutDate), now, false);
+  }
+
+  // Demo mode: the chain has no contract, so the mock ledger stands in for ownerOf and getBooking
+  private async verifyIssued(ref: TicketRef, now: number): Promise<TicketVerification> {
+    if (ref.contract !== ethers.ZeroAddress) {
+      return { valid: false, reason: 'unknown_contract', message: 'Ticket was not issued by Nomado on this network', ticket: ref, simulated: true };
+    }
+
+    const booking = this.ledger().getBooking(ref.chainId, ref.tokenId);
+    const cid = booking ? cidFromUri(booking.metadataURI) : null;
+    const metadata = cid ? await this.getMetadata(cid) : null;
+    if (!booking || !metadata) {
+      return { valid: false, reason: 'not_issued', message: 'No ticket was issued for this booking', ticket: ref, simulated: true };
+    }
+
+    const summary = {
+      status: BOOKING_STATUS[booking.status as keyof typeof BOOKING_STATUS] || 'Unknown',
+      title: metadata.itinerary.title,
+      checkIn: toIso(booking.checkInDate),
+      checkOut: toIso(booking.checkOutDate)
+    };
+
+    if (booking.customer.toLowerCase() !== ref.holder) {
+      return { valid: false, reason: 'holder_mismatch', message: 'Ticket is held by a different wallet', ticket: ref, booking: summary, simulated: true };
+    }
+    if (booking.status !== 1 && booking.status !== 2) {
+      return { valid: false, reason: 'not_active', message: `Booking is ${summary.status.toLowerCase()}`, ticket: ref, booking: summary, simulated: true };
+    }
+    return this.checkWindow(ref, summary, booking.checkInDate, booking.checkOutDate, now, true);
+  }
+
+  private checkWindow(
+    ref: TicketRef,
+    booking: NonNullable<TicketVerification['booking']>,
+    checkInDate: number,
+    checkOutDate: number,
+    now: number,
+    simulated: boolean
+  ): TicketVerification {
+    const nowSeconds = Math.floor(now / 1000);
+    if (nowSeconds + TICKET_CONFIG.CHECK_IN_OPENS_HOURS * 3600 < checkInDate) {
+      return { valid: false, reason: 'too_early', message: `Check-in opens ${TICKET_CONFIG.CHECK_IN_OPENS_HOURS} hours before ${booking.checkIn}`, ticket: ref, booking, simulated };
+    }
+    // Stays run until check-out; a same-day booking stays valid until the end of its check-in day
+    if (nowSeconds > Math.max(checkOutDate, checkInDate + 86400)) {
+      return { valid: false, reason: 'expired', message: 'Ticket has expired', ticket: ref, booking, simulated };
+    }
+    return { valid: true, message: 'Ticket is valid', ticket: ref, booking, simulated };
+  }
+
+  private bookingContract(chainId: number, address: string): ethers.Contract {
+    const rpcUrl = this.rpcUrls[chainId];
+    if (!rpcUrl) {
+      throw new Error(`No RPC configured for chain ${chainId}`);
+    }
+    const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+    return new ethers.Contract(address, TRAVEL_BOOKING_ABI, provider);
+  }
+
+  private async readBooking(chainId: number, address: string, bookingId: number) {
+    try {
+      return await this.bookingContract(chainId, address).getBooking(bookingId);
+    } catch (error) {
+      console.error('Ticket booking lookup failed:', error);
+      throw new Error(`Booking ${bookingId} not found on chain ${chainId}`);
+    }
+  }
+
+  private ledger(): MockBookingLedger {
+    return this.mockLedger || getMockBookingLedger();
+  }
+}
+
+// Export singleton instance
+export const ticketService = new TicketService();
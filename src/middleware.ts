@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clientIp, rateLimiter, rejectionBody } from '@/lib/ratelimit/limiter';
+
+// Rate limits and body size caps for the public API routes; quotas live in lib/ratelimit/policies.ts
+export async function middleware(request: NextRequest) {
+  if (process.env.RATE_LIMIT_ENABLED === 'false') {
+    return NextResponse.next();
+  }
+
+  const contentLength = request.headers.get('content-length');
+  const decision = await rateLimiter.check({
+    pathname: request.nextUrl.pathname,
+    method: request.method,
+    ip: clientIp(request.headers),
+    wallet: request.headers.get('x-wallet-address'),
+    contentLength: contentLength === null ? null : Number(contentLength)
+  });
+
+  if (!decision.allowed) {
+    const headers: Record<string, string> = {};
+    if (decision.retryAfterSeconds !== undefined) {
+      headers['Retry-After'] = String(decision.retryAfterSeconds);
+    }
+    return NextResponse.json(rejectionBody(decision), { status: decision.status, headers });
+  }
+
+  const response = NextResponse.next();
+  if (decision.remaining !== undefined) {
+    response.headers.set('X-RateLimit-Remaining', String(decision.remaining));
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ['/api/chat/:path*', '/api/booking/:path*', '/api/google-maps/:path*']
+};
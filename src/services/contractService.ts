@@ -1,11 +1,19 @@
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESSES, SUPPORTED_TOKENS, NETWORK_CONFIG, BOOKING_STATUS, PLATFORM_CONFIG } from '@/contracts/config';
+import { BRIDGE_CONFIG, SUPPORTED_TOKENS, NETWORK_CONFIG, BOOKING_STATUS, PLATFORM_CONFIG, REFUND_POLICIES, TOKEN_DECIMALS, type RefundTier } from '@/contracts/config';
 import { TRAVEL_BOOKING_ABI } from '@/contracts/abis/TravelBooking';
+import { deployedContract } from '@/contracts/deployments';
+import { MOCK_BRIDGE_TX_PREFIX } from '@/lib/bridge/deposits';
+import type { IndexerStatus } from '@/lib/indexer/indexer';
+import type { IndexedBooking } from '@/lib/indexer/store';
+import type { MockBooking, MockBookingAction, MockRefund, MockVendor } from '@/lib/mock/ledger';
+import { fxService } from '@/lib/money/fx';
 import type { BookingOption } from '@/types';
+import { quoteService, type PaymentQuote, type PaymentToken } from './quoteService';
 
 export interface ContractBooking {
   id: bigint;
   customer: string;
+  vendor: string; // Zero address for Nomado-operated inventory
   bookingType: string;
   details: string;
   amount: bigint;
@@ -25,16 +33,90 @@ export interface BookingData {
   checkInDate: number;
   checkOutDate: number;
   metadataURI?: string;
+  quote?: PaymentQuote; // The price quote the amount came from, checked before paying
+  vendor?: string; // Registered vendor address; omitted for Nomado-operated inventory
 }
 
+export interface IndexedBookingFilters {
+  customer?: string;
+  vendor?: string;
+  status?: string[]; // Status names, e.g. ['Confirmed', 'CheckedIn']
+  type?: string;
+  checkInFrom?: number; // Unix seconds
+  checkInTo?: number;
+  order?: 'newest' | 'oldest' | 'check_in';
+  limit?: number;
+  offset?: number;
+}
+
+export interface IndexedBookingPage {
+  bookings: ContractBooking[];
+  total: number;
+  nextOffset: number | null;
+  upToDate: boolean; // The indexer had reached the chain head it last saw, without errors
+}
+
+export interface VendorInfo {
+  address: string;
+  name: string;
+  payoutAddress: string;
+  active: boolean;
+}
+
+export interface VendorBalance {
+  symbol: string;
+  token: string;
+  raw: bigint;
+  balance: string; // Whole tokens
+}
+
+export interface VendorDashboard {
+  vendor: VendorInfo;
+  balances: VendorBalance[];
+  bookings: DisplayBooking[];
+  awaitingConfirmation: number;
+}
+
+export interface TokenBalance {
+  symbol: PaymentToken;
+  address: string;
+  decimals: number;
+  raw: bigint;
+  balance: string; // Formatted in whole tokens
+  supported: boolean; // Accepted by the booking contract
+}
+
+// Transaction stages of a booking payment; ERC-20 payments add an approval first
+export type BookingTxStep = 'checking' | 'approving' | 'booking' | 'confirming' | 'done';
+
+export interface BookingProgress {
+  step: BookingTxStep;
+  txHash?: string;
+}
+
+export type DisplayBooking = ReturnType<ContractService['formatBookingForDisplay']>;
+
+export interface RefundPreview {
+  refundAmount: string; // Whole tokens
+  refundBps: number;
+  token: string;
+  policy: RefundTier[]; // The booking type's tiers, for explaining the amount
+}
+
+const ERC20_ABI = [
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) external view returns (uint256)',
+  'function balanceOf(address owner) external view returns (uint256)',
+  'function transfer(address to, uint256 amount) external returns (bool)'
+];
+
 export class ContractService {
   private contract: any = null;
   private provider: ethers.Provider | null = null;
   private signer: ethers.Signer | null = null;
   private chainId: number | null = null;
-  private mockMode: boolean = false;
-  private mockBookings: Map<number, ContractBooking> = new Map();
-  private nextBookingId: number = 1;
+  private mockMode: boolean = false; // Bookings go to the server's mock ledger at /api/mock-bookings
+  private indexStale = false; // Set after our own transactions, so the next history read waits for the indexer
 
   async initialize(provider: ethers.Provider, chainId: number) {
     this.provider = provider;
@@ -68,8 +150,7 @@ export class ContractService {
   }
 
   private getContractAddress(chainId: number): string | null {
-    const addresses = CONTRACT_ADDRESSES[chainId as keyof typeof CONTRACT_ADDRESSES];
-    return addresses?.TravelBooking || null;
+    return deployedContract(chainId);
   }
 
   private getTokenAddress(tokenSymbol: string, chainId: number): string {
@@ -78,27 +159,66 @@ export class ContractService {
     }
     
     const tokenConfig = SUPPORTED_TOKENS[tokenSymbol as keyof typeof SUPPORTED_TOKENS];
-    if (typeof tokenConfig === 'object') {
-      return tokenConfig[chainId as keyof typeof tokenConfig] || SUPPORTED_TOKENS.ETH;
+    const address = typeof tokenConfig === 'object' ? tokenConfig[chainId as keyof typeof tokenConfig] : undefined;
+    if (!address) {
+      // Never fall back to the native token: that would charge ETH for a USDC quote
+      throw new Error(`${tokenSymbol} is not available on chain ${chainId}`);
     }
-    
-    return SUPPORTED_TOKENS.ETH;
+    return address;
+  }
+
+  // Symbol of a payment token address on the current chain, or 'ERC20' if it is not one we know
+  private tokenSymbolOf(address: string): string {
+    if (address === SUPPORTED_TOKENS.ETH) {
+      const network = NETWORK_CONFIG[this.chainId as keyof typeof NETWORK_CONFIG];
+      return network && network.symbol === 'MATIC' ? 'MATIC' : 'ETH';
+    }
+    const symbols: PaymentToken[] = ['USDC', 'USDT', 'DAI'];
+    const match = symbols.find(symbol => {
+      const addresses = SUPPORTED_TOKENS[symbol] as Record<number, string>;
+      return Object.values(addresses).some(known => known.toLowerCase() === address.toLowerCase());
+    });
+    return match || 'ERC20';
+  }
+
+  private tokenDecimals(tokenSymbol: string): number {
+    const decimals = TOKEN_DECIMALS[tokenSymbol as keyof typeof TOKEN_DECIMALS];
+    if (decimals === undefined) {
+      throw new Error(`Unsupported payment token: ${tokenSymbol}`);
+    }
+    return decimals;
   }
 
-  async createBooking(bookingData: BookingData): Promise<{
+  // Plain-language reasons for the wallet and RPC errors users actually hit
+  private describeTxError(error: unknown): string {
+    const code = (error as { code?: string })?.code;
+    if (code === 'ACTION_REJECTED') return 'Transaction was rejected in your wallet';
+    if (code === 'INSUFFICIENT_FUNDS') return 'Not enough native token to pay for gas';
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  async createBooking(bookingData: BookingData, onProgress?: (progress: BookingProgress) => void): Promise<{
     transactionHash: string;
     bookingId?: number;
   }> {
+    const report = onProgress || (() => undefined);
+    const symbol = bookingData.token || 'ETH';
+
+    if (bookingData.quote) {
+      quoteService.assertPayable(bookingData.quote, bookingData.amount, symbol, this.chainId);
+    }
+
     if (this.mockMode) {
-      return this.mockCreateBooking(bookingData);
+      return this.mockCreateBooking(bookingData, report);
     }
 
     if (!this.contract || !this.signer || !this.chainId) {
       throw new Error('Contract not initialized or signer not set');
     }
 
-    const tokenAddress = this.getTokenAddress(bookingData.token || 'ETH', this.chainId);
-    const amountWei = ethers.parseEther(bookingData.amount);
+    const tokenAddress = this.getTokenAddress(symbol, this.chainId);
+    const isNative = tokenAddress === SUPPORTED_TOKENS.ETH;
+    const amountUnits = ethers.parseUnits(bookingData.amount, this.tokenDecimals(symbol));
     
     // Prepare booking details as JSON
     const details = JSON.stringify({
@@ -113,49 +233,74 @@ export class ContractService {
 
     try {
       let tx: ethers.TransactionResponse;
+      const owner = await this.signer.getAddress();
 
-      if (tokenAddress === SUPPORTED_TOKENS.ETH) {
+      report({ step: 'checking' });
+      if (!(await this.isTokenSupported(tokenAddress))) {
+        throw new Error(`${symbol} is not accepted by the booking contract on this network`);
+      }
+
+      if (isNative) {
         // Native token payment (ETH/MATIC)
+        const balance = await this.signer.provider!.getBalance(owner);
+        if (balance < amountUnits) {
+          throw new Error(`Insufficient ${symbol} balance: need ${bookingData.amount}, wallet has ${ethers.formatEther(balance)}`);
+        }
+
+        report({ step: 'booking' });
         tx = await this.contract.createBooking(
           bookingData.type,
+          bookingData.vendor || ethers.ZeroAddress,
           details,
-          amountWei,
+          amountUnits,
           tokenAddress,
           bookingData.checkInDate,
           bookingData.checkOutDate,
           bookingData.metadataURI || '',
-          { value: amountWei }
+          { value: amountUnits }
         );
       } else {
         // ERC20 token payment
-        const tokenContract = new ethers.Contract(
-          tokenAddress,
-          [
-            'function approve(address spender, uint256 amount) external returns (bool)',
-            'function allowance(address owner, address spender) external view returns (uint256)'
-          ],
-          this.signer
-        );
+        const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.signer);
+        const spender = await this.contract.getAddress();
+
+        const balance: bigint = await tokenContract.balanceOf(owner);
+        if (balance < amountUnits) {
+          throw new Error(
+            `Insufficient ${symbol} balance: need ${bookingData.amount}, wallet has ${ethers.formatUnits(balance, this.tokenDecimals(symbol))}`
+          );
+        }
         
         // Check current allowance
-        const currentAllowance = await tokenContract.allowance(
-          await this.signer.getAddress(),
-          await this.contract.getAddress()
-        );
+        const currentAllowance: bigint = await tokenContract.allowance(owner, spender);
         
         // Approve if needed
-        if (currentAllowance < amountWei) {
-          const approveTx = await tokenContract.approve(
-            await this.contract.getAddress(),
-            amountWei
-          );
+        if (currentAllowance < amountUnits) {
+          // USDT rejects changing a non-zero allowance, so reset it first
+          if (symbol === 'USDT' && currentAllowance > BigInt(0)) {
+            report({ step: 'approving' });
+            const resetTx = await tokenContract.approve(spender, 0);
+            report({ step: 'approving', txHash: resetTx.hash });
+            await resetTx.wait();
+          }
+
+          report({ step: 'approving' });
+          const approveTx = await tokenContract.approve(spender, amountUnits);
+          report({ step: 'approving', txHash: approveTx.hash });
           await approveTx.wait();
+
+          const allowance: bigint = await tokenContract.allowance(owner, spender);
+          if (allowance < amountUnits) {
+            throw new Error(`${symbol} allowance is still too low after approval; please approve at least ${bookingData.amount} ${symbol}`);
+          }
         }
         
+        report({ step: 'booking' });
         tx = await this.contract.createBooking(
           bookingData.type,
+          bookingData.vendor || ethers.ZeroAddress,
           details,
-          amountWei,
+          amountUnits,
           tokenAddress,
           bookingData.checkInDate,
           bookingData.checkOutDate,
@@ -163,7 +308,9 @@ export class ContractService {
         );
       }
 
+      report({ step: 'confirming', txHash: tx.hash });
       const receipt = await tx.wait();
+      this.indexStale = true;
       
       // Extract booking ID from events
       let bookingId: number | undefined;
@@ -182,19 +329,116 @@ export class ContractService {
         }
       }
 
+      report({ step: 'done', txHash: tx.hash });
       return {
         transactionHash: tx.hash,
         bookingId
       };
     } catch (error) {
       console.error('Create booking failed:', error);
-      throw new Error(`Booking creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Booking creation failed: ${this.describeTxError(error)}`);
+    }
+  }
+
+  // Bridge payments skip the booking contract: the quoted amount goes straight to the treasury
+  // and the server pays the supplier in fiat once the deposit is verified
+  async depositToBridge(quote: PaymentQuote, onProgress?: (progress: BookingProgress) => void): Promise<string> {
+    const report = onProgress || (() => undefined);
+    quoteService.assertPayable(quote, quote.amount, quote.token, this.chainId);
+
+    if (!BRIDGE_CONFIG.TREASURY_ADDRESS) {
+      // Demo mode: the settlement API only accepts these simulated transfers
+      report({ step: 'checking' });
+      report({ step: 'booking' });
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const mockTxHash = `${MOCK_BRIDGE_TX_PREFIX}${Date.now().toString(16)}`.padEnd(66, '0');
+      console.log('🔧 Mock bridge deposit:', { txHash: mockTxHash, amount: quote.amount, token: quote.token });
+      report({ step: 'done', txHash: mockTxHash });
+      return mockTxHash;
+    }
+
+    if (!this.signer || !this.chainId) {
+      throw new Error('Wallet not connected');
+    }
+
+    const tokenAddress = this.getTokenAddress(quote.token, this.chainId);
+    const amountUnits = ethers.parseUnits(quote.amount, this.tokenDecimals(quote.token));
+    const owner = await this.signer.getAddress();
+
+    try {
+      let tx: ethers.TransactionResponse;
+
+      report({ step: 'checking' });
+      if (tokenAddress === SUPPORTED_TOKENS.ETH) {
+        const balance = await this.signer.provider!.getBalance(owner);
+        if (balance < amountUnits) {
+          throw new Error(`Insufficient ${quote.token} balance: need ${quote.amount}, wallet has ${ethers.formatEther(balance)}`);
+        }
+        report({ step: 'booking' });
+        tx = await this.signer.sendTransaction({ to: BRIDGE_CONFIG.TREASURY_ADDRESS, value: amountUnits });
+      } else {
+        const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.signer);
+        const balance: bigint = await tokenContract.balanceOf(owner);
+        if (balance < amountUnits) {
+          throw new Error(
+            `Insufficient ${quote.token} balance: need ${quote.amount}, wallet has ${ethers.formatUnits(balance, this.tokenDecimals(quote.token))}`
+          );
+        }
+        report({ step: 'booking' });
+        tx = await tokenContract.transfer(BRIDGE_CONFIG.TREASURY_ADDRESS, amountUnits);
+      }
+
+      report({ step: 'confirming', txHash: tx.hash });
+      await tx.wait(BRIDGE_CONFIG.MIN_CONFIRMATIONS);
+      report({ step: 'done', txHash: tx.hash });
+      return tx.hash;
+    } catch (error) {
+      console.error('Bridge deposit failed:', error);
+      throw new Error(`Bridge payment failed: ${this.describeTxError(error)}`);
     }
   }
 
+  // Wallet-facing balances of every token payable on the current chain
+  async getTokenBalances(owner: string): Promise<TokenBalance[]> {
+    if (!this.chainId) {
+      throw new Error('Contract not initialized');
+    }
+    const chainId = this.chainId;
+
+    return Promise.all(quoteService.tokensForChain(chainId).map(async symbol => {
+      const address = this.getTokenAddress(symbol, chainId);
+      const decimals = this.tokenDecimals(symbol);
+      let raw: bigint;
+
+      if (this.mockMode || !this.provider) {
+        // Simulated wallet so the demo can pay with any token
+        raw = ethers.parseUnits(symbol === 'ETH' || symbol === 'MATIC' ? '2' : '5000', decimals);
+      } else if (address === SUPPORTED_TOKENS.ETH) {
+        raw = await this.provider.getBalance(owner);
+      } else {
+        raw = await new ethers.Contract(address, ERC20_ABI, this.provider).balanceOf(owner);
+      }
+
+      return {
+        symbol,
+        address,
+        decimals,
+        raw,
+        balance: ethers.formatUnits(raw, decimals),
+        supported: await this.isTokenSupported(address)
+      };
+    }));
+  }
+
   async getBookingDetails(bookingId: number): Promise<ContractBooking | null> {
     if (this.mockMode) {
-      return this.mockBookings.get(bookingId) || null;
+      try {
+        const { booking } = await this.mockRequest<{ booking: MockBooking }>('GET', `/${bookingId}`);
+        return this.fromStoredBooking(booking);
+      } catch (error) {
+        console.error('Get booking details failed:', error);
+        return null;
+      }
     }
 
     if (!this.contract) {
@@ -212,9 +456,7 @@ export class ContractService {
 
   async getUserBookings(userAddress: string): Promise<number[]> {
     if (this.mockMode) {
-      return Array.from(this.mockBookings.keys()).filter(id => 
-        this.mockBookings.get(id)?.customer.toLowerCase() === userAddress.toLowerCase()
-      );
+      return (await this.mockBookingList({ customer: userAddress })).map(booking => Number(booking.id));
     }
 
     if (!this.contract) {
@@ -232,14 +474,22 @@ export class ContractService {
 
   async getUserBookingDetails(userAddress: string): Promise<ContractBooking[]> {
     if (this.mockMode) {
-      return Array.from(this.mockBookings.values()).filter(booking => 
-        booking.customer.toLowerCase() === userAddress.toLowerCase()
-      );
+      return this.mockBookingList({ customer: userAddress });
     }
 
     if (!this.contract) {
       throw new Error('Contract not initialized');
     }
+
+    // The server's event index answers without an RPC round trip; the contract is the fallback
+    try {
+      const page = await this.queryIndexedBookings({ customer: userAddress, limit: 100 });
+      if (page.nextOffset === null && page.upToDate) {
+        return page.bookings;
+      }
+    } catch (error) {
+      console.warn('⚠️ Booking index unavailable, reading from the contract:', error);
+    }
     
     try {
       const bookings = await this.contract.getUserBookingDetails(userAddress);
@@ -250,15 +500,44 @@ export class ContractService {
     }
   }
 
+  // Filtered, paginated booking history from /api/bookings
+  async queryIndexedBookings(filters: IndexedBookingFilters): Promise<IndexedBookingPage> {
+    if (!this.chainId) {
+      throw new Error('Contract not initialized');
+    }
+
+    const params = new URLSearchParams({ chainId: String(this.chainId) });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+      }
+    });
+    if (this.indexStale) {
+      params.set('sync', '1');
+    }
+
+    const response = await fetch(`/api/bookings?${params.toString()}`);
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Booking index query failed');
+    }
+    this.indexStale = false;
+
+    // A lagging index would leave recent bookings out, so callers that need them all check this
+    const indexer: IndexerStatus = data.indexer;
+    return {
+      bookings: data.bookings.map((booking: IndexedBooking) => this.fromStoredBooking(booking)),
+      total: data.total,
+      nextOffset: data.nextOffset,
+      upToDate: !indexer.lastError && indexer.lastBlock !== null && indexer.headBlock !== null &&
+        indexer.lastBlock >= indexer.headBlock
+    };
+  }
+
   async cancelBooking(bookingId: number): Promise<string> {
     if (this.mockMode) {
-      const booking = this.mockBookings.get(bookingId);
-      if (booking) {
-        booking.status = 2; // Cancelled status
-        this.mockBookings.set(bookingId, booking);
-        return `0x${'mock_cancel_tx'.padEnd(64, '0')}`;
-      }
-      throw new Error('Booking not found');
+      await this.mockBookingAction(bookingId, 'cancel');
+      return `0x${'mock_cancel_tx'.padEnd(64, '0')}`;
     }
 
     if (!this.contract || !this.signer) {
@@ -268,6 +547,7 @@ export class ContractService {
     try {
       const tx = await this.contract.cancelBooking(bookingId);
       await tx.wait();
+      this.indexStale = true;
       return tx.hash;
     } catch (error) {
       console.error('Cancel booking failed:', error);
@@ -275,15 +555,46 @@ export class ContractService {
     }
   }
 
-  async checkInToBooking(bookingId: number): Promise<string> {
+  // What cancelling now would refund under the booking type's policy
+  async previewRefund(bookingId: number): Promise<RefundPreview> {
     if (this.mockMode) {
-      const booking = this.mockBookings.get(bookingId);
-      if (booking) {
-        booking.status = 3; // Checked-in status
-        this.mockBookings.set(bookingId, booking);
-        return `0x${'mock_checkin_tx'.padEnd(64, '0')}`;
+      const { booking, refund } = await this.mockRequest<{ booking: MockBooking; refund: MockRefund }>('GET', `/${bookingId}`);
+      return this.toRefundPreview(
+        this.fromStoredBooking(booking),
+        BigInt(refund.refundAmount),
+        refund.refundBps,
+        REFUND_POLICIES[booking.bookingType] || REFUND_POLICIES.default
+      );
+    }
+
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+
+    try {
+      const booking = await this.getBookingDetails(bookingId);
+      if (!booking) {
+        throw new Error('Booking not found');
       }
-      throw new Error('Booking not found');
+      const [preview, policy] = await Promise.all([
+        this.contract.previewRefund(bookingId),
+        this.contract.getRefundPolicy(booking.bookingType)
+      ]);
+      const tiers: RefundTier[] = policy.minSecondsBefore.map((seconds: bigint, i: number) => ({
+        minHoursBefore: Number(seconds) / 3600,
+        refundBps: Number(policy.refundBps[i])
+      }));
+      return this.toRefundPreview(booking, preview.refundAmount, Number(preview.refundBps), tiers);
+    } catch (error) {
+      console.error('Preview refund failed:', error);
+      throw new Error(`Refund preview failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async checkInToBooking(bookingId: number): Promise<string> {
+    if (this.mockMode) {
+      await this.mockBookingAction(bookingId, 'checkIn');
+      return `0x${'mock_checkin_tx'.padEnd(64, '0')}`;
     }
 
     if (!this.contract || !this.signer) {
@@ -293,6 +604,7 @@ export class ContractService {
     try {
       const tx = await this.contract.checkIn(bookingId);
       await tx.wait();
+      this.indexStale = true;
       return tx.hash;
     } catch (error) {
       console.error('Check in failed:', error);
@@ -306,8 +618,9 @@ export class ContractService {
     platformRevenue: string;
   }> {
     if (this.mockMode) {
-      const totalBookings = this.mockBookings.size;
-      const totalValue = Array.from(this.mockBookings.values())
+      const bookings = await this.mockBookingList();
+      const totalBookings = bookings.length;
+      const totalValue = bookings
         .reduce((sum, booking) => sum + Number(ethers.formatEther(booking.amount)), 0);
       const platformRevenue = totalValue * 0.025; // 2.5% platform fee
       
@@ -359,15 +672,13 @@ export class ContractService {
 
   async isTokenSupported(tokenAddress: string): Promise<boolean> {
     if (this.mockMode) {
-      // Mock: support ETH and common stablecoins
-      const supportedTokens = [
-        SUPPORTED_TOKENS.ETH,
-        typeof SUPPORTED_TOKENS.USDC === 'string' ? SUPPORTED_TOKENS.USDC : SUPPORTED_TOKENS.USDC[1],
-        typeof SUPPORTED_TOKENS.USDT === 'string' ? SUPPORTED_TOKENS.USDT : SUPPORTED_TOKENS.USDT[1],
-        typeof SUPPORTED_TOKENS.DAI === 'string' ? SUPPORTED_TOKENS.DAI : SUPPORTED_TOKENS.DAI[1]
-      ].filter(Boolean);
+      // Mock: support the native token and the stablecoins on every configured chain
+      const supportedTokens: string[] = [SUPPORTED_TOKENS.ETH];
+      [SUPPORTED_TOKENS.USDC, SUPPORTED_TOKENS.USDT, SUPPORTED_TOKENS.DAI].forEach(addresses => {
+        supportedTokens.push(...Object.values(addresses));
+      });
       
-      return supportedTokens.some(token => token === tokenAddress);
+      return supportedTokens.some(token => token.toLowerCase() === tokenAddress.toLowerCase());
     }
 
     if (!this.contract) {
@@ -382,6 +693,159 @@ export class ContractService {
     }
   }
 
+  // Vendor accounting: vendors confirm their bookings and withdraw earnings credited on completion
+
+  async getVendor(vendorAddress: string): Promise<VendorInfo | null> {
+    if (this.mockMode) {
+      const { vendor } = await this.mockRequest<{ vendor: MockVendor | null }>('GET', '/vendors', { address: vendorAddress });
+      return vendor;
+    }
+
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+
+    const vendor = await this.contract.vendors(vendorAddress);
+    if (vendor.payoutAddress === ethers.ZeroAddress) {
+      return null;
+    }
+    return { address: vendorAddress, name: vendor.name, payoutAddress: vendor.payoutAddress, active: vendor.active };
+  }
+
+  // Earnings in every token payable on the current chain
+  async getVendorBalances(vendorAddress: string): Promise<VendorBalance[]> {
+    if (!this.chainId) {
+      throw new Error('Contract not initialized');
+    }
+    const chainId = this.chainId;
+    const mockBalances = this.mockMode || !this.contract
+      ? (await this.mockRequest<{ balances: Record<string, string> }>('GET', '/vendors', { address: vendorAddress })).balances
+      : null;
+
+    return Promise.all(quoteService.tokensForChain(chainId).map(async symbol => {
+      const token = this.getTokenAddress(symbol, chainId);
+      const raw: bigint = mockBalances
+        ? BigInt(mockBalances[token.toLowerCase()] || 0)
+        : await this.contract.vendorBalances(vendorAddress, token);
+      return { symbol, token, raw, balance: ethers.formatUnits(raw, this.tokenDecimals(symbol)) };
+    }));
+  }
+
+  async getVendorBookings(vendorAddress: string): Promise<ContractBooking[]> {
+    if (this.mockMode) {
+      return this.mockBookingList({ vendor: vendorAddress });
+    }
+
+    if (!this.contract) {
+      throw new Error('Contract not initialized');
+    }
+
+    try {
+      const page = await this.queryIndexedBookings({ vendor: vendorAddress, limit: 100 });
+      if (page.nextOffset === null && page.upToDate) {
+        return page.bookings;
+      }
+    } catch (error) {
+      console.warn('⚠️ Booking index unavailable, reading from the contract:', error);
+    }
+
+    try {
+      const ids: bigint[] = await this.contract.getVendorBookings(vendorAddress);
+      const bookings = await Promise.all(ids.map(id => this.getBookingDetails(Number(id))));
+      return bookings.filter((booking): booking is ContractBooking => booking !== null);
+    } catch (error) {
+      console.error('Get vendor bookings failed:', error);
+      return [];
+    }
+  }
+
+  async getVendorDashboard(vendorAddress: string): Promise<VendorDashboard> {
+    const vendor = await this.getVendor(vendorAddress);
+    if (!vendor) {
+      throw new Error(`${vendorAddress} is not a registered vendor`);
+    }
+
+    const [balances, bookings] = await Promise.all([
+      this.getVendorBalances(vendorAddress),
+      this.getVendorBookings(vendorAddress)
+    ]);
+    return {
+      vendor,
+      balances,
+      bookings: bookings.map(booking => this.formatBookingForDisplay(booking)),
+      awaitingConfirmation: bookings.filter(booking => Number(booking.status) === 0).length
+    };
+  }
+
+  // Platform only: onboards a vendor or updates their payout address
+  async registerVendor(vendorAddress: string, name: string, payoutAddress: string): Promise<string> {
+    if (this.mockMode) {
+      await this.mockRequest('POST', '/vendors', { action: 'register', address: vendorAddress, name, payoutAddress });
+      return `0x${'mock_vendor_tx'.padEnd(64, '0')}`;
+    }
+    return this.sendTransaction('Vendor registration', contract => contract.registerVendor(vendorAddress, name, payoutAddress));
+  }
+
+  // The booking's vendor or the platform accepts a pending booking
+  async confirmBooking(bookingId: number): Promise<string> {
+    if (this.mockMode) {
+      await this.mockBookingAction(bookingId, 'confirm');
+      return `0x${'mock_confirm_tx'.padEnd(64, '0')}`;
+    }
+    return this.sendTransaction('Booking confirmation', contract => contract.confirmBooking(bookingId));
+  }
+
+  // Platform only: releases escrow to the vendor's balance after the stay
+  async completeBooking(bookingId: number): Promise<string> {
+    if (this.mockMode) {
+      await this.mockBookingAction(bookingId, 'complete');
+      return `0x${'mock_complete_tx'.padEnd(64, '0')}`;
+    }
+    return this.sendTransaction('Booking completion', contract => contract.completeBooking(bookingId));
+  }
+
+  // Sends the vendor's earnings in one token to their payout address; must be signed by the vendor
+  async withdrawVendorBalance(vendorAddress: string, tokenSymbol: string): Promise<string> {
+    if (!this.chainId) {
+      throw new Error('Contract not initialized');
+    }
+    const token = this.getTokenAddress(tokenSymbol, this.chainId);
+
+    if (this.mockMode) {
+      await this.mockRequest('POST', '/vendors', { action: 'withdraw', address: vendorAddress, token });
+      return `0x${'mock_withdraw_tx'.padEnd(64, '0')}`;
+    }
+    return this.sendTransaction('Vendor withdrawal', contract => contract.withdrawVendorBalance(token));
+  }
+
+  // Points the booking's ticket at its pinned metadata; the ticket itself is minted on confirmation
+  async setTicketURI(bookingId: number, metadataURI: string): Promise<string> {
+    if (this.mockMode) {
+      await this.mockBookingAction(bookingId, 'setTicketURI', { metadataURI });
+      return `0x${'mock_ticket_tx'.padEnd(64, '0')}`;
+    }
+    return this.sendTransaction('Ticket update', contract => contract.setTicketURI(bookingId, metadataURI));
+  }
+
+  private async sendTransaction(
+    action: string,
+    send: (contract: ethers.Contract) => Promise<ethers.TransactionResponse>
+  ): Promise<string> {
+    if (!this.contract || !this.signer) {
+      throw new Error('Contract not initialized or signer not set');
+    }
+
+    try {
+      const tx = await send(this.contract);
+      await tx.wait();
+      this.indexStale = true;
+      return tx.hash;
+    } catch (error) {
+      console.error(`${action} failed:`, error);
+      throw new Error(`${action} failed: ${this.describeTxError(error)}`);
+    }
+  }
+
   formatBookingStatus(status: number): string {
     return BOOKING_STATUS[status as keyof typeof BOOKING_STATUS] || 'Unknown';
   }
@@ -390,6 +854,7 @@ export class ContractService {
   formatBookingForDisplay(contractBooking: ContractBooking): {
     id: number;
     customer: string;
+    vendor: string;
     type: string;
     details: any;
     amount: string;
@@ -402,14 +867,21 @@ export class ContractService {
     checkOutDate: Date;
     metadataURI: string;
   } {
+    const symbol = this.tokenSymbolOf(contractBooking.token);
+    const amount = ethers.formatUnits(contractBooking.amount, symbol === 'ERC20' ? 18 : this.tokenDecimals(symbol));
+
     return {
       id: Number(contractBooking.id),
       customer: contractBooking.customer,
+      vendor: contractBooking.vendor,
       type: contractBooking.bookingType,
       details: JSON.parse(contractBooking.details),
-      amount: ethers.formatEther(contractBooking.amount),
-      amountUSD: ethers.formatEther(contractBooking.amount), // Convert to USD in real implementation
-      token: contractBooking.token === SUPPORTED_TOKENS.ETH ? 'ETH' : 'ERC20',
+      amount,
+      // Native payments are priced in ETH; the supported ERC-20s are dollar stablecoins
+      amountUSD: contractBooking.token === SUPPORTED_TOKENS.ETH
+        ? fxService.convertAmount(Number(amount), 'ETH', 'USD').toFixed(2)
+        : Number(amount).toFixed(2),
+      token: symbol,
       status: this.formatBookingStatus(contractBooking.status),
       statusCode: contractBooking.status,
       createdAt: new Date(Number(contractBooking.timestamp) * 1000),
@@ -460,41 +932,139 @@ export class ContractService {
     }
   }
 
+  private toRefundPreview(booking: ContractBooking, refund: bigint, refundBps: number, policy: RefundTier[]): RefundPreview {
+    const token = this.tokenSymbolOf(booking.token);
+    return {
+      refundAmount: ethers.formatUnits(refund, token === 'ERC20' ? 18 : this.tokenDecimals(token)),
+      refundBps,
+      token,
+      policy
+    };
+  }
+
+  // Bookings from the event index and the mock ledger share the contract's fields
+  private fromStoredBooking(booking: IndexedBooking | MockBooking): ContractBooking {
+    return {
+      id: BigInt(booking.id),
+      customer: booking.customer,
+      vendor: booking.vendor,
+      bookingType: booking.bookingType,
+      details: booking.details,
+      amount: BigInt(booking.amount),
+      token: booking.token,
+      timestamp: BigInt(booking.timestamp),
+      checkInDate: BigInt(booking.checkInDate),
+      checkOutDate: BigInt(booking.checkOutDate),
+      status: booking.status,
+      metadataURI: booking.metadataURI
+    };
+  }
+
   // Mock implementation methods
-  private async mockCreateBooking(bookingData: BookingData): Promise<{
+
+  // Mock bookings live in the server's ledger so they survive a reload
+  private async mockRequest<T = unknown>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    payload: Record<string, string | number | undefined> = {}
+  ): Promise<T> {
+    if (!this.chainId) {
+      throw new Error('Contract not initialized');
+    }
+
+    const fields = { chainId: this.chainId, ...payload };
+    let url = `/api/mock-bookings${path}`;
+    let init: RequestInit = { method };
+    if (method === 'POST') {
+      init = { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(fields) };
+    } else {
+      const params = new URLSearchParams();
+      Object.entries(fields).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+      });
+      url = `${url}?${params.toString()}`;
+    }
+
+    const response = await fetch(url, init);
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Mock booking request failed');
+    }
+    return data as T;
+  }
+
+  private async mockBookingList(filter: { customer?: string; vendor?: string } = {}): Promise<ContractBooking[]> {
+    const { bookings } = await this.mockRequest<{ bookings: MockBooking[] }>('GET', '', filter);
+    return bookings.map(booking => this.fromStoredBooking(booking));
+  }
+
+  // Same transitions and revert reasons as the contract
+  // The ledger checks the caller the way the contract checks msg.sender
+  private async mockBookingAction(bookingId: number, action: MockBookingAction, payload: Record<string, string> = {}): Promise<ContractBooking> {
+    const caller = await this.mockCaller();
+    const { booking } = await this.mockRequest<{ booking: MockBooking }>('POST', `/${bookingId}`, { action, caller, ...payload });
+    return this.fromStoredBooking(booking);
+  }
+
+  private async mockCaller(): Promise<string> {
+    return this.signer
+      ? this.signer.getAddress()
+      : '0x742d35cc6647c93f0f6b0b4e4c4e61b7e55bb94e'; // Mock user address
+  }
+
+  private async mockCreateBooking(bookingData: BookingData, report: (progress: BookingProgress) => void): Promise<{
     transactionHash: string;
     bookingId?: number;
   }> {
-    // Simulate async delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    const bookingId = this.nextBookingId++;
-    const amountWei = ethers.parseEther(bookingData.amount);
-    const mockAddress = '0x742d35cc6647c93f0f6b0b4e4c4e61b7e55bb94e'; // Mock user address
-
-    const mockBooking: ContractBooking = {
-      id: BigInt(bookingId),
-      customer: mockAddress,
-      bookingType: bookingData.type,
-      details: JSON.stringify({
-        title: bookingData.details.title,
-        description: bookingData.details.description,
-        price: bookingData.details.price,
-        currency: bookingData.details.currency,
-        location: bookingData.details.details?.location || 'Mock Location',
-        rating: bookingData.details.rating,
-        ...bookingData.details.details
-      }),
-      amount: amountWei,
-      token: this.getTokenAddress(bookingData.token || 'ETH', this.chainId || 1),
-      timestamp: BigInt(Math.floor(Date.now() / 1000)),
-      checkInDate: BigInt(bookingData.checkInDate),
-      checkOutDate: BigInt(bookingData.checkOutDate),
-      status: 0, // Pending status
-      metadataURI: bookingData.metadataURI || ''
-    };
+    const symbol = bookingData.token || 'ETH';
+    const amountWei = ethers.parseUnits(bookingData.amount, this.tokenDecimals(symbol));
+    const delay = () => new Promise(resolve => setTimeout(resolve, 500));
+
+    // Walk through the same steps as a real payment so the UI can be exercised
+    report({ step: 'checking' });
+    const balance = (await this.getTokenBalances('0x0000000000000000000000000000000000000000'))
+      .find(token => token.symbol === symbol);
+    if (!balance || !balance.supported) {
+      throw new Error(`${symbol} is not accepted by the booking contract on this network`);
+    }
+    if (balance.raw < amountWei) {
+      throw new Error(`Insufficient ${symbol} balance: need ${bookingData.amount}, wallet has ${balance.balance}`);
+    }
+    if (balance.address !== SUPPORTED_TOKENS.ETH) {
+      report({ step: 'approving' });
+      await delay();
+    }
+    report({ step: 'booking' });
+    await delay();
+
+    // Bookings belong to the connected wallet so history still finds them after a reload
+    const customer = await this.mockCaller();
 
-    this.mockBookings.set(bookingId, mockBooking);
+    let bookingId: number;
+    try {
+      const { booking } = await this.mockRequest<{ booking: MockBooking }>('POST', '', {
+        customer,
+        vendor: bookingData.vendor || ethers.ZeroAddress,
+        bookingType: bookingData.type,
+        details: JSON.stringify({
+          title: bookingData.details.title,
+          description: bookingData.details.description,
+          price: bookingData.details.price,
+          currency: bookingData.details.currency,
+          location: bookingData.details.details?.location || 'Mock Location',
+          rating: bookingData.details.rating,
+          ...bookingData.details.details
+        }),
+        amount: amountWei.toString(),
+        token: balance.address,
+        checkInDate: bookingData.checkInDate,
+        checkOutDate: bookingData.checkOutDate,
+        metadataURI: bookingData.metadataURI || ''
+      });
+      bookingId = booking.id;
+    } catch (error) {
+      throw new Error(`Booking creation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
 
     const mockTxHash = `0x${'mock_booking_tx'.padEnd(64, '0')}${bookingId.toString(16).padStart(4, '0')}`;
     
@@ -505,6 +1075,8 @@ export class ContractService {
       type: bookingData.type
     });
 
+    report({ step: 'confirming', txHash: mockTxHash });
+    report({ step: 'done', txHash: mockTxHash });
     return {
       transactionHash: mockTxHash,
       bookingId
@@ -526,15 +1098,14 @@ export class ContractService {
     }
   }
 
-  // Get all mock bookings (for debugging)
-  getMockBookings(): ContractBooking[] {
-    return Array.from(this.mockBookings.values());
+  // Get all mock bookings on the current chain (for debugging)
+  async getMockBookings(): Promise<ContractBooking[]> {
+    return this.mockBookingList();
   }
 
-  // Clear mock data
-  clearMockData() {
-    this.mockBookings.clear();
-    this.nextBookingId = 1;
+  // Clear mock data on the current chain
+  async clearMockData() {
+    await this.mockRequest('DELETE', '');
     console.log('🧹 Mock data cleared');
   }
 }
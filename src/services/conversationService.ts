@@ -0,0 +1,219 @@
+import { INTENT_TOOLS, type AgentIntent } from '@/lib/mcp/intent';
+import type { MCPBookingIntent } from '@/types';
+import MCPProcessor from '@/utils/mcpProcessor';
+
+type BookingSlots = MCPBookingIntent['parameters'];
+
+export interface ConversationTurn {
+  query: string;
+  intentType: string;
+  timestamp: Date;
+}
+
+export interface ConversationSession {
+  id: string;
+  intent: MCPBookingIntent | null; // Slots gathered so far: destination, dates, budget, travellers...
+  lastIntentType: string | null;
+  turns: ConversationTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Intent types a follow-up like "make it cheaper" can re-run
+const REPEATABLE_INTENTS = ['hotel_search', 'flight_search', 'tour_search', 'activity_search', 'itinerary_request'];
+
+const INTENT_SERVICES: Record<string, MCPBookingIntent['service']> = {
+  hotel_search: 'hotel',
+  flight_search: 'flight',
+  tour_search: 'tour',
+  activity_search: 'activity',
+  itinerary_request: 'tour'
+};
+
+const CHEAPER_PATTERN = /\b(cheaper|less expensive|more affordable|lower (?:the )?(?:price|budget))\b/i;
+const PRICIER_PATTERN = /\b(more luxurious|upscale|fancier|something nicer|higher (?:the )?budget)\b/i;
+const DESTINATION_SWITCH_PATTERNS = [
+  /\b(?:what|how) about\s+(?:going to\s+)?([A-Za-z][A-Za-z\s]*?)(?:\s+instead)?\s*[?.!]*$/i,
+  /\b(?:go to|try)\s+([A-Za-z][A-Za-z\s]*?)\s+instead\b/i
+];
+const NOT_DESTINATIONS = [
+  'it', 'that', 'this', 'them', 'there', 'something', 'tomorrow', 'today', 'next',
+  'hotel', 'hotels', 'flight', 'flights', 'tour', 'tours', 'activity', 'activities', 'a', 'an', 'the'
+];
+
+function copySlot<K extends keyof BookingSlots>(target: BookingSlots, source: BookingSlots, slot: K) {
+  target[slot] = source[slot];
+}
+
+function definedOnly<T extends Record<string, any>>(value: T): Partial<T> {
+  const result: Partial<T> = {};
+  Object.keys(value).forEach(key => {
+    if (value[key] !== undefined) {
+      result[key as keyof T] = value[key];
+    }
+  });
+  return result;
+}
+
+export class ConversationService {
+  private sessions: Map<string, ConversationSession> = new Map();
+
+  constructor(
+    private ttlMs: number = 30 * 60 * 1000, // Sessions expire after 30 minutes of inactivity
+    private maxTurns: number = 20,
+    private maxSessions: number = 10000
+  ) {}
+
+  // Ids are always issued here: an unknown or expired id from the client starts a new session
+  // under a fresh id rather than creating one with the client's choice
+  getOrCreate(sessionId?: string | null): ConversationSession {
+    this.pruneExpired();
+
+    const existing = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (existing) {
+      // Re-insert so the Map stays ordered least recently used first
+      this.sessions.delete(existing.id);
+      this.sessions.set(existing.id, existing);
+      existing.updatedAt = new Date();
+      return existing;
+    }
+
+    const now = new Date();
+    const session: ConversationSession = {
+      id: crypto.randomUUID(),
+      intent: null,
+      lastIntentType: null,
+      turns: [],
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sessions.set(session.id, session);
+
+    while (this.sessions.size > this.maxSessions) {
+      this.sessions.delete(this.sessions.keys().next().value as string);
+    }
+    return session;
+  }
+
+  get(sessionId: string): ConversationSession | null {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  reset(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  // Folds this turn's intent into the session slots and returns the intent to act on,
+  // with missing arguments filled from earlier turns
+  refine(session: ConversationSession, query: string, intent: AgentIntent): AgentIntent {
+    const previous = session.intent;
+    let type = intent.type;
+
+    const turnSlots = this.slotsFromIntent(type, intent.params);
+    if (intent.source === 'rules') {
+      // The regex parser catches budgets, dates and travellers the keyword classifier misses
+      const parsed = MCPProcessor.parseNaturalLanguage(query).parameters;
+      (Object.keys(parsed) as (keyof BookingSlots)[]).forEach(slot => {
+        if (turnSlots[slot] === undefined) {
+          copySlot(turnSlots, parsed, slot);
+        }
+      });
+    }
+
+    const parameters: BookingSlots = {
+      ...(previous?.parameters || {}),
+      ...definedOnly(turnSlots)
+    };
+
+    // The LLM sees earlier slots and applies refinements itself; the rule path needs help
+    const refined = intent.source === 'rules' && this.applyRefinements(query, parameters);
+    if (refined && REPEATABLE_INTENTS.indexOf(type) === -1 && session.lastIntentType) {
+      type = session.lastIntentType;
+    }
+
+    if (Object.keys(parameters).length > 0) {
+      session.intent = {
+        type: 'booking_request',
+        service: INTENT_SERVICES[type] || previous?.service || MCPProcessor.parseNaturalLanguage(query).service,
+        parameters
+      };
+    }
+
+    if (REPEATABLE_INTENTS.indexOf(type) !== -1) {
+      session.lastIntentType = type;
+    }
+
+    session.turns.push({ query, intentType: type, timestamp: new Date() });
+    if (session.turns.length > this.maxTurns) {
+      session.turns.splice(0, session.turns.length - this.maxTurns);
+    }
+    session.updatedAt = new Date();
+
+    const tool = INTENT_TOOLS[type];
+    return {
+      type,
+      params: tool ? { ...intent.params, ...MCPProcessor.toToolArguments(tool, parameters) } : intent.params,
+      source: intent.source
+    };
+  }
+
+  private slotsFromIntent(type: string, params: Record<string, any>): BookingSlots {
+    const tool = INTENT_TOOLS[type];
+    const intent = tool ? MCPProcessor.fromToolSelection({ name: tool, arguments: params }) : null;
+
+    if (intent) {
+      return intent.parameters;
+    }
+    // Advice and general questions can still name a destination
+    return params.destination ? { destination: params.destination } : {};
+  }
+
+  // Applies "make it cheaper" / "what about Kerala instead" style follow-ups; returns true if any matched
+  private applyRefinements(query: string, parameters: BookingSlots): boolean {
+    let refined = false;
+
+    for (const pattern of DESTINATION_SWITCH_PATTERNS) {
+      const match = query.match(pattern);
+      const destination = match?.[1].trim();
+      if (destination && NOT_DESTINATIONS.indexOf(destination.split(/\s+/)[0].toLowerCase()) === -1) {
+        parameters.destination = destination;
+        refined = true;
+        break;
+      }
+    }
+
+    if (CHEAPER_PATTERN.test(query)) {
+      if (parameters.budget) {
+        parameters.budget = { ...parameters.budget, amount: Math.round(parameters.budget.amount * 0.75) };
+      } else {
+        parameters.preferences = this.withPreference(parameters.preferences, 'budget');
+      }
+      refined = true;
+    } else if (PRICIER_PATTERN.test(query)) {
+      if (parameters.budget) {
+        parameters.budget = { ...parameters.budget, amount: Math.round(parameters.budget.amount * 1.5) };
+      }
+      parameters.preferences = this.withPreference(parameters.preferences, 'luxury');
+      refined = true;
+    }
+
+    return refined;
+  }
+
+  private withPreference(preferences: string[] | undefined, preference: string): string[] {
+    const current = preferences || [];
+    return current.indexOf(preference) === -1 ? [...current, preference] : current;
+  }
+
+  private pruneExpired() {
+    const cutoff = Date.now() - this.ttlMs;
+    Array.from(this.sessions.values()).forEach(session => {
+      if (session.updatedAt.getTime() < cutoff) {
+        this.sessions.delete(session.id);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const conversationService = new ConversationService();
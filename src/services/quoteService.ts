@@ -0,0 +1,118 @@
+import { NETWORK_CONFIG, QUOTE_CONFIG, SUPPORTED_TOKENS, TOKEN_DECIMALS } from '@/contracts/config';
+import { fxService } from '@/lib/money/fx';
+import { toMajor, type Money } from '@/lib/money/money';
+import { ChainlinkPriceSource, FallbackPriceSource, FixturePriceSource, type PriceSource } from '@/lib/money/priceFeeds';
+import { ethers } from 'ethers';
+
+export type PaymentToken = keyof typeof TOKEN_DECIMALS;
+
+const STABLECOINS: PaymentToken[] = ['USDC', 'USDT', 'DAI'];
+
+// Token amounts are rounded up to at most this many decimals so wallets show them cleanly
+const MAX_QUOTE_DECIMALS = 8;
+
+export interface PaymentQuote {
+  id: string;
+  fiat: Money; // The booking total being paid
+  usd: number;
+  token: PaymentToken;
+  chainId: number;
+  tokenPriceUSD: number;
+  baseAmount: string; // Exact conversion
+  amount: string; // What the wallet sends: base amount plus the slippage buffer
+  slippageBps: number;
+  source: string;
+  createdAt: number; // ms
+  expiresAt: number;
+}
+
+export class QuoteService {
+  private source: PriceSource = new FixturePriceSource();
+  private counter = 0;
+
+  // Chainlink through the wallet's provider when there is one; set NEXT_PUBLIC_PRICE_SOURCE=fixture to stay offline
+  useProvider(provider: ethers.Provider | null) {
+    const fixture = new FixturePriceSource();
+    this.source = provider && process.env.NEXT_PUBLIC_PRICE_SOURCE !== 'fixture'
+      ? new FallbackPriceSource([new ChainlinkPriceSource(provider), fixture])
+      : fixture;
+  }
+
+  setPriceSource(source: PriceSource) {
+    this.source = source;
+  }
+
+  // Native token first, then the stablecoins deployed on this chain
+  tokensForChain(chainId: number): PaymentToken[] {
+    const network = NETWORK_CONFIG[chainId as keyof typeof NETWORK_CONFIG];
+    const native: PaymentToken = network && network.symbol === 'MATIC' ? 'MATIC' : 'ETH';
+    const stablecoins = STABLECOINS.filter(symbol => {
+      const addresses = SUPPORTED_TOKENS[symbol] as Record<number, string>;
+      return Boolean(addresses[chainId]);
+    });
+    return [native, ...stablecoins];
+  }
+
+  async getQuote(total: Money, token: PaymentToken, chainId: number): Promise<PaymentQuote> {
+    if (this.tokensForChain(chainId).indexOf(token) === -1) {
+      throw new Error(`${token} payments are not supported on chain ${chainId}`);
+    }
+
+    await fxService.refresh();
+    const usd = fxService.convertAmount(toMajor(total), total.currency, 'USD');
+    const price = await this.source.getUSDPrice(token, chainId);
+
+    const slippageBps = STABLECOINS.indexOf(token) !== -1
+      ? QUOTE_CONFIG.SLIPPAGE_BPS.stable
+      : QUOTE_CONFIG.SLIPPAGE_BPS.volatile;
+    const places = Math.min(TOKEN_DECIMALS[token], MAX_QUOTE_DECIMALS);
+    const base = usd / price.usd;
+    const createdAt = Date.now();
+
+    this.counter++;
+    return {
+      id: `quote-${createdAt}-${this.counter}`,
+      fiat: total,
+      usd: Math.round(usd * 100) / 100,
+      token,
+      chainId,
+      tokenPriceUSD: price.usd,
+      baseAmount: this.roundUp(base, places),
+      amount: this.roundUp(base * (1 + slippageBps / 10000), places),
+      slippageBps,
+      source: price.source,
+      createdAt,
+      expiresAt: createdAt + QUOTE_CONFIG.TTL_SECONDS * 1000
+    };
+  }
+
+  isExpired(quote: PaymentQuote, now: number = Date.now()): boolean {
+    return now >= quote.expiresAt;
+  }
+
+  secondsLeft(quote: PaymentQuote, now: number = Date.now()): number {
+    return Math.max(0, Math.ceil((quote.expiresAt - now) / 1000));
+  }
+
+  // The payment must send exactly what the user was shown, and only while the quote is live
+  assertPayable(quote: PaymentQuote, amount: string, token: string, chainId: number | null) {
+    if (this.isExpired(quote)) {
+      throw new Error('Price quote has expired; please review the updated amount');
+    }
+    if (quote.amount !== amount || quote.token !== token) {
+      throw new Error(`Payment of ${amount} ${token} does not match the quoted ${quote.amount} ${quote.token}`);
+    }
+    if (chainId !== null && quote.chainId !== chainId) {
+      throw new Error('Network changed since the quote was made; please review the updated amount');
+    }
+  }
+
+  // The epsilon keeps float noise (12.000000001) from rounding up a whole unit
+  private roundUp(amount: number, places: number): string {
+    const factor = Math.pow(10, places);
+    return (Math.ceil(amount * factor - 1e-6) / factor).toFixed(places);
+  }
+}
+
+// Export singleton instance
+export const quoteService = new QuoteService();
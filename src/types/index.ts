@@ -1,3 +1,5 @@
+import type { IssuedTicket } from '@/lib/tickets/tickets';
+
 export interface BookingOption {
   id: string;
   type: 'flight' | 'hotel' | 'tour' | 'activity';
@@ -11,6 +13,55 @@ export interface BookingOption {
   availability?: 'high' | 'medium' | 'low';
 }
 
+export type CabinClass = 'economy' | 'premium' | 'business' | 'first';
+export type PassengerType = 'adult' | 'child' | 'infant';
+
+// One takeoff-to-landing hop
+export interface FlightSegment {
+  flightNumber: string;
+  airline: string;
+  from: string; // IATA airport code
+  to: string;
+  departureTime: string; // Local time, YYYY-MM-DDTHH:mm
+  arrivalTime: string;
+  durationMinutes: number;
+  aircraft: string;
+  cabinClass: CabinClass;
+}
+
+export interface FlightLayover {
+  airport: string;
+  durationMinutes: number;
+}
+
+// Origin to destination on one date, possibly over several segments
+export interface FlightLeg {
+  origin: string;
+  destination: string;
+  date: string;
+  segments: FlightSegment[];
+  layovers: FlightLayover[];
+  durationMinutes: number; // First departure to last arrival, layovers included
+}
+
+export interface PassengerFare {
+  type: PassengerType;
+  count: number;
+  unitPrice: number;
+  subtotal: number;
+}
+
+// open_jaw: two legs where the return starts or ends somewhere other than the outbound's endpoints
+export type FlightTripType = 'one_way' | 'round_trip' | 'open_jaw' | 'multi_city';
+
+// Carried in BookingOption.details for flights, alongside the flat departure/arrival/airline summary
+export interface FlightItinerary {
+  tripType: FlightTripType;
+  cabinClass: CabinClass;
+  legs: FlightLeg[];
+  fares: PassengerFare[];
+}
+
 export interface Message {
   id: string;
   type: 'user' | 'bot';
@@ -24,6 +75,13 @@ export interface Message {
   confidence?: number;
 }
 
+// Events streamed by /api/chat, one JSON object per SSE `data:` line
+export type ChatStreamEvent =
+  | { type: 'text_delta'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, any> }
+  | { type: 'tool_result'; id: string; name: string; bookings?: BookingOption[]; itinerary?: any; error?: string }
+  | { type: 'error'; message: string };
+
 export interface SearchResult {
   id: string;
   query: string;
@@ -55,6 +113,7 @@ export interface BookingConfirmation {
   status: 'pending' | 'confirmed' | 'failed';
   details: BookingOption;
   paymentDetails: PaymentResult;
+  ticket?: IssuedTicket; // On-chain bookings only
   createdAt: Date;
 }
 
@@ -0,0 +1,276 @@
+// In-process full-text search over the hotel directory: tokenised fields with per-field weights,
+// synonyms, typo tolerance and prefix matching, plus amenity and hotel type facets
+import type { MockHotel } from './mockHotels';
+
+export type HotelType = MockHotel['hotelType'];
+
+export interface HotelSearchFilters {
+  amenities?: string[]; // A hotel must have all of them
+  hotelType?: HotelType;
+}
+
+export interface HotelSearchOptions extends HotelSearchFilters {
+  limit?: number;
+}
+
+export interface ScoredHotel extends MockHotel {
+  city: string;
+  score: number; // Relevance; 0 when browsing without a query
+}
+
+export interface HotelFacets {
+  amenities: Record<string, number>;
+  hotelType: Partial<Record<HotelType, number>>;
+}
+
+export interface HotelSearchResults {
+  hotels: ScoredHotel[];
+  total: number; // Matches before the limit
+  facets: HotelFacets;
+}
+
+// A city or name match says more than a word in the description
+const FIELD_WEIGHTS = {
+  city: 4,
+  name: 3,
+  address: 2,
+  hotelType: 2,
+  amenities: 1.5,
+  description: 1
+};
+
+const STOP_WORDS = [
+  'a', 'an', 'and', 'around', 'at', 'best', 'find', 'for', 'hotel', 'i', 'in', 'looking', 'me', 'my',
+  'near', 'of', 'on', 'place', 'room', 'show', 'some', 'stay', 'the', 'to', 'want', 'with'
+];
+
+// Query words rewritten to the words the directory uses
+const SYNONYMS: Record<string, string> = {
+  bombay: 'mumbai',
+  nyc: 'new york',
+  manhattan: 'new york',
+  panaji: 'goa',
+  panjim: 'goa',
+  cheap: 'budget',
+  affordable: 'budget',
+  inexpensive: 'budget',
+  hostel: 'budget',
+  motel: 'budget',
+  luxurious: 'luxury',
+  upscale: 'luxury',
+  fancy: 'luxury',
+  '5star': 'luxury',
+  swimming: 'pool',
+  fitness: 'gym',
+  gymnasium: 'gym',
+  internet: 'wifi',
+  wireless: 'wifi',
+  beachfront: 'beach',
+  seaside: 'beach'
+};
+
+// Lowercased words without accents; hyphenated words are joined so "wi-fi" and "WiFi" match
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/(\w)-(\w)/g, '$1$2')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0)
+    .map(stem);
+}
+
+// Plural "s" only; "paris", "bus" and "glass" are left alone
+function stem(token: string): string {
+  return token.length > 4 && /[^sui]s$/.test(token) ? token.slice(0, -1) : token;
+}
+
+// Optimal string alignment distance: edits plus adjacent swaps, so "lodnon" is one typo from "london"
+function editDistance(a: string, b: string): number {
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i];
+  }
+  for (let j = 1; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Short words have to be exact: one edit turns "spa" into "sea"
+function maxTypos(token: string): number {
+  return token.length < 4 ? 0 : token.length < 8 ? 1 : 2;
+}
+
+interface TermMatch {
+  term: string;
+  quality: number; // 1 exact, less for prefixes and typos
+}
+
+export class HotelSearchIndex {
+  private docs: ScoredHotel[] = [];
+  private postings = new Map<string, Map<number, number>>(); // term -> doc -> best field weight
+  private cityDocs = new Map<string, Set<number>>(); // Terms in city names -> hotels in that city
+
+  constructor(hotelsByCity: Record<string, MockHotel[]>) {
+    Object.entries(hotelsByCity).forEach(([city, hotels]) => {
+      hotels.forEach(hotel => this.add({ ...hotel, city, score: 0 }));
+    });
+  }
+
+  search(query: string, options: HotelSearchOptions = {}): HotelSearchResults {
+    const groups = this.queryTerms(query).map(token => this.match(token));
+
+    let matches: ScoredHotel[];
+    if (groups.length === 0) {
+      // Nothing to rank by: browse everything, best rated first
+      matches = this.docs.slice().sort((a, b) => b.rating - a.rating);
+    } else {
+      const scores = new Map<number, { sum: number; matched: number }>();
+      groups.forEach(group => {
+        const best = new Map<number, number>();
+        group.forEach(({ term, quality }) => {
+          const docs = this.postings.get(term)!;
+          const idf = Math.log(1 + this.docs.length / docs.size);
+          docs.forEach((weight, doc) => {
+            best.set(doc, Math.max(best.get(doc) || 0, quality * weight * idf));
+          });
+        });
+        best.forEach((score, doc) => {
+          const total = scores.get(doc) || { sum: 0, matched: 0 };
+          scores.set(doc, { sum: total.sum + score, matched: total.matched + 1 });
+        });
+      });
+
+      // A word naming a city keeps the search in that city, however many other words a hotel
+      // elsewhere matches ("cheap hotels in paris" never falls back to budget hotels in Goa)
+      const inCity = this.cityFilter(groups);
+
+      // Every word has to match when some hotel matches them all ("luxury mumbai" leaves out
+      // luxury hotels elsewhere); otherwise the hotels matching the most words are kept
+      let mostMatched = 0;
+      scores.forEach(({ matched }, doc) => {
+        if (!inCity || inCity.has(doc)) {
+          mostMatched = Math.max(mostMatched, matched);
+        }
+      });
+
+      matches = [];
+      scores.forEach(({ sum, matched }, doc) => {
+        if (matched === mostMatched && (!inCity || inCity.has(doc))) {
+          matches.push({ ...this.docs[doc], score: Math.round(sum * 100) / 100 });
+        }
+      });
+      matches.sort((a, b) => b.score - a.score || b.rating - a.rating);
+    }
+
+    const byAmenities = matches.filter(hotel => this.hasAmenities(hotel, options.amenities));
+    const filtered = byAmenities.filter(hotel => !options.hotelType || hotel.hotelType === options.hotelType);
+
+    return {
+      hotels: filtered.slice(0, options.limit || filtered.length),
+      total: filtered.length,
+      facets: {
+        amenities: this.count(filtered, hotel => hotel.amenities),
+        // Counted before the type filter so the other types stay selectable
+        hotelType: this.count(byAmenities, hotel => [hotel.hotelType])
+      }
+    };
+  }
+
+  private add(hotel: ScoredHotel) {
+    const doc = this.docs.push(hotel) - 1;
+    const fields: Record<keyof typeof FIELD_WEIGHTS, string> = {
+      city: hotel.city,
+      name: hotel.name,
+      address: hotel.address,
+      hotelType: hotel.hotelType,
+      amenities: hotel.amenities.join(' '),
+      description: hotel.description
+    };
+
+    tokenize(hotel.city).forEach(term => {
+      const docs = this.cityDocs.get(term) || new Set<number>();
+      docs.add(doc);
+      this.cityDocs.set(term, docs);
+    });
+
+    (Object.keys(fields) as (keyof typeof FIELD_WEIGHTS)[]).forEach(field => {
+      tokenize(fields[field]).forEach(term => {
+        const docs = this.postings.get(term) || new Map<number, number>();
+        docs.set(doc, Math.max(docs.get(doc) || 0, FIELD_WEIGHTS[field]));
+        this.postings.set(term, docs);
+      });
+    });
+  }
+
+  private queryTerms(query: string): string[] {
+    return tokenize(query)
+      .filter(token => STOP_WORDS.indexOf(token) === -1)
+      .reduce((terms, token) => terms.concat(
+        Object.prototype.hasOwnProperty.call(SYNONYMS, token) ? tokenize(SYNONYMS[token]) : [token]
+      ), [] as string[]);
+  }
+
+  // Exact term if indexed; otherwise terms it is a prefix of ("lond") or a typo away from ("mumbia")
+  private match(token: string): TermMatch[] {
+    if (this.postings.has(token)) {
+      return [{ term: token, quality: 1 }];
+    }
+
+    const matches: TermMatch[] = [];
+    const typos = maxTypos(token);
+    this.postings.forEach((_, term) => {
+      if (token.length >= 3 && term.indexOf(token) === 0) {
+        matches.push({ term, quality: 0.8 });
+      } else if (typos > 0 && Math.abs(term.length - token.length) <= typos) {
+        const distance = editDistance(token, term);
+        if (distance <= typos) {
+          matches.push({ term, quality: 0.7 - 0.2 * (distance - 1) });
+        }
+      }
+    });
+    return matches;
+  }
+
+  // Hotels in any city the query names, or null when it names none. A fuzzy word only names a city
+  // when the city is its closest match, so a typo of some other word doesn't pin the search
+  private cityFilter(groups: TermMatch[][]): Set<number> | null {
+    let inCity: Set<number> | null = null;
+    groups.forEach(group => {
+      const best = Math.max(...group.map(match => match.quality));
+      group.forEach(({ term, quality }) => {
+        const docs = this.cityDocs.get(term);
+        if (docs && quality === best) {
+          inCity = inCity || new Set<number>();
+          docs.forEach(doc => inCity!.add(doc));
+        }
+      });
+    });
+    return inCity;
+  }
+
+  private hasAmenities(hotel: MockHotel, amenities?: string[]): boolean {
+    const own = hotel.amenities.map(amenity => amenity.toLowerCase());
+    return !amenities || amenities.every(amenity => own.indexOf(amenity.toLowerCase()) !== -1);
+  }
+
+  private count(hotels: MockHotel[], values: (hotel: MockHotel) => string[]): Record<string, number> {
+    return hotels.reduce((counts, hotel) => {
+      values(hotel).forEach(value => {
+        counts[value] = (counts[value] || 0) + 1;
+      });
+      return counts;
+    }, {} as Record<string, number>);
+  }
+}
@@ -1,6 +1,108 @@
-import { MCPBookingIntent } from '@/types';
+import { convertOffer, offerToBookingOption } from '@/lib/inventory/provider';
+import type { TravelRecommendation } from '@/lib/mcp/server';
+import { fxService } from '@/lib/money/fx';
+import { DISPLAY_CURRENCY } from '@/lib/money/money';
+import type { ToolSelection } from '@/lib/mcp/intent';
+import { BookingOption, MCPBookingIntent } from '@/types';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const TOOL_SERVICES: Record<string, MCPBookingIntent['service']> = {
+  search_hotels: 'hotel',
+  search_flights: 'flight',
+  search_tours: 'tour',
+  search_activities: 'activity',
+  create_itinerary: 'tour' // An itinerary is booked as a tour package
+};
 
 export class MCPProcessor {
+  // Converts an LLM tool call into a booking intent; null for non-booking tools like travel advice
+  static fromToolSelection(selection: ToolSelection): MCPBookingIntent | null {
+    const service = TOOL_SERVICES[selection.name];
+    if (!service) return null;
+
+    const args = selection.arguments;
+    const intent: MCPBookingIntent = {
+      type: 'booking_request',
+      service,
+      parameters: {}
+    };
+
+    if (args.destination) intent.parameters.destination = args.destination;
+    if (args.origin) intent.parameters.origin = args.origin;
+
+    const start = args.checkIn || args.departureDate || args.date;
+    if (start) {
+      intent.parameters.dates = { start };
+      const end = args.checkOut || args.returnDate;
+      if (end) intent.parameters.dates.end = end;
+    }
+
+    if (typeof args.budget === 'number') {
+      intent.parameters.budget = { amount: args.budget, currency: args.currency || 'INR' };
+    }
+
+    const travellers = args.passengers || args.guests || args.groupSize;
+    if (travellers) intent.parameters.passengers = travellers;
+
+    const preferences = args.preferences || args.interests;
+    if (preferences && preferences.length > 0) intent.parameters.preferences = preferences;
+
+    return intent;
+  }
+
+  // Inverse of fromToolSelection: fills a tool's arguments from the slots gathered so far
+  static toToolArguments(toolName: string, parameters: MCPBookingIntent['parameters']): Record<string, any> {
+    const { destination, origin, dates, budget, passengers, preferences } = parameters;
+    let args: Record<string, any>;
+
+    switch (toolName) {
+      case 'search_hotels':
+        args = { destination, checkIn: dates?.start, checkOut: dates?.end, guests: passengers, budget: budget?.amount, preferences };
+        break;
+      case 'search_flights':
+        args = { origin, destination, departureDate: dates?.start, returnDate: dates?.end, passengers, budget: budget?.amount };
+        break;
+      case 'search_tours':
+        args = { destination, date: dates?.start, groupSize: passengers, budget: budget?.amount };
+        break;
+      case 'search_activities':
+        args = { destination, date: dates?.start, budget: budget?.amount };
+        break;
+      case 'create_itinerary':
+        args = { destination, budget: budget?.amount, interests: preferences };
+        break;
+      case 'get_travel_advice':
+        args = { destination, travelDates: dates ? [dates.start, dates.end].filter(Boolean).join(' to ') : undefined };
+        break;
+      default:
+        args = {};
+    }
+
+    // Drop slots that haven't been filled yet
+    Object.keys(args).forEach(key => {
+      if (args[key] === undefined) delete args[key];
+    });
+    return args;
+  }
+
+  // Shapes an MCP search result into the booking card the UI renders, priced in the display currency
+  static toBookingOption(rec: TravelRecommendation): BookingOption {
+    return offerToBookingOption(convertOffer(rec, DISPLAY_CURRENCY));
+  }
+
+  // Results from other MCP servers may use currencies the rate table doesn't know; those can't be
+  // priced or formatted, so they are left out rather than breaking the results list
+  static toBookingOptions(recs: TravelRecommendation[]): BookingOption[] {
+    return recs
+      .filter(rec => {
+        if (fxService.canConvert(rec.currency, DISPLAY_CURRENCY)) return true;
+        console.warn(`⚠️ Dropping ${rec.title}: no exchange rate for ${rec.currency}`);
+        return false;
+      })
+      .map(rec => MCPProcessor.toBookingOption(rec));
+  }
+
   static parseNaturalLanguage(input: string): MCPBookingIntent {
     const intent: MCPBookingIntent = {
       type: 'booking_request',
@@ -24,6 +126,12 @@ export class MCPProcessor {
       };
     }
 
+    // Extract travellers
+    const travellersMatch = input.match(/(\d+)\s*(?:people|persons|guests|adults|travell?ers|passengers|pax)\b/i);
+    if (travellersMatch) {
+      intent.parameters.passengers = parseInt(travellersMatch[1]);
+    }
+
     // Extract dates/duration
     const durationMatch = input.match(/(\d+)[-\s]?day/i);
     if (durationMatch) {
@@ -42,11 +150,12 @@ export class MCPProcessor {
     // Extract month
     const monthMatch = input.match(/(january|february|march|april|may|june|july|august|september|october|november|december)/i);
     if (monthMatch) {
-      const month = monthMatch[1].toLowerCase();
-      const monthIndex = new Date(Date.parse(month + " 1, 2024")).getMonth();
-      const startDate = new Date(2024, monthIndex, 1);
+      // Use the next occurrence of the month, rolling into next year if it has passed
+      const monthIndex = MONTHS.indexOf(monthMatch[1].toLowerCase());
+      const now = new Date();
+      const year = monthIndex < now.getMonth() ? now.getFullYear() + 1 : now.getFullYear();
       intent.parameters.dates = {
-        start: startDate.toISOString().split('T')[0]
+        start: `${year}-${('0' + (monthIndex + 1)).slice(-2)}-01`
       };
     }
 
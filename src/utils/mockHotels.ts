@@ -1,4 +1,6 @@
 // Mock hotel data for development and demonstration
+import { HotelSearchIndex, type HotelSearchOptions, type HotelSearchResults } from './hotelSearch';
+
 export interface MockHotel {
   id: string;
   name: string;
@@ -217,53 +219,110 @@ export const mockHotels: Record<string, MockHotel[]> = {
   ]
 };
 
+let searchIndex: HotelSearchIndex | null = null;
+
+// Ranked full-text search over city, name, address, type, amenities and description
+export function searchHotels(query: string, options: HotelSearchOptions = {}): HotelSearchResults {
+  if (!searchIndex) {
+    searchIndex = new HotelSearchIndex(mockHotels);
+  }
+  return searchIndex.search(query, options);
+}
+
 // Function to search hotels by location
 export function searchHotelsByLocation(query: string, maxResults: number = 10): MockHotel[] {
-  const searchTerm = query.toLowerCase().trim();
-  let results: MockHotel[] = [];
-  
-  // Direct city match
-  if (mockHotels[searchTerm]) {
-    results = mockHotels[searchTerm];
-  } else {
-    // Fuzzy search across all cities
-    Object.entries(mockHotels).forEach(([city, hotels]) => {
-      if (city.includes(searchTerm) || searchTerm.includes(city)) {
-        results.push(...hotels);
-      }
+  return searchHotels(query, { limit: maxResults }).hotels;
+}
+
+export interface NearbyHotel extends MockHotel {
+  distanceKm: number; // Great-circle distance from the search point
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+const GRID_CELL_DEGREES = 0.5; // ~55 km of latitude; a city's hotels share one or two cells
+const GRID_COLUMNS = 360 / GRID_CELL_DEGREES;
+
+export function haversineKm(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Fixed lat/lng grid over the hotels, so a radius search only measures hotels in the cells its
+// bounding box touches. Columns wrap at the antimeridian
+export class HotelGridIndex {
+  private cells = new Map<string, MockHotel[]>();
+
+  constructor(private hotels: MockHotel[]) {
+    hotels.forEach(hotel => {
+      const key = this.cellKey(this.row(hotel.location.lat), this.column(hotel.location.lng));
+      const cell = this.cells.get(key) || [];
+      cell.push(hotel);
+      this.cells.set(key, cell);
     });
-    
-    // If no city match, search hotel names and descriptions
-    if (results.length === 0) {
-      Object.values(mockHotels).flat().forEach(hotel => {
-        if (hotel.name.toLowerCase().includes(searchTerm) ||
-            hotel.description.toLowerCase().includes(searchTerm) ||
-            hotel.address.toLowerCase().includes(searchTerm)) {
-          results.push(hotel);
-        }
-      });
+  }
+
+  within(lat: number, lng: number, radiusKm: number): NearbyHotel[] {
+    const center = { lat, lng };
+    return this.candidates(lat, lng, radiusKm)
+      .map(hotel => ({ ...hotel, distanceKm: haversineKm(center, hotel.location) }))
+      .filter(hotel => hotel.distanceKm <= radiusKm)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  }
+
+  private candidates(lat: number, lng: number, radiusKm: number): MockHotel[] {
+    const latSpan = radiusKm / KM_PER_DEGREE_LAT;
+    const minLat = Math.max(-90, lat - latSpan);
+    const maxLat = Math.min(90, lat + latSpan);
+
+    // A degree of longitude shrinks towards the poles; near one, every longitude is in range
+    const widestLat = Math.max(Math.abs(minLat), Math.abs(maxLat));
+    const lngSpan = widestLat >= 89 ? 180 : latSpan / Math.cos(widestLat * Math.PI / 180);
+
+    const rows = this.row(maxLat) - this.row(minLat) + 1;
+    const firstColumn = Math.floor((lng - lngSpan + 180) / GRID_CELL_DEGREES);
+    const columns = Math.min(GRID_COLUMNS, Math.floor((lng + lngSpan + 180) / GRID_CELL_DEGREES) - firstColumn + 1);
+
+    // Measuring every hotel is cheaper than visiting more cells than there are hotels
+    if (rows * columns > this.hotels.length) {
+      return this.hotels;
     }
+
+    const candidates: MockHotel[] = [];
+    for (let row = this.row(minLat); row <= this.row(maxLat); row++) {
+      for (let i = 0; i < columns; i++) {
+        const column = ((firstColumn + i) % GRID_COLUMNS + GRID_COLUMNS) % GRID_COLUMNS;
+        candidates.push(...(this.cells.get(this.cellKey(row, column)) || []));
+      }
+    }
+    return candidates;
+  }
+
+  private row(lat: number): number {
+    return Math.floor((Math.min(lat, 89.999) + 90) / GRID_CELL_DEGREES);
+  }
+
+  private column(lng: number): number {
+    return ((Math.floor((lng + 180) / GRID_CELL_DEGREES) % GRID_COLUMNS) + GRID_COLUMNS) % GRID_COLUMNS;
+  }
+
+  private cellKey(row: number, column: number): string {
+    return `${row}:${column}`;
   }
-  
-  return results.slice(0, maxResults);
 }
 
-// Function to search hotels near coordinates (mock)
-export function searchHotelsNearLocation(lat: number, lng: number, radiusKm: number = 10, maxResults: number = 10): MockHotel[] {
-  // For demo purposes, return hotels from a major city based on rough coordinates
-  if (lat >= 40.7 && lat <= 40.8 && lng >= -74.0 && lng <= -73.9) {
-    return mockHotels['new york'].slice(0, maxResults);
-  } else if (lat >= 51.5 && lat <= 51.6 && lng >= -0.2 && lng <= 0.0) {
-    return mockHotels['london'].slice(0, maxResults);
-  } else if (lat >= 48.8 && lat <= 48.9 && lng >= 2.3 && lng <= 2.4) {
-    return mockHotels['paris'].slice(0, maxResults);
-  } else if (lat >= 18.9 && lat <= 19.0 && lng >= 72.8 && lng <= 72.9) {
-    return mockHotels['mumbai'].slice(0, maxResults);
-  } else {
-    // Return a mix of hotels for other locations
-    const allHotels = Object.values(mockHotels).flat();
-    return allHotels.slice(0, maxResults);
+let hotelIndex: HotelGridIndex | null = null;
+
+// Hotels within radiusKm of the point, nearest first
+export function searchHotelsNearLocation(lat: number, lng: number, radiusKm: number = 10, maxResults: number = 10): NearbyHotel[] {
+  if (!hotelIndex) {
+    hotelIndex = new HotelGridIndex(Object.values(mockHotels).flat());
   }
+  return hotelIndex.within(lat, lng, radiusKm).slice(0, maxResults);
 }
 
 // Function to get random hotels for "featured" or general display
@@ -272,24 +331,3 @@ export function getFeaturedHotels(count: number = 6): MockHotel[] {
   const shuffled = allHotels.sort(() => 0.5 - Math.random());
   return shuffled.slice(0, count);
 }
-
-// Convert mock hotel to BookingOption format
-export function convertMockHotelToBookingOption(hotel: MockHotel) {
-  return {
-    id: hotel.id,
-    type: 'hotel' as const,
-    title: hotel.name,
-    description: hotel.description,
-    price: hotel.pricePerNight,
-    currency: hotel.currency,
-    image: hotel.photos[0],
-    rating: hotel.rating,
-    location: hotel.address,
-    details: {
-      amenities: hotel.amenities,
-      reviewCount: hotel.reviewCount,
-      hotelType: hotel.hotelType,
-      coordinates: hotel.location
-    }
-  };
-}
@@ -0,0 +1,430 @@
+// TravelBooking escrow, ticket and payout behaviour on the in-process Hardhat network
+//
+//   npm test
+
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { loadFixture, setBalance, time } = require("@nomicfoundation/hardhat-network-helpers");
+
+const DAY = 24 * 60 * 60;
+const NATIVE = ethers.ZeroAddress;
+const PRICE = ethers.parseEther("1");
+const TOKEN_PRICE = 500_000_000n; // 500 USDC
+const FEE_BPS = 250n;
+
+const Status = { Pending: 0n, Confirmed: 1n, CheckedIn: 2n, Completed: 3n, Cancelled: 4n, Refunded: 5n };
+
+async function deployFixture() {
+  const [owner, customer, vendor, payout, stranger, collector] = await ethers.getSigners();
+
+  const booking = await ethers.deployContract("TravelBooking");
+  const token = await ethers.deployContract("MockERC20", ["USD Coin", "USDC"]);
+  await booking.setSupportedToken(await token.getAddress(), true);
+  await booking.setFeeCollector(collector.address);
+  await booking.registerVendor(vendor.address, "Hotel Lisboa", payout.address);
+
+  await token.mint(customer.address, TOKEN_PRICE * 10n);
+  await token.connect(customer).approve(await booking.getAddress(), ethers.MaxUint256);
+
+  return { booking, token, owner, customer, vendor, payout, stranger, collector };
+}
+
+// A hotel booking with `vendor`, checking in `checkInInDays` from now
+async function createNative(booking, customer, vendor, checkInInDays = 30) {
+  const checkIn = (await time.latest()) + checkInInDays * DAY;
+  await booking
+    .connect(customer)
+    .createBooking("hotel", vendor, "2 nights", PRICE, NATIVE, checkIn, checkIn + 2 * DAY, "", { value: PRICE });
+  return (await booking.getStats()).totalBookings;
+}
+
+async function createWithToken(booking, token, customer, vendor, checkInInDays = 30) {
+  const checkIn = (await time.latest()) + checkInInDays * DAY;
+  await booking
+    .connect(customer)
+    .createBooking("hotel", vendor, "2 nights", TOKEN_PRICE, await token.getAddress(), checkIn, checkIn + 2 * DAY, "");
+  return (await booking.getStats()).totalBookings;
+}
+
+describe("TravelBooking", function () {
+  describe("createBooking", function () {
+    it("holds a native payment in escrow", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const checkIn = (await time.latest()) + 30 * DAY;
+
+      const tx = booking
+        .connect(customer)
+        .createBooking("hotel", vendor.address, "2 nights", PRICE, NATIVE, checkIn, checkIn + 2 * DAY, "ipfs://x", {
+          value: PRICE
+        });
+      await expect(tx).to.emit(booking, "BookingCreated").withArgs(1n, customer.address, "hotel", PRICE, NATIVE);
+      await expect(tx).to.changeEtherBalances([customer, booking], [-PRICE, PRICE]);
+
+      const created = await booking.getBooking(1);
+      expect(created.customer).to.equal(customer.address);
+      expect(created.vendor).to.equal(vendor.address);
+      expect(created.status).to.equal(Status.Pending);
+      expect(created.metadataURI).to.equal("ipfs://x");
+      expect(await booking.getUserBookings(customer.address)).to.deep.equal([1n]);
+      expect(await booking.getVendorBookings(vendor.address)).to.deep.equal([1n]);
+
+      const [totalBookings, totalValue] = await booking.getStats();
+      expect(totalBookings).to.equal(1n);
+      expect(totalValue).to.equal(PRICE);
+    });
+
+    it("pulls an ERC-20 payment into escrow", async function () {
+      const { booking, token, customer, vendor } = await loadFixture(deployFixture);
+
+      const id = await createWithToken(booking, token, customer, vendor.address);
+
+      expect(await token.balanceOf(await booking.getAddress())).to.equal(TOKEN_PRICE);
+      expect((await booking.getBooking(id)).token).to.equal(await token.getAddress());
+      // Native totals only count native bookings
+      expect((await booking.getStats()).totalValue).to.equal(0n);
+    });
+
+    it("rejects a wrong native amount, native value with a token, and unsupported tokens", async function () {
+      const { booking, token, customer, vendor, stranger } = await loadFixture(deployFixture);
+      const checkIn = (await time.latest()) + 30 * DAY;
+      const create = (amount, tokenAddress, value) =>
+        booking
+          .connect(customer)
+          .createBooking("hotel", vendor.address, "", amount, tokenAddress, checkIn, checkIn + DAY, "", { value });
+
+      await expect(create(PRICE, NATIVE, PRICE - 1n)).to.be.revertedWith("Incorrect payment amount");
+      await expect(create(TOKEN_PRICE, await token.getAddress(), 1n)).to.be.revertedWith(
+        "Native token sent with ERC-20 payment"
+      );
+      await expect(create(PRICE, stranger.address, 0n)).to.be.revertedWith("Token not supported");
+    });
+
+    it("rejects inactive vendors", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      await booking.setVendorActive(vendor.address, false);
+
+      await expect(createNative(booking, customer, vendor.address)).to.be.revertedWith("Vendor is not active");
+    });
+  });
+
+  describe("confirmBooking", function () {
+    it("lets the vendor confirm and mints the ticket to the customer", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address);
+
+      await expect(booking.connect(vendor).confirmBooking(id))
+        .to.emit(booking, "BookingConfirmed")
+        .withArgs(id)
+        .and.to.emit(booking, "Transfer")
+        .withArgs(NATIVE, customer.address, id);
+
+      expect((await booking.getBooking(id)).status).to.equal(Status.Confirmed);
+      expect(await booking.ownerOf(id)).to.equal(customer.address);
+      expect(await booking.balanceOf(customer.address)).to.equal(1n);
+    });
+
+    it("lets the owner confirm on the vendor's behalf", async function () {
+      const { booking, owner, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address);
+
+      await booking.connect(owner).confirmBooking(id);
+
+      expect((await booking.getBooking(id)).status).to.equal(Status.Confirmed);
+    });
+
+    it("rejects anyone else, and bookings that are not pending", async function () {
+      const { booking, customer, vendor, stranger } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address);
+
+      await expect(booking.connect(stranger).confirmBooking(id)).to.be.revertedWith(
+        "Only the vendor or platform can confirm"
+      );
+      await expect(booking.connect(customer).confirmBooking(id)).to.be.revertedWith(
+        "Only the vendor or platform can confirm"
+      );
+
+      await booking.connect(vendor).confirmBooking(id);
+      await expect(booking.connect(vendor).confirmBooking(id)).to.be.revertedWith("Booking is not pending");
+      await expect(booking.connect(vendor).confirmBooking(99)).to.be.revertedWith("Booking does not exist");
+    });
+  });
+
+  describe("checkIn", function () {
+    it("opens a day before the check-in date", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 3);
+      await booking.connect(vendor).confirmBooking(id);
+
+      await expect(booking.connect(customer).checkIn(id)).to.be.revertedWith("Too early to check in");
+
+      const { checkInDate } = await booking.getBooking(id);
+      await time.increaseTo(checkInDate - BigInt(DAY));
+      await expect(booking.connect(customer).checkIn(id)).to.emit(booking, "BookingCheckedIn").withArgs(id);
+      expect((await booking.getBooking(id)).status).to.equal(Status.CheckedIn);
+    });
+
+    it("is for the customer only, once the booking is confirmed", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 1);
+
+      await expect(booking.connect(customer).checkIn(id)).to.be.revertedWith("Booking is not confirmed");
+
+      await booking.connect(vendor).confirmBooking(id);
+      await expect(booking.connect(vendor).checkIn(id)).to.be.revertedWith("Only the customer can check in");
+    });
+  });
+
+  describe("completeBooking", function () {
+    async function checkedIn(fixture, create) {
+      const { booking, customer, vendor } = fixture;
+      const id = await create(1);
+      await booking.connect(vendor).confirmBooking(id);
+      await booking.connect(customer).checkIn(id);
+      return id;
+    }
+
+    it("pays the fee to the collector and credits the rest to the vendor", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { booking, customer, vendor, collector } = fixture;
+      const id = await checkedIn(fixture, days => createNative(booking, customer, vendor.address, days));
+      const fee = (PRICE * FEE_BPS) / 10000n;
+
+      const tx = booking.completeBooking(id);
+      await expect(tx)
+        .to.emit(booking, "BookingCompleted")
+        .withArgs(id)
+        .and.to.emit(booking, "VendorEarningsCredited")
+        .withArgs(vendor.address, id, NATIVE, PRICE - fee);
+      await expect(tx).to.changeEtherBalances([collector, booking], [fee, -fee]);
+
+      expect(await booking.vendorBalances(vendor.address, NATIVE)).to.equal(PRICE - fee);
+      expect((await booking.getStats()).platformRevenue).to.equal(fee);
+      // The ticket stays with the customer as a record of the stay
+      expect(await booking.ownerOf(id)).to.equal(customer.address);
+    });
+
+    it("keeps the fee rate the booking was made at", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { booking, token, customer, vendor, collector } = fixture;
+      const id = await checkedIn(fixture, days => createWithToken(booking, token, customer, vendor.address, days));
+      await booking.setPlatformFee(1000);
+      const fee = (TOKEN_PRICE * FEE_BPS) / 10000n;
+
+      await expect(booking.completeBooking(id)).to.changeTokenBalances(token, [collector, booking], [fee, -fee]);
+      expect(await booking.vendorBalances(vendor.address, await token.getAddress())).to.equal(TOKEN_PRICE - fee);
+    });
+
+    it("pays platform-operated bookings straight to the owner", async function () {
+      const fixture = await loadFixture(deployFixture);
+      const { booking, owner, customer, collector } = fixture;
+      const id = await createNative(booking, customer, NATIVE, 1);
+      await booking.confirmBooking(id);
+      await booking.connect(customer).checkIn(id);
+      const fee = (PRICE * FEE_BPS) / 10000n;
+
+      await expect(booking.completeBooking(id)).to.changeEtherBalances(
+        [owner, collector, booking],
+        [PRICE - fee, fee, -PRICE]
+      );
+      expect(await booking.vendorBalances(NATIVE, NATIVE)).to.equal(0n);
+    });
+
+    it("is owner-only, after check-in", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 1);
+      await booking.connect(vendor).confirmBooking(id);
+
+      await expect(booking.completeBooking(id)).to.be.revertedWith("Booking is not checked in");
+      await booking.connect(customer).checkIn(id);
+      await expect(booking.connect(vendor).completeBooking(id)).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+
+  describe("cancelBooking", function () {
+    it("refunds an unconfirmed booking in full", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 1);
+
+      const tx = booking.connect(customer).cancelBooking(id);
+      await expect(tx).to.emit(booking, "BookingCancelled").withArgs(id, PRICE);
+      await expect(tx).to.changeEtherBalances([customer, booking], [PRICE, -PRICE]);
+      expect((await booking.getBooking(id)).status).to.equal(Status.Refunded);
+    });
+
+    it("refunds in full with enough notice and burns the ticket", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 30);
+      await booking.connect(vendor).confirmBooking(id);
+
+      const tx = booking.connect(customer).cancelBooking(id);
+      await expect(tx).to.emit(booking, "Transfer").withArgs(customer.address, NATIVE, id);
+      await expect(tx).to.changeEtherBalances([customer, booking], [PRICE, -PRICE]);
+
+      expect((await booking.getBooking(id)).status).to.equal(Status.Refunded);
+      expect(await booking.balanceOf(customer.address)).to.equal(0n);
+      await expect(booking.ownerOf(id)).to.be.revertedWith("Ticket does not exist");
+    });
+
+    it("refunds half inside the full-refund window and splits the rest between fee and vendor", async function () {
+      const { booking, customer, vendor, collector } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 5);
+      await booking.connect(vendor).confirmBooking(id);
+      const refund = PRICE / 2n;
+      const fee = (PRICE * FEE_BPS) / 10000n;
+
+      const [previewAmount, previewBps] = await booking.previewRefund(id);
+      expect(previewAmount).to.equal(refund);
+      expect(previewBps).to.equal(5000n);
+
+      const tx = booking.cancelBooking(id);
+      await expect(tx).to.emit(booking, "BookingCancelled").withArgs(id, refund);
+      await expect(tx).to.changeEtherBalances([customer, collector, booking], [refund, fee, -(refund + fee)]);
+
+      expect((await booking.getBooking(id)).status).to.equal(Status.Cancelled);
+      expect(await booking.vendorBalances(vendor.address, NATIVE)).to.equal(PRICE - refund - fee);
+    });
+
+    it("refunds nothing at short notice", async function () {
+      const { booking, token, customer, vendor, collector } = await loadFixture(deployFixture);
+      const id = await createWithToken(booking, token, customer, vendor.address, 1);
+      await booking.connect(vendor).confirmBooking(id);
+      const fee = (TOKEN_PRICE * FEE_BPS) / 10000n;
+
+      await expect(booking.connect(customer).cancelBooking(id)).to.changeTokenBalances(
+        token,
+        [customer, collector],
+        [0n, fee]
+      );
+
+      expect((await booking.getBooking(id)).status).to.equal(Status.Cancelled);
+      expect(await booking.vendorBalances(vendor.address, await token.getAddress())).to.equal(TOKEN_PRICE - fee);
+    });
+
+    it("is for the customer or owner, before check-in", async function () {
+      const { booking, customer, vendor, stranger } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address, 1);
+
+      await expect(booking.connect(stranger).cancelBooking(id)).to.be.revertedWith("Not authorized to cancel");
+      await expect(booking.connect(vendor).cancelBooking(id)).to.be.revertedWith("Not authorized to cancel");
+
+      await booking.connect(vendor).confirmBooking(id);
+      await booking.connect(customer).checkIn(id);
+      await expect(booking.connect(customer).cancelBooking(id)).to.be.revertedWith("Booking cannot be cancelled");
+    });
+  });
+
+  describe("tickets", function () {
+    it("cannot be transferred or approved", async function () {
+      const { booking, customer, vendor, stranger } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address);
+      await booking.connect(vendor).confirmBooking(id);
+      const asCustomer = booking.connect(customer);
+
+      await expect(asCustomer.transferFrom(customer.address, stranger.address, id)).to.be.revertedWith(
+        "Tickets are non-transferable"
+      );
+      await expect(
+        asCustomer["safeTransferFrom(address,address,uint256)"](customer.address, stranger.address, id)
+      ).to.be.revertedWith("Tickets are non-transferable");
+      await expect(
+        asCustomer["safeTransferFrom(address,address,uint256,bytes)"](customer.address, stranger.address, id, "0x")
+      ).to.be.revertedWith("Tickets are non-transferable");
+      await expect(asCustomer.approve(stranger.address, id)).to.be.revertedWith("Tickets are non-transferable");
+      await expect(asCustomer.setApprovalForAll(stranger.address, true)).to.be.revertedWith(
+        "Tickets are non-transferable"
+      );
+      expect(await booking.ownerOf(id)).to.equal(customer.address);
+    });
+
+    it("serve the booking's metadata URI", async function () {
+      const { booking, customer, vendor } = await loadFixture(deployFixture);
+      const id = await createNative(booking, customer, vendor.address);
+      await booking.connect(vendor).confirmBooking(id);
+
+      await expect(booking.connect(customer).setTicketURI(id, "ipfs://ticket"))
+        .to.emit(booking, "MetadataUpdate")
+        .withArgs(id);
+      expect(await booking.tokenURI(id)).to.equal("ipfs://ticket");
+    });
+  });
+
+  describe("withdrawVendorBalance", function () {
+    it("sends each token's earnings to the vendor's payout address", async function () {
+      const { booking, token, customer, vendor, payout } = await loadFixture(deployFixture);
+      const nativeId = await createNative(booking, customer, vendor.address, 1);
+      const tokenId = await createWithToken(booking, token, customer, vendor.address, 1);
+      for (const id of [nativeId, tokenId]) {
+        await booking.connect(vendor).confirmBooking(id);
+        await booking.connect(customer).checkIn(id);
+        await booking.completeBooking(id);
+      }
+      const nativeEarnings = PRICE - (PRICE * FEE_BPS) / 10000n;
+      const tokenEarnings = TOKEN_PRICE - (TOKEN_PRICE * FEE_BPS) / 10000n;
+
+      const tx = booking.connect(vendor).withdrawVendorBalance(NATIVE);
+      await expect(tx).to.emit(booking, "VendorWithdrawal").withArgs(vendor.address, NATIVE, nativeEarnings, payout.address);
+      await expect(tx).to.changeEtherBalances([payout, booking], [nativeEarnings, -nativeEarnings]);
+      await expect(booking.connect(vendor).withdrawVendorBalance(await token.getAddress())).to.changeTokenBalances(
+        token,
+        [payout, booking],
+        [tokenEarnings, -tokenEarnings]
+      );
+
+      expect(await booking.vendorBalances(vendor.address, NATIVE)).to.equal(0n);
+      await expect(booking.connect(vendor).withdrawVendorBalance(NATIVE)).to.be.revertedWith("Nothing to withdraw");
+    });
+
+    it("rejects addresses that are not registered vendors", async function () {
+      const { booking, stranger } = await loadFixture(deployFixture);
+
+      await expect(booking.connect(stranger).withdrawVendorBalance(NATIVE)).to.be.revertedWith(
+        "Vendor not registered"
+      );
+    });
+  });
+
+  describe("emergency withdrawals", function () {
+    it("never take escrow or vendor earnings", async function () {
+      const { booking, token, owner, customer, vendor } = await loadFixture(deployFixture);
+      const escrowId = await createNative(booking, customer, vendor.address, 30);
+      const earnedId = await createNative(booking, customer, vendor.address, 1);
+      await booking.connect(vendor).confirmBooking(earnedId);
+      await booking.connect(customer).checkIn(earnedId);
+      await booking.completeBooking(earnedId);
+      await createWithToken(booking, token, customer, vendor.address);
+
+      expect(await booking.withdrawableSurplus(NATIVE)).to.equal(0n);
+      await expect(booking.emergencyWithdraw()).to.be.revertedWith("No surplus to withdraw");
+      await expect(booking.emergencyWithdrawToken(await token.getAddress(), 1n)).to.be.revertedWith(
+        "Amount exceeds surplus"
+      );
+
+      // Stray funds can be recovered, and only those
+      const stray = ethers.parseEther("0.3");
+      await setBalance(await booking.getAddress(), (await ethers.provider.getBalance(await booking.getAddress())) + stray);
+      expect(await booking.withdrawableSurplus(NATIVE)).to.equal(stray);
+      await expect(booking.emergencyWithdraw()).to.changeEtherBalances([owner, booking], [stray, -stray]);
+
+      await token.mint(await booking.getAddress(), 7n);
+      await expect(booking.emergencyWithdrawToken(await token.getAddress(), 7n)).to.changeTokenBalances(
+        token,
+        [owner, booking],
+        [7n, -7n]
+      );
+      await expect(booking.emergencyWithdrawToken(await token.getAddress(), 1n)).to.be.revertedWith(
+        "Amount exceeds surplus"
+      );
+
+      // Escrow and earnings are still there to be refunded and withdrawn
+      await expect(booking.connect(customer).cancelBooking(escrowId)).to.changeEtherBalance(customer, PRICE);
+      await booking.connect(vendor).withdrawVendorBalance(NATIVE);
+      expect(await ethers.provider.getBalance(await booking.getAddress())).to.equal(0n);
+    });
+
+    it("is owner-only", async function () {
+      const { booking, stranger } = await loadFixture(deployFixture);
+
+      await expect(booking.connect(stranger).emergencyWithdraw()).to.be.revertedWith("Ownable: caller is not the owner");
+    });
+  });
+});